@@ -0,0 +1,209 @@
+// scripts/seed-emulators.mjs
+//
+// Resets the local Firebase emulators and loads demo users and alerts.
+// Talks to the emulators' REST APIs directly, so it needs no extra
+// packages and no network. Run with the emulators up:
+//
+//   npm run emulators        (in one terminal)
+//   npm run emulators:seed   (in another)
+
+const PROJECT_ID = "demo-xchangehub";
+const HOST = process.env.FIREBASE_EMULATOR_HOST || "127.0.0.1";
+const AUTH = `http://${HOST}:9099`;
+const FIRESTORE = `http://${HOST}:8080`;
+const DOCUMENTS = `${FIRESTORE}/v1/projects/${PROJECT_ID}/databases/(default)/documents`;
+
+// "owner" is the emulators' admin token: it bypasses security rules
+const ADMIN_HEADERS = {
+  "Content-Type": "application/json",
+  Authorization: "Bearer owner",
+};
+
+const PASSWORD = "password123";
+
+const USERS = [
+  {
+    email: "demo@xchangehub.test",
+    displayName: "Demo Trader",
+    emailVerified: true,
+    about: "Tracking INR and AED for remittances.",
+    country: "India",
+    accountType: "personal",
+    useCase: "investing",
+    newsletterOptIn: true,
+  },
+  {
+    email: "unverified@xchangehub.test",
+    displayName: "New Signup",
+    emailVerified: false,
+    about: "",
+    country: "United States",
+    accountType: "business",
+    useCase: "business",
+    newsletterOptIn: false,
+  },
+];
+
+const HOUR = 60 * 60 * 1000;
+
+function seedAlerts(email) {
+  const now = Date.now();
+  const base = {
+    email,
+    active: true,
+    snoozedUntil: null,
+    schedule: ["06:00", "19:00"],
+    destinationIds: [],
+  };
+  return [
+    {
+      ...base,
+      id: "seed-usd-inr",
+      from: "USD",
+      to: "INR",
+      condition: { type: "above", value: 84.5 },
+      createdAt: new Date(now - 48 * HOUR).toISOString(),
+      updatedAt: now - 48 * HOUR,
+    },
+    {
+      ...base,
+      id: "seed-eur-usd",
+      from: "EUR",
+      to: "USD",
+      condition: { type: "percentChange", percent: 1, windowHours: 24 },
+      createdAt: new Date(now - 24 * HOUR).toISOString(),
+      updatedAt: now - 24 * HOUR,
+    },
+    {
+      ...base,
+      id: "seed-usd-aed",
+      from: "USD",
+      to: "AED",
+      condition: { type: "rangeExit", low: 3.66, high: 3.68 },
+      active: false,
+      createdAt: new Date(now - 2 * HOUR).toISOString(),
+      updatedAt: now - 2 * HOUR,
+    },
+  ];
+}
+
+// ===== HELPERS =====
+
+async function request(url, init = {}) {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    throw new Error(`${init.method ?? "GET"} ${url} → ${res.status} ${await res.text()}`);
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+/** Plain JS value → Firestore REST `Value`. */
+function toValue(value) {
+  if (value === null) return { nullValue: null };
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toValue) } };
+  }
+  switch (typeof value) {
+    case "boolean":
+      return { booleanValue: value };
+    case "number":
+      return Number.isInteger(value)
+        ? { integerValue: String(value) }
+        : { doubleValue: value };
+    case "string":
+      return { stringValue: value };
+    default:
+      return { mapValue: { fields: toFields(value) } };
+  }
+}
+
+function toFields(obj) {
+  return Object.fromEntries(
+    Object.entries(obj).map(([key, value]) => [key, toValue(value)])
+  );
+}
+
+function writeDoc(path, data) {
+  return request(`${DOCUMENTS}/${path}`, {
+    method: "PATCH",
+    headers: ADMIN_HEADERS,
+    body: JSON.stringify({ fields: toFields(data) }),
+  });
+}
+
+// ===== SEED =====
+
+async function reset() {
+  await request(`${AUTH}/emulator/v1/projects/${PROJECT_ID}/accounts`, {
+    method: "DELETE",
+  });
+  await request(
+    `${FIRESTORE}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: "DELETE" }
+  );
+}
+
+async function createUser(user) {
+  const { localId } = await request(
+    `${AUTH}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=demo-key`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        email: user.email,
+        password: PASSWORD,
+        displayName: user.displayName,
+        returnSecureToken: true,
+      }),
+    }
+  );
+
+  if (user.emailVerified) {
+    await request(
+      `${AUTH}/identitytoolkit.googleapis.com/v1/projects/${PROJECT_ID}/accounts:update`,
+      {
+        method: "POST",
+        headers: ADMIN_HEADERS,
+        body: JSON.stringify({ localId, emailVerified: true }),
+      }
+    );
+  }
+  return localId;
+}
+
+async function main() {
+  await reset();
+
+  for (const user of USERS) {
+    const uid = await createUser(user);
+    const now = Date.now();
+
+    await writeDoc(`users/${uid}`, {
+      profile: {
+        about: user.about,
+        socials: { twitter: "", linkedin: "", instagram: "" },
+        country: user.country,
+        accountType: user.accountType,
+        useCase: user.useCase,
+        newsletterOptIn: user.newsletterOptIn,
+        updatedAt: now,
+      },
+      preferences: { theme: "dark", updatedAt: now },
+    });
+
+    const alerts = user.emailVerified ? seedAlerts(user.email) : [];
+    for (const alert of alerts) {
+      await writeDoc(`users/${uid}/alerts/${alert.id}`, alert);
+    }
+
+    console.log(
+      `✓ ${user.email} / ${PASSWORD}` +
+        `${user.emailVerified ? "" : " (unverified)"} · ${alerts.length} alerts`
+    );
+  }
+}
+
+main().catch((err) => {
+  console.error("Seeding failed – are the emulators running?\n", err.message);
+  process.exit(1);
+});
@@ -0,0 +1,266 @@
+// smtpRelay.ts
+
+// Dev/preview server middleware behind the browser's "smtp" mail transport
+// (src/services/mailTransport.ts). Browsers can't open SMTP connections, so
+// the app POSTs the message here and this hands it to an SMTP server.
+//
+// Meant for local mail catchers (Mailpit, MailHog, smtp4dev…): plain SMTP,
+// no TLS or AUTH. Configure with SMTP_HOST / SMTP_PORT (default
+// 127.0.0.1:1025). Only mounted when VITE_MAIL_TRANSPORT=smtp.
+//
+// Any page open in the browser can POST to localhost, so the relay only
+// takes JSON requests from the app's own origin, and only mails the
+// addresses listed in SMTP_ALLOWED_RECIPIENTS ("me@example.com" or a whole
+// domain as "@example.com").
+
+import { createConnection } from "node:net";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+type RelayMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type SmtpOptions = {
+  host: string;
+  port: number;
+};
+
+type RelayOptions = SmtpOptions & {
+  allowedRecipients: string[];
+};
+
+const RELAY_PATH = "/__mail/send";
+const SMTP_TIMEOUT_MS = 10_000;
+
+// ===== MIME =====
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (
+    Buffer.from(value, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+/** Bare address out of "Name <addr>" for the SMTP envelope. */
+function envelopeAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+function buildMime(message: RelayMessage): string {
+  const boundary = `fx-${Date.now().toString(36)}`;
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+// ===== SMTP =====
+
+function sendSmtp(options: SmtpOptions, message: RelayMessage): Promise<void> {
+  // each command paired with the reply code that lets us continue;
+  // base64 bodies never contain a line starting with ".", so no dot-stuffing
+  const steps: [string | null, number][] = [
+    [null, 220],
+    ["EHLO localhost", 250],
+    [`MAIL FROM:<${envelopeAddress(message.from)}>`, 250],
+    [`RCPT TO:<${envelopeAddress(message.to)}>`, 250],
+    ["DATA", 354],
+    [`${buildMime(message)}\r\n.`, 250],
+    ["QUIT", 221],
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(options.port, options.host);
+    let buffer = "";
+    let step = 0;
+    let settled = false;
+
+    function finish(err?: Error) {
+      if (settled) return;
+      settled = true;
+      if (err) {
+        socket.destroy();
+        reject(err);
+      } else {
+        socket.end();
+        resolve();
+      }
+    }
+
+    socket.setEncoding("utf8");
+    // no reply for a while: give up
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      finish(new Error("SMTP server timed out"))
+    );
+    socket.on("error", finish);
+    // the server hung up before the exchange was over
+    socket.on("close", () =>
+      finish(new Error("SMTP server closed the connection"))
+    );
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split("\r\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        // "250-..." is a continuation of a multi-line reply
+        if (/^\d{3}-/.test(line)) continue;
+
+        if (Number(line.slice(0, 3)) !== steps[step][1]) {
+          finish(new Error(`SMTP server replied: ${line}`));
+          return;
+        }
+        step += 1;
+        if (step === steps.length) {
+          finish();
+          return;
+        }
+        socket.write(`${steps[step][0]}\r\n`);
+      }
+    });
+  });
+}
+
+// ===== MIDDLEWARE =====
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function isRelayMessage(value: unknown): value is RelayMessage {
+  const m = value as Partial<RelayMessage> | null;
+  return (
+    !!m &&
+    typeof m.from === "string" &&
+    typeof m.to === "string" &&
+    typeof m.subject === "string" &&
+    typeof m.text === "string" &&
+    typeof m.html === "string" &&
+    // one recipient per message, no header injection
+    !/[\r\n,;]/.test(m.to + m.from + m.subject)
+  );
+}
+
+function isAllowedRecipient(to: string, allowed: string[]): boolean {
+  const address = envelopeAddress(to).toLowerCase();
+  return allowed.some((entry) => {
+    const rule = entry.trim().toLowerCase();
+    if (!rule) return false;
+    return rule.startsWith("@") ? address.endsWith(rule) : address === rule;
+  });
+}
+
+// fetch() from the app always sends Origin on a POST; other sites' pages
+// send theirs, and simple form posts can't set a JSON content type
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  const host = req.headers.host;
+  if (!origin || !host) return false;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: object) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+export function smtpRelay(options: RelayOptions): Plugin {
+  async function handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+    next: () => void
+  ) {
+    if (req.url !== RELAY_PATH) return next();
+    if (req.method !== "POST") {
+      return sendJson(res, 405, { error: "Use POST" });
+    }
+    if (!isSameOrigin(req)) {
+      return sendJson(res, 403, { error: "Cross-origin requests are refused" });
+    }
+    const contentType = req.headers["content-type"] ?? "";
+    if (!/^application\/json\b/i.test(contentType)) {
+      return sendJson(res, 415, {
+        error: "Content-Type must be application/json",
+      });
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(await readBody(req));
+    } catch {
+      return sendJson(res, 400, { error: "Body must be JSON" });
+    }
+    if (!isRelayMessage(message)) {
+      return sendJson(res, 400, { error: "Invalid mail message" });
+    }
+    if (!isAllowedRecipient(message.to, options.allowedRecipients)) {
+      return sendJson(res, 403, {
+        error: `${message.to} is not in SMTP_ALLOWED_RECIPIENTS`,
+      });
+    }
+
+    try {
+      await sendSmtp(options, message);
+      sendJson(res, 202, { ok: true });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.error(
+        `[smtp-relay] ${options.host}:${options.port} failed:`,
+        reason
+      );
+      sendJson(res, 502, { error: reason });
+    }
+  }
+
+  return {
+    name: "smtp-relay",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => void handle(req, res, next));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use((req, res, next) => void handle(req, res, next));
+    },
+  };
+}
@@ -1,5 +1,5 @@
 // src/App.tsx
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import "flag-icons/css/flag-icons.min.css";
 
 import LoginPage from "./pages/LoginPage";
@@ -7,68 +7,67 @@ import RegisterPage from "./pages/RegisterPage";
 import MainPage from "./pages/MainPage";
 import ProfilePage from "./pages/ProfilePage";
 import PrivacyPolicyPage from "./pages/PrivacyPolicyPage";
-import CurrencyChartsFullPage from "./pages/CurrencyChartsFullPage";
+import LiveRatesPage from "./pages/LiveRatesPage";
+import PairChartPage from "./pages/PairChartPage";
+import AlertManagerPage from "./pages/AlertManagerPage";
+import NotFoundPage from "./pages/NotFoundPage";
+import { useAlertEngine } from "./hooks/useAlertEngine";
+import { useTheme } from "./hooks/usePreferences";
+import { useUserSync } from "./hooks/useUserSync";
+import { useSessionTracking } from "./hooks/useSessions";
+import { useLocation, useRoute } from "./hooks/useRoute";
+import { getLocation, navigate } from "./services/router";
+import {
+  isProtectedRoute,
+  matchRoute,
+  paths,
+  type BoardParams,
+} from "./services/routes";
+import { endCurrentSession } from "./services/sessions";
+import { releaseLocalData } from "./services/userSync";
+import { setThemePreference } from "./services/preferences";
 
 import { auth } from "./firebase";
 import {
   signOut,
-  updateEmail,
+  verifyBeforeUpdateEmail,
   updatePassword,
   onAuthStateChanged,
 } from "firebase/auth";
 
-type View =
-  | "login"
-  | "register"
-  | "privacy"
-  | "main"
-  | "profile"
-  | "chartsFull";
-
 export interface UserProfile {
+  uid: string;
   email: string;
   displayName: string;
   avatarUrl: string | null;
 }
 
-interface LoginEntry {
-  id: number;
-  timestamp: string; // ISO
-}
-
 export default function App() {
-  // Start on MAIN so the landing dashboard is visible first
-  const [view, setView] = useState<View>("main");
+  // the URL decides the page (see services/routes.ts)
+  const location = useLocation();
+  const route = useRoute();
   const [user, setUser] = useState<UserProfile | null>(null);
-  const [loginHistory, setLoginHistory] = useState<LoginEntry[]>([]);
   const [initializing, setInitializing] = useState(true);
 
-  // theme for “inside app” pages (main + profile + charts full)
-  const [theme, setTheme] = useState<"light" | "dark">(() => {
-    if (typeof window === "undefined") return "dark";
-    const saved = window.localStorage.getItem("fx-theme");
-    return saved === "light" || saved === "dark" ? saved : "dark";
-  });
+  // theme for “inside app” pages (main + profile + charts full);
+  // persisted and synced with the user's other devices
+  const theme = useTheme();
 
-  // currencies used on the full charts page
-  const [chartsFromCurrency, setChartsFromCurrency] = useState("USD");
-  const [chartsToCurrency, setChartsToCurrency] = useState("INR");
+  // check saved alerts on their schedule for as long as the app is open;
+  // clicking a desktop popup opens that pair's chart
+  useAlertEngine(openPairChart);
 
-  // So we only add one "login" entry per uid per session
-  const lastUserIdRef = useRef<string | null>(null);
+  // alerts, profile details and theme follow the account across browsers
+  useUserSync(user?.uid ?? null);
 
-  // ===== THEME PERSIST =====
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem("fx-theme", theme);
-    }
-  }, [theme]);
+  // one session record per signed-in browser; signs out when revoked elsewhere
+  useSessionTracking(user?.uid ?? null);
 
   // ===== BODY THEME CLASS (login/register always light) =====
   useEffect(() => {
     if (typeof document === "undefined") return;
 
-    if (view === "login" || view === "register") {
+    if (route.name === "login" || route.name === "register") {
       // Auth screens: force light mode
       document.body.classList.remove("dark");
     } else {
@@ -79,7 +78,7 @@ export default function App() {
         document.body.classList.remove("dark");
       }
     }
-  }, [view, theme]);
+  }, [route.name, theme]);
 
   // ========== AUTH STATE LISTENER ==========
   useEffect(() => {
@@ -93,37 +92,18 @@ export default function App() {
         const safeDisplayName = (displayName || fallbackName).trim();
 
         setUser({
+          uid,
           email: safeEmail,
           displayName: safeDisplayName,
           avatarUrl: photoURL ?? null,
         });
-
-        if (lastUserIdRef.current !== uid) {
-          lastUserIdRef.current = uid;
-          setLoginHistory((prev) => [
-            { id: Date.now(), timestamp: new Date().toISOString() },
-            ...prev,
-          ]);
-        }
-
-        // Keep user on profile/privacy/chartsFull if they’re already there, else go to main
-        setView((prev) =>
-          prev === "profile" || prev === "privacy" || prev === "chartsFull"
-            ? prev
-            : "main"
-        );
       } else {
-        // Signed out / no session
+        // Signed out / no session; the route guard below moves the user
+        // off protected pages
         setUser(null);
-        lastUserIdRef.current = null;
-
-        // If the user is on a protected view, send them back to main;
-        // otherwise keep whatever they were already seeing (e.g. login/register/main).
-        setView((prev) =>
-          prev === "profile" || prev === "chartsFull" || prev === "privacy"
-            ? "main"
-            : prev
-        );
+        // the previous account's alerts, webhooks and notifications
+        // don't stay behind in this browser
+        releaseLocalData();
       }
       setInitializing(false);
     });
@@ -131,21 +111,61 @@ export default function App() {
     return () => unsubscribe();
   }, []);
 
+  // ========== ROUTE GUARDS ==========
+  // signed-out visitors of protected pages sign in first and come back;
+  // signed-in users skip the login page
+  const redirect = initializing
+    ? null
+    : isProtectedRoute(route) && !user
+    ? paths.login(`${location.pathname}${location.search}`)
+    : route.name === "login" && user
+    ? route.next ?? paths.main()
+    : null;
+
+  useEffect(() => {
+    if (redirect) navigate(redirect, { replace: true });
+  }, [redirect]);
+
+  function openPairChart(base: string, quote: string) {
+    navigate(paths.pairChart(base, quote));
+  }
+
+  // converter/board changes rewrite the query of the current page. Reads the
+  // live location so two updates in one handler (a swap) both stick.
+  function updateBoard(patch: BoardParams) {
+    const current = matchRoute(getLocation());
+    if (current.name === "main") {
+      navigate(paths.main({ ...current.board, ...patch }), { replace: true });
+    } else if (current.name === "chartsFull") {
+      navigate(paths.chartsFull({ ...current.board, ...patch }), {
+        replace: true,
+      });
+    }
+  }
+
   function handleAuthCompleted() {
-    // After login/register success, go to landing dashboard
-    setView("main");
+    // After login/register success, continue where the user was headed
+    navigate(
+      route.name === "login" && route.next ? route.next : paths.main(),
+      { replace: true }
+    );
   }
 
   function handleUpdateProfile(updates: Partial<UserProfile>) {
     setUser((prev) => (prev ? { ...prev, ...updates } : prev));
   }
 
+  // Email / password changes need a recent sign-in: ProfilePage calls
+  // reauthenticate() (services/reauth) before either of these.
+  // The email only changes once the link sent to the new address is opened,
+  // so a typo (or someone else at the keyboard) can't take over the account.
   async function handleUpdateEmail(newEmail: string) {
     const current = auth.currentUser;
     if (!current) throw new Error("No authenticated user.");
 
-    await updateEmail(current, newEmail);
-    setUser((prev) => (prev ? { ...prev, email: newEmail } : prev));
+    await verifyBeforeUpdateEmail(current, newEmail, {
+      url: window.location.origin,
+    });
   }
 
   async function handleUpdatePassword(newPassword: string) {
@@ -157,10 +177,11 @@ export default function App() {
 
   async function handleLogout() {
     try {
+      if (user) await endCurrentSession(user.uid);
       await signOut(auth);
       setUser(null);
       // After logout, show the main landing page (with Login instead of profile)
-      setView("main");
+      navigate(paths.main());
     } catch (err) {
       console.error("Error signing out:", err);
     }
@@ -177,25 +198,36 @@ export default function App() {
     );
   }
 
-  const loginHistoryTimestamps = loginHistory.map((entry) => entry.timestamp);
-
   // ========== VIEW ROUTING ==========
 
-  if (view === "login") {
+  // about to be redirected by the guard effect
+  if (redirect) return null;
+
+  if (route.name === "notFound") {
+    return (
+      <NotFoundPage
+        path={location.pathname}
+        theme={theme}
+        onGoHome={() => navigate(paths.main())}
+      />
+    );
+  }
+
+  if (route.name === "login") {
     return (
       <LoginPage
         onLogin={handleAuthCompleted}
-        onGoToRegister={() => setView("register")}
+        onGoToRegister={() => navigate(paths.register())}
       />
     );
   }
 
-  if (view === "register") {
+  if (route.name === "register") {
     return (
       <RegisterPage
         onRegister={handleAuthCompleted}
-        onBackToLogin={() => setView("login")}
-        onOpenPrivacy={() => setView("privacy")}
+        onBackToLogin={() => navigate(paths.login())}
+        onOpenPrivacy={() => navigate(paths.privacy())}
         onOpenTerms={() =>
           window.open("https://example.com/terms", "_blank", "noopener")
         }
@@ -203,25 +235,47 @@ export default function App() {
     );
   }
 
-  if (view === "privacy") {
-    return <PrivacyPolicyPage onBack={() => setView("register")} />;
+  if (route.name === "privacy") {
+    return <PrivacyPolicyPage onBack={() => navigate(paths.register())} />;
   }
 
-  if (view === "profile" && user) {
+  if (route.name === "profile") {
+    // signed out: the guard is already redirecting to login
+    if (!user) return null;
     return (
       <ProfilePage
         user={user}
-        onBack={() => setView("main")}
+        onBack={() => navigate(paths.main())}
         onUpdateProfile={handleUpdateProfile}
         onUpdateEmail={handleUpdateEmail}
         onUpdatePassword={handleUpdatePassword}
-        loginHistory={loginHistoryTimestamps}
+        onOpenPairChart={openPairChart}
+        onOpenAlertManager={() => navigate(paths.alerts())}
+      />
+    );
+  }
+
+  // full-page charts view (live-rates board under the navbar)
+  if (route.name === "chartsFull") {
+    return (
+      <LiveRatesPage
+        onLogout={handleLogout}
+        onOpenProfile={() => navigate(paths.profile())}
+        user={user}
+        onBackToMain={() => navigate(paths.main())}
+        onOpenPairChart={openPairChart}
+        board={route.board}
+        onBoardChange={updateBoard}
+        theme={theme}
+        onToggleTheme={() =>
+          setThemePreference(theme === "dark" ? "light" : "dark")
+        }
       />
     );
   }
 
-  // full-page charts view
-  if (view === "chartsFull") {
+  // single-pair chart view (opened from the board)
+  if (route.name === "pairChart") {
     return (
       <div
         className={`min-h-screen ${
@@ -231,17 +285,97 @@ export default function App() {
         }`}
       >
         <div className="max-w-6xl mx-auto px-4 py-10">
-          <CurrencyChartsFullPage
-            fromCurrency={chartsFromCurrency}
-            toCurrency={chartsToCurrency}
-            setFromCurrency={setChartsFromCurrency}
-            setToCurrency={setChartsToCurrency}
+          <PairChartPage
+            base={route.base}
+            quote={route.quote}
+            range={route.range}
+            // range/indicator changes don't need their own history entries
+            onRangeChange={(range) =>
+              navigate(
+                paths.pairChart(
+                  route.base,
+                  route.quote,
+                  range,
+                  route.indicators
+                ),
+                { replace: true }
+              )
+            }
+            sharedIndicators={route.indicators}
+            onIndicatorsChange={(indicators) =>
+              navigate(
+                paths.pairChart(
+                  route.base,
+                  route.quote,
+                  route.range,
+                  indicators
+                ),
+                { replace: true }
+              )
+            }
+            // the inverted pair keeps the range and the indicator list in the URL
+            onSwapPair={() =>
+              navigate(
+                paths.pairChart(
+                  route.quote,
+                  route.base,
+                  route.range,
+                  route.indicators
+                )
+              )
+            }
+            theme={theme}
           />
 
           <div className="mt-10 flex justify-between items-center">
             <button
               type="button"
-              onClick={() => setView("main")}
+              onClick={() =>
+                navigate(
+                  paths.chartsFull({ from: route.base, to: route.quote })
+                )
+              }
+              className={`rounded-full px-5 py-2 border text-sm font-medium transition ${
+                theme === "dark"
+                  ? "border-slate-600 text-slate-200 hover:bg-slate-800"
+                  : "border-slate-300 text-slate-700 hover:bg-slate-100"
+              }`}
+            >
+              ← Back to board
+            </button>
+
+            <button
+              type="button"
+              onClick={() =>
+                setThemePreference(theme === "dark" ? "light" : "dark")
+              }
+              className="rounded-full px-4 py-2 text-xs font-semibold border border-slate-500/60"
+            >
+              {theme === "dark" ? "Switch to light mode" : "Switch to dark mode"}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // alert manager (opened from the dashboard alerts card or profile)
+  if (route.name === "alerts") {
+    return (
+      <div
+        className={`min-h-screen ${
+          theme === "dark"
+            ? "bg-slate-950 text-slate-50"
+            : "bg-white text-slate-900"
+        }`}
+      >
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <AlertManagerPage userEmail={user?.email} />
+
+          <div className="mt-10 flex justify-between items-center">
+            <button
+              type="button"
+              onClick={() => navigate(paths.main())}
               className={`rounded-full px-5 py-2 border text-sm font-medium transition ${
                 theme === "dark"
                   ? "border-slate-600 text-slate-200 hover:bg-slate-800"
@@ -251,11 +385,10 @@ export default function App() {
               ← Back to dashboard
             </button>
 
-            {/* simple theme toggle here too */}
             <button
               type="button"
               onClick={() =>
-                setTheme((prev) => (prev === "dark" ? "light" : "dark"))
+                setThemePreference(theme === "dark" ? "light" : "dark")
               }
               className="rounded-full px-4 py-2 text-xs font-semibold border border-slate-500/60"
             >
@@ -267,25 +400,25 @@ export default function App() {
     );
   }
 
-  // view === "main"
+  // route.name === "main"
   return (
     <MainPage
       onLogout={handleLogout}
       // When logged in: open profile page
       // When logged out: open login page (used by "Login" button in Navbar)
       onOpenProfile={() => {
-        if (user) {
-          setView("profile");
-        } else {
-          setView("login");
-        }
+        navigate(user ? paths.profile() : paths.login());
       }}
       user={user}
+      board={route.board}
+      onBoardChange={updateBoard}
       // opens the full charts page
-      onOpenChartsFull={() => setView("chartsFull")}
+      onOpenChartsFull={() => navigate(paths.chartsFull())}
+      onOpenPairChart={openPairChart}
+      onOpenAlertManager={() => navigate(paths.alerts())}
       // theme props so Navbar/logo can toggle
       theme={theme}
-      setTheme={setTheme}
+      setTheme={setThemePreference}
     />
   );
 }
@@ -1,18 +1,37 @@
 // src/firebase.ts
 import { initializeApp } from "firebase/app";
 import {
+  connectAuthEmulator,
   getAuth,
   GoogleAuthProvider,
   signInWithPopup,
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
 } from "firebase/auth";
+import {
+  connectFirestoreEmulator,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
+
+// VITE_USE_FIREBASE_EMULATORS=true points Auth and Firestore at the local
+// Emulator Suite (`npm run emulators`) instead of the real project.
+const useEmulators = import.meta.env.VITE_USE_FIREBASE_EMULATORS === "true";
+const emulatorHost =
+  import.meta.env.VITE_FIREBASE_EMULATOR_HOST || "127.0.0.1";
+
+// "demo-" projects never reach Google servers, so the emulators work offline
+const EMULATOR_PROJECT_ID = "demo-xchangehub";
 
 // Firebase config from Vite env vars
 const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  apiKey:
+    import.meta.env.VITE_FIREBASE_API_KEY || (useEmulators ? "demo-key" : ""),
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  projectId: useEmulators
+    ? EMULATOR_PROJECT_ID
+    : import.meta.env.VITE_FIREBASE_PROJECT_ID,
   storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
   messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
   appId: import.meta.env.VITE_FIREBASE_APP_ID,
@@ -25,6 +44,22 @@ const app = initializeApp(firebaseConfig);
 // Auth instance
 const auth = getAuth(app);
 
+// Firestore with an IndexedDB cache, so user data works offline and
+// queued writes are sent once the connection is back (shared across tabs)
+const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({
+    tabManager: persistentMultipleTabManager(),
+  }),
+});
+
+if (useEmulators) {
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, {
+    disableWarnings: true,
+  });
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+  console.info(`Firebase: using local emulators on ${emulatorHost}`);
+}
+
 // Google provider (force account chooser)
 const googleProvider = new GoogleAuthProvider();
 googleProvider.setCustomParameters({
@@ -35,6 +70,7 @@ googleProvider.setCustomParameters({
 export {
   app,
   auth,
+  db,
   googleProvider,
   signInWithPopup,
   signInWithEmailAndPassword,
@@ -0,0 +1,17 @@
+// src/hooks/useAlertDestinations.ts
+import { useSyncExternalStore } from "react";
+import {
+  getDeliveryLog,
+  getDestinations,
+  subscribeDestinations,
+} from "../services/alertDestinations";
+
+/** Configured webhook / chat destinations, oldest first. */
+export function useDestinations() {
+  return useSyncExternalStore(subscribeDestinations, getDestinations);
+}
+
+/** Delivery attempts, newest first. */
+export function useDeliveryLog() {
+  return useSyncExternalStore(subscribeDestinations, getDeliveryLog);
+}
@@ -0,0 +1,79 @@
+// src/hooks/useAlertEngine.ts
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { alertEngine, type AlertEvent } from "../services/alertEngine";
+import { claimAlertEvent } from "../services/alertClaims";
+import { describeCondition } from "../services/alertConditions";
+import { deliverAlertEmail } from "../services/alertEmail";
+import { getAlerts } from "../services/alertStore";
+import { deliverAlertEvent } from "../services/webhookDelivery";
+import {
+  markNotificationRead,
+  pushNotification,
+  showPopup,
+} from "../services/notifications";
+
+async function announce(
+  ev: AlertEvent,
+  onOpenPair: (base: string, quote: string) => void
+) {
+  // another tab or device already announced this trigger
+  if (!(await claimAlertEvent(ev))) return;
+
+  const item = pushNotification({
+    title: `${ev.from}/${ev.to} alert triggered`,
+    body: `1 ${ev.from} = ${ev.rate.toFixed(4)} ${ev.to} · ${describeCondition(
+      ev.condition
+    )}`,
+    pair: { base: ev.from, quote: ev.to },
+  });
+  showPopup(item, () => {
+    markNotificationRead(item.id);
+    onOpenPair(ev.from, ev.to);
+  });
+
+  const alert = getAlerts().find((a) => a.id === ev.alertId);
+  if (!alert) return;
+  if (alert.email) void deliverAlertEmail(ev, alert.email);
+  void deliverAlertEvent(ev, alert);
+}
+
+/**
+ * Runs the shared alert engine while the calling component is mounted and
+ * turns triggered alerts into notifications, emails and webhook posts
+ * (once per trigger across tabs and devices, see alertClaims.ts).
+ * `onOpenPair` is used when a desktop popup is clicked.
+ */
+export function useAlertEngine(
+  onOpenPair: (base: string, quote: string) => void
+) {
+  const openPairRef = useRef(onOpenPair);
+  useEffect(() => {
+    openPairRef.current = onOpenPair;
+  }, [onOpenPair]);
+
+  useEffect(() => {
+    const off = alertEngine.onTrigger((events) =>
+      events.forEach((ev) =>
+        void announce(ev, (base, quote) => openPairRef.current(base, quote))
+      )
+    );
+    alertEngine.start();
+    return () => {
+      off();
+      alertEngine.stop();
+    };
+  }, []);
+}
+
+/** Triggered alert events, newest first. */
+export function useAlertEvents() {
+  return useSyncExternalStore(alertEngine.subscribe, alertEngine.getEvents);
+}
+
+/** Observed rates per alert id (oldest first), updated after each run. */
+export function useAlertObservations() {
+  return useSyncExternalStore(
+    alertEngine.subscribe,
+    alertEngine.getObservations
+  );
+}
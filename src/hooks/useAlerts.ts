@@ -0,0 +1,8 @@
+// src/hooks/useAlerts.ts
+import { useSyncExternalStore } from "react";
+import { getAlerts, subscribeAlerts } from "../services/alertStore";
+
+/** Live list of every saved alert, newest first. */
+export function useAlerts() {
+  return useSyncExternalStore(subscribeAlerts, getAlerts);
+}
@@ -0,0 +1,37 @@
+// src/hooks/useEmailVerification.ts
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  RESEND_COOLDOWN_MS,
+  getVerificationState,
+  subscribeVerification,
+} from "../services/emailVerification";
+
+/** Whether the signed-in user has verified their email. */
+export function useEmailVerification() {
+  return useSyncExternalStore(subscribeVerification, getVerificationState);
+}
+
+/**
+ * Seconds until another email may be sent (0 = now). `maxMs` is the longest
+ * wait the caller's limit can impose.
+ */
+export function useResendCooldown(
+  availableAt: number,
+  maxMs = RESEND_COOLDOWN_MS
+) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (availableAt <= Date.now()) return;
+    const id = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= availableAt) window.clearInterval(id);
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [availableAt]);
+
+  // `now` can lag a tick behind a fresh send, so cap at the full cooldown
+  const left = Math.min(availableAt - now, maxMs);
+  return Math.max(0, Math.ceil(left / 1000));
+}
@@ -0,0 +1,85 @@
+// src/hooks/useIndicatorSettings.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_INDICATORS,
+  indicatorsFromParam,
+  indicatorsToParam,
+  orderMacd,
+  settingsFromStored,
+  type IndicatorSettings,
+} from "./useIndicatorSettings";
+
+describe("settingsFromStored", () => {
+  it("keeps values inside the limits as saved", () => {
+    const saved: IndicatorSettings = {
+      ...DEFAULT_INDICATORS,
+      sma: { enabled: true, period: 30 },
+      bollinger: { enabled: true, period: 20, multiplier: 2.5 },
+    };
+    expect(settingsFromStored(saved)).toEqual(saved);
+  });
+
+  it("clamps out-of-range values like the controls do", () => {
+    const settings = settingsFromStored({
+      sma: { enabled: true, period: 1 },
+      rsi: { enabled: true, period: 500 },
+      bollinger: { enabled: false, period: 20, multiplier: 2.3 },
+    });
+    expect(settings.sma.period).toBe(2);
+    expect(settings.rsi.period).toBe(100);
+    expect(settings.bollinger.multiplier).toBe(2.5);
+  });
+
+  it("falls back to the defaults for missing or malformed fields", () => {
+    const settings = settingsFromStored({
+      ema: { enabled: "yes", period: "9" },
+    } as unknown as Partial<IndicatorSettings>);
+    expect(settings.ema).toEqual({ enabled: false, period: 50 });
+    expect(settings.volatility).toEqual(DEFAULT_INDICATORS.volatility);
+  });
+
+  it("keeps MACD's fast period below the slow one", () => {
+    const { macd } = settingsFromStored({
+      macd: { enabled: true, fast: 40, slow: 26, signal: 9 },
+    });
+    expect(macd).toEqual({ enabled: true, fast: 40, slow: 41, signal: 9 });
+  });
+});
+
+describe("orderMacd", () => {
+  it("leaves an ordered MACD alone", () => {
+    const macd = DEFAULT_INDICATORS.macd;
+    expect(orderMacd(macd)).toBe(macd);
+  });
+
+  it("moves slow above an equal fast period", () => {
+    const macd = { enabled: true, fast: 26, slow: 26, signal: 9 };
+    expect(orderMacd(macd).slow).toBe(27);
+  });
+});
+
+describe("indicatorsFromParam", () => {
+  it("round-trips what indicatorsToParam writes", () => {
+    const settings: IndicatorSettings = {
+      ...DEFAULT_INDICATORS,
+      sma: { enabled: true, period: 20 },
+      bollinger: { enabled: true, period: 20, multiplier: 2 },
+      macd: { enabled: true, fast: 12, slow: 26, signal: 9 },
+    };
+    expect(indicatorsToParam(settings)).toBe("sma20,bb20-2,macd12-26-9");
+    expect(indicatorsFromParam(indicatorsToParam(settings))).toEqual(settings);
+  });
+
+  it("orders a shared MACD with fast ≥ slow", () => {
+    expect(indicatorsFromParam("macd30-20-9")?.macd).toEqual({
+      enabled: true,
+      fast: 30,
+      slow: 31,
+      signal: 9,
+    });
+  });
+
+  it("is null for a list it can't read", () => {
+    expect(indicatorsFromParam("foo,bar")).toBeNull();
+  });
+});
@@ -0,0 +1,264 @@
+// src/hooks/useIndicatorSettings.ts
+import { useCallback, useState } from "react";
+
+export type IndicatorSettings = {
+  sma: { enabled: boolean; period: number };
+  ema: { enabled: boolean; period: number };
+  bollinger: { enabled: boolean; period: number; multiplier: number };
+  rsi: { enabled: boolean; period: number };
+  macd: { enabled: boolean; fast: number; slow: number; signal: number };
+  volatility: { enabled: boolean; window: number };
+};
+
+export type IndicatorKey = keyof IndicatorSettings;
+
+export const DEFAULT_INDICATORS: IndicatorSettings = {
+  sma: { enabled: false, period: 20 },
+  ema: { enabled: false, period: 50 },
+  bollinger: { enabled: false, period: 20, multiplier: 2 },
+  rsi: { enabled: false, period: 14 },
+  macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+  volatility: { enabled: false, window: 20 },
+};
+
+export type ParamLimits = {
+  min: number;
+  max: number;
+  // omitted for whole-number fields (periods, windows)
+  step?: number;
+};
+
+// Allowed range per indicator field; the controls and share links both
+// stay inside it.
+export const INDICATOR_LIMITS: Record<IndicatorKey, Record<string, ParamLimits>> = {
+  sma: { period: { min: 2, max: 200 } },
+  ema: { period: { min: 2, max: 200 } },
+  bollinger: {
+    period: { min: 2, max: 200 },
+    multiplier: { min: 0.5, max: 4, step: 0.5 },
+  },
+  rsi: { period: { min: 2, max: 100 } },
+  macd: {
+    fast: { min: 2, max: 100 },
+    slow: { min: 3, max: 200 },
+    signal: { min: 2, max: 100 },
+  },
+  volatility: { window: { min: 2, max: 200 } },
+};
+
+/** `value` rounded onto the field's step and pulled into its range. */
+export function clampParam(limits: ParamLimits, value: number): number {
+  const step = limits.step ?? 1;
+  const rounded = Math.round(value / step) * step;
+  return Math.min(limits.max, Math.max(limits.min, rounded));
+}
+
+/** MACD with the fast period below the slow one, moving slow up if needed. */
+export function orderMacd(
+  macd: IndicatorSettings["macd"]
+): IndicatorSettings["macd"] {
+  if (macd.fast < macd.slow) return macd;
+  return { ...macd, slow: clampParam(INDICATOR_LIMITS.macd.slow, macd.fast + 1) };
+}
+
+const STORAGE_PREFIX = "fx-indicators:";
+
+function storageKey(base: string, quote: string) {
+  return `${STORAGE_PREFIX}${base}/${quote}`;
+}
+
+// a stored number clamped like the controls do; anything else (a field
+// older saves lack, or a hand-edited value) keeps the default
+function storedParam(value: unknown, limits: ParamLimits, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? clampParam(limits, value)
+    : fallback;
+}
+
+/** Settings from a saved copy, checked field by field. */
+export function settingsFromStored(
+  stored: Partial<IndicatorSettings>
+): IndicatorSettings {
+  const { sma, ema, bollinger, rsi, macd, volatility } = INDICATOR_LIMITS;
+  const saved = { ...stored };
+  const defaults = DEFAULT_INDICATORS;
+  return {
+    sma: {
+      enabled: saved.sma?.enabled === true,
+      period: storedParam(saved.sma?.period, sma.period, defaults.sma.period),
+    },
+    ema: {
+      enabled: saved.ema?.enabled === true,
+      period: storedParam(saved.ema?.period, ema.period, defaults.ema.period),
+    },
+    bollinger: {
+      enabled: saved.bollinger?.enabled === true,
+      period: storedParam(
+        saved.bollinger?.period,
+        bollinger.period,
+        defaults.bollinger.period
+      ),
+      multiplier: storedParam(
+        saved.bollinger?.multiplier,
+        bollinger.multiplier,
+        defaults.bollinger.multiplier
+      ),
+    },
+    rsi: {
+      enabled: saved.rsi?.enabled === true,
+      period: storedParam(saved.rsi?.period, rsi.period, defaults.rsi.period),
+    },
+    macd: orderMacd({
+      enabled: saved.macd?.enabled === true,
+      fast: storedParam(saved.macd?.fast, macd.fast, defaults.macd.fast),
+      slow: storedParam(saved.macd?.slow, macd.slow, defaults.macd.slow),
+      signal: storedParam(saved.macd?.signal, macd.signal, defaults.macd.signal),
+    }),
+    volatility: {
+      enabled: saved.volatility?.enabled === true,
+      window: storedParam(
+        saved.volatility?.window,
+        volatility.window,
+        defaults.volatility.window
+      ),
+    },
+  };
+}
+
+function loadSettings(base: string, quote: string): IndicatorSettings {
+  try {
+    const raw = localStorage.getItem(storageKey(base, quote));
+    if (!raw) return DEFAULT_INDICATORS;
+    return settingsFromStored(JSON.parse(raw) as Partial<IndicatorSettings>);
+  } catch {
+    return DEFAULT_INDICATORS;
+  }
+}
+
+function saveSettings(base: string, quote: string, next: IndicatorSettings) {
+  try {
+    localStorage.setItem(storageKey(base, quote), JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+}
+
+// ===== SHARE LINKS =====
+// Enabled indicators as a short list for the URL, e.g.
+// "sma20,bb20-2,macd12-26-9"; "none" when everything is off.
+
+const PARAM_TOKEN = /^(sma|ema|bb|rsi|macd|vol)(\d+(?:\.\d+)?(?:-\d+(?:\.\d+)?)*)?$/;
+
+export function indicatorsToParam(settings: IndicatorSettings): string {
+  const { sma, ema, bollinger, rsi, macd, volatility } = settings;
+  const tokens: string[] = [];
+  if (sma.enabled) tokens.push(`sma${sma.period}`);
+  if (ema.enabled) tokens.push(`ema${ema.period}`);
+  if (bollinger.enabled) {
+    tokens.push(`bb${bollinger.period}-${bollinger.multiplier}`);
+  }
+  if (rsi.enabled) tokens.push(`rsi${rsi.period}`);
+  if (macd.enabled) tokens.push(`macd${macd.fast}-${macd.slow}-${macd.signal}`);
+  if (volatility.enabled) tokens.push(`vol${volatility.window}`);
+  return tokens.length ? tokens.join(",") : "none";
+}
+
+/** Settings from a link's list, or null when it can't be read. */
+export function indicatorsFromParam(
+  param: string | null
+): IndicatorSettings | null {
+  if (!param) return null;
+  if (param === "none") return DEFAULT_INDICATORS;
+
+  const settings = { ...DEFAULT_INDICATORS };
+  let matched = false;
+  for (const token of param.split(",")) {
+    const m = PARAM_TOKEN.exec(token.trim());
+    if (!m) continue;
+    matched = true;
+    // missing or malformed numbers keep the defaults (periods must be
+    // whole numbers); the rest are clamped like the controls do
+    const [a, b, c] = (m[2] ?? "").split("-").map(Number);
+    const num = (
+      value: number | undefined,
+      limits: ParamLimits,
+      fallback: number
+    ) =>
+      value !== undefined &&
+      Number.isFinite(value) &&
+      (limits.step !== undefined || Number.isInteger(value))
+        ? clampParam(limits, value)
+        : fallback;
+    const { sma, ema, bollinger, rsi, macd, volatility } = INDICATOR_LIMITS;
+
+    switch (m[1]) {
+      case "sma":
+        settings.sma = {
+          enabled: true,
+          period: num(a, sma.period, settings.sma.period),
+        };
+        break;
+      case "ema":
+        settings.ema = {
+          enabled: true,
+          period: num(a, ema.period, settings.ema.period),
+        };
+        break;
+      case "bb":
+        settings.bollinger = {
+          enabled: true,
+          period: num(a, bollinger.period, settings.bollinger.period),
+          multiplier: num(b, bollinger.multiplier, settings.bollinger.multiplier),
+        };
+        break;
+      case "rsi":
+        settings.rsi = {
+          enabled: true,
+          period: num(a, rsi.period, settings.rsi.period),
+        };
+        break;
+      case "macd":
+        settings.macd = orderMacd({
+          enabled: true,
+          fast: num(a, macd.fast, settings.macd.fast),
+          slow: num(b, macd.slow, settings.macd.slow),
+          signal: num(c, macd.signal, settings.macd.signal),
+        });
+        break;
+      case "vol":
+        settings.volatility = {
+          enabled: true,
+          window: num(a, volatility.window, settings.volatility.window),
+        };
+        break;
+    }
+  }
+  return matched ? settings : null;
+}
+
+/** Indicator toggles + periods for one pair, persisted in localStorage. */
+export function useIndicatorSettings(base: string, quote: string) {
+  const pairKey = `${base}/${quote}`;
+  const [state, setState] = useState(() => ({
+    pairKey,
+    settings: loadSettings(base, quote),
+  }));
+
+  // Re-read when the pair changes (adjusting state during render, no effect)
+  let current = state;
+  if (state.pairKey !== pairKey) {
+    current = { pairKey, settings: loadSettings(base, quote) };
+    setState(current);
+  }
+
+  const save = useCallback(
+    (changed: IndicatorSettings) => {
+      const settings = { ...changed, macd: orderMacd(changed.macd) };
+      saveSettings(base, quote, settings);
+      setState({ pairKey: `${base}/${quote}`, settings });
+    },
+    [base, quote]
+  );
+
+  return { settings: current.settings, save };
+}
@@ -0,0 +1,8 @@
+// src/hooks/useMfa.ts
+import { useSyncExternalStore } from "react";
+import { getMfaState, subscribeMfa } from "../services/mfa";
+
+/** Whether the signed-in user has an authenticator app enrolled. */
+export function useMfa() {
+  return useSyncExternalStore(subscribeMfa, getMfaState);
+}
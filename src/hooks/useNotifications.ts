@@ -0,0 +1,11 @@
+// src/hooks/useNotifications.ts
+import { useSyncExternalStore } from "react";
+import {
+  getNotifications,
+  subscribeNotifications,
+} from "../services/notifications";
+
+/** Notification center items, newest first. */
+export function useNotifications() {
+  return useSyncExternalStore(subscribeNotifications, getNotifications);
+}
@@ -0,0 +1,11 @@
+// src/hooks/usePreferences.ts
+import { useSyncExternalStore } from "react";
+import {
+  getPreferences,
+  subscribePreferences,
+} from "../services/preferences";
+
+/** Current theme, shared with (and synced across) every signed-in device. */
+export function useTheme() {
+  return useSyncExternalStore(subscribePreferences, getPreferences).theme;
+}
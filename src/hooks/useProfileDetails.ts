@@ -0,0 +1,11 @@
+// src/hooks/useProfileDetails.ts
+import { useSyncExternalStore } from "react";
+import {
+  getProfileDetails,
+  subscribeProfileDetails,
+} from "../services/profileDetails";
+
+/** About text and social links for the profile card. */
+export function useProfileDetails() {
+  return useSyncExternalStore(subscribeProfileDetails, getProfileDetails);
+}
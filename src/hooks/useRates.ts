@@ -0,0 +1,168 @@
+// src/hooks/useRates.ts
+import { useEffect, useState } from "react";
+import {
+  describeRateSource,
+  fallbackCurrencies,
+  getCurrencies,
+  getLatestRates,
+  getRateSeries,
+  peekLatestRates,
+  peekRateSeries,
+  pickRate,
+  type LatestRates,
+  type ChartRangeKey,
+  type RateSeries,
+  type RateSource,
+} from "../services/rateService";
+
+type LatestRatesState = {
+  data: LatestRates | null;
+  loading: boolean;
+  error: string | null; // fallback notice, null when rates are live
+};
+
+export function useLatestRates(base: string): LatestRatesState {
+  // Last settled result, tagged with the base it belongs to so a base
+  // change reads as "loading" without resetting state inside the effect.
+  const [settled, setSettled] = useState<{
+    base: string;
+    data: LatestRates;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!base) return;
+    let cancelled = false;
+
+    getLatestRates(base).then((data) => {
+      if (cancelled) return;
+      const empty = Object.keys(data.rates).length === 0;
+      setSettled({
+        base,
+        data,
+        error: empty
+          ? `No rates available for ${base}.`
+          : describeRateSource(data.source),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [base]);
+
+  const current = settled?.base === base ? settled : null;
+  return {
+    data: current?.data ?? peekLatestRates(base),
+    loading: !current,
+    error: current?.error ?? null,
+  };
+}
+
+type RateState = {
+  rate: number | null;
+  date: string | null;
+  source: RateSource | null;
+  loading: boolean;
+  error: string | null;
+};
+
+/** 1 `from` → X `to`, backed by the shared latest-rates cache for `from`. */
+export function useRate(from: string, to: string): RateState {
+  const { data, loading, error } = useLatestRates(from);
+
+  if (from === to) {
+    return { rate: 1, date: null, source: "live", loading: false, error: null };
+  }
+
+  if (!data) {
+    return { rate: null, date: null, source: null, loading, error };
+  }
+
+  const { rate, source } = pickRate(data, to);
+  return {
+    rate,
+    date: data.date || null,
+    source,
+    loading,
+    error: error ?? describeRateSource(source),
+  };
+}
+
+type RateSeriesState = {
+  data: RateSeries | null;
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Historical fixings for `base` over `range`. Without `quote` every
+ * currency comes back in one request (board); with it, just that pair.
+ */
+export function useRateSeries(
+  base: string,
+  range: ChartRangeKey,
+  quote?: string
+): RateSeriesState {
+  const key = `${base}:${quote ?? "*"}:${range}`;
+  const [settled, setSettled] = useState<{
+    key: string;
+    data: RateSeries | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!base) return;
+    let cancelled = false;
+
+    getRateSeries(base, range, quote).then((data) => {
+      if (!cancelled) setSettled({ key, data });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, base, range, quote]);
+
+  const current = settled?.key === key ? settled : null;
+  const data = current ? current.data : peekRateSeries(base, range, quote);
+
+  let error: string | null = null;
+  if (current && !data) error = "Historical rates unavailable right now.";
+  else if (data?.source === "stale") error = describeRateSource("stale");
+
+  return { data, loading: !current, error };
+}
+
+type CurrenciesState = {
+  currencies: Record<string, string>;
+  loading: boolean;
+  error: string | null;
+};
+
+export function useCurrencies(): CurrenciesState {
+  const [state, setState] = useState<CurrenciesState>(() => ({
+    currencies: fallbackCurrencies(),
+    loading: true,
+    error: null,
+  }));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCurrencies().then(({ currencies, source }) => {
+      if (cancelled) return;
+      setState({
+        currencies,
+        loading: false,
+        error:
+          source === "live" ? null : "Using fallback list (API unavailable).",
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,15 @@
+// src/hooks/useRoute.ts
+import { useMemo, useSyncExternalStore } from "react";
+import { getLocation, subscribeLocation } from "../services/router";
+import { matchRoute } from "../services/routes";
+
+/** Current path + query; re-renders on navigate() and back/forward. */
+export function useLocation() {
+  return useSyncExternalStore(subscribeLocation, getLocation);
+}
+
+/** The page the current URL points at. */
+export function useRoute() {
+  const location = useLocation();
+  return useMemo(() => matchRoute(location), [location]);
+}
@@ -0,0 +1,24 @@
+// src/hooks/useSessions.ts
+import { useEffect, useState } from "react";
+import {
+  startSession,
+  subscribeSessions,
+  type SessionRecord,
+} from "../services/sessions";
+
+/** Records this browser's session while `uid` is signed in. */
+export function useSessionTracking(uid: string | null) {
+  useEffect(() => {
+    if (!uid) return;
+    return startSession(uid);
+  }, [uid]);
+}
+
+/** Live list of the account's sessions (null while loading). */
+export function useSessions(uid: string) {
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+
+  useEffect(() => subscribeSessions(uid, setSessions), [uid]);
+
+  return sessions;
+}
@@ -0,0 +1,14 @@
+// src/hooks/useUserSync.ts
+import { useEffect } from "react";
+import { startUserSync } from "../services/userSync";
+
+/**
+ * Keeps the signed-in user's alerts, destinations, profile and preferences
+ * in Firestore.
+ */
+export function useUserSync(uid: string | null) {
+  useEffect(() => {
+    if (!uid) return;
+    return startUserSync(uid);
+  }, [uid]);
+}
@@ -0,0 +1,48 @@
+// src/hooks/useWatchlist.ts
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  GUEST_OWNER,
+  WATCHLIST_LIMIT,
+  addToWatchlist,
+  getWatchlist,
+  moveInWatchlist,
+  removeFromWatchlist,
+  subscribeWatchlist,
+} from "../services/watchlist";
+
+/** Live view of one user's watchlist (`uid` null → this browser's guest list). */
+export function useWatchlist(uid: string | null | undefined) {
+  const owner = uid || GUEST_OWNER;
+
+  const pairs = useSyncExternalStore(subscribeWatchlist, () =>
+    getWatchlist(owner)
+  );
+
+  const add = useCallback(
+    (base: string, quote: string) => addToWatchlist(owner, base, quote),
+    [owner]
+  );
+  const remove = useCallback(
+    (base: string, quote: string) => removeFromWatchlist(owner, base, quote),
+    [owner]
+  );
+  const move = useCallback(
+    (from: number, to: number) => moveInWatchlist(owner, from, to),
+    [owner]
+  );
+  const has = useCallback(
+    (base: string, quote: string) =>
+      pairs.some((p) => p.base === base && p.quote === quote),
+    [pairs]
+  );
+
+  return {
+    pairs,
+    add,
+    remove,
+    move,
+    has,
+    limit: WATCHLIST_LIMIT,
+    isFull: pairs.length >= WATCHLIST_LIMIT,
+  };
+}
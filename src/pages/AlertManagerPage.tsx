@@ -0,0 +1,641 @@
+// src/pages/AlertManagerPage.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import AlertConditionFields from "./components/AlertConditionFields";
+import AlertDestinationsPanel from "./components/AlertDestinationsPanel";
+import CreateAlertDialog from "./components/CreateAlertDialog";
+import { useAlerts } from "../hooks/useAlerts";
+import { useAlertObservations } from "../hooks/useAlertEngine";
+import { useDestinations } from "../hooks/useAlertDestinations";
+import {
+  alertStatus,
+  parseSchedule,
+  removeAlerts,
+  restoreAlerts,
+  setAlertActive,
+  snoozeAlerts,
+  updateAlert,
+  updateAlerts,
+  type AlertStatus,
+  type RateAlert,
+} from "../services/alertStore";
+import {
+  checkWindowForSchedule,
+  describeCondition,
+  draftFromCondition,
+  parseConditionDraft,
+  type ConditionDraft,
+} from "../services/alertConditions";
+import { deliverAlertEvent, sampleEvent } from "../services/webhookDelivery";
+
+type AlertManagerPageProps = {
+  // prefills the new-alert dialog's email field
+  userEmail?: string;
+};
+
+type SortKey = "newest" | "oldest" | "pair" | "status";
+type StatusFilter = "all" | AlertStatus;
+
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: "newest", label: "Newest first" },
+  { key: "oldest", label: "Oldest first" },
+  { key: "pair", label: "Pair A–Z" },
+  { key: "status", label: "Status" },
+];
+
+const STATUS_ORDER: Record<AlertStatus, number> = {
+  active: 0,
+  snoozed: 1,
+  paused: 2,
+};
+
+const UNDO_MS = 8000;
+const MAX_SNOOZE_HOURS = 7 * 24;
+
+const STATUS_BADGE: Record<AlertStatus, string> = {
+  active:
+    "border-emerald-500 bg-emerald-50 text-emerald-600 dark:bg-emerald-500/10 dark:text-emerald-300",
+  snoozed:
+    "border-amber-400 bg-amber-50 text-amber-600 dark:bg-amber-500/10 dark:text-amber-300",
+  paused:
+    "border-slate-300 bg-white text-slate-500 dark:border-slate-600 dark:bg-slate-900 dark:text-slate-400",
+};
+
+const pillBtn =
+  "rounded-full border border-slate-300 px-3 py-1 text-[0.68rem] text-slate-700 hover:border-sky-500 hover:text-sky-600 disabled:opacity-40 dark:border-slate-600 dark:text-slate-100 dark:hover:border-sky-400";
+
+const selectClass =
+  "rounded-full border border-slate-300 bg-white px-3 py-1.5 text-[0.7rem] text-slate-700 outline-none focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// ===== INLINE EDITOR =====
+
+function AlertEditor({
+  alert,
+  lastRate,
+  onDone,
+}: {
+  alert: RateAlert;
+  lastRate: number | null;
+  onDone: () => void;
+}) {
+  const [condition, setCondition] = useState<ConditionDraft>(() =>
+    draftFromCondition(alert.condition)
+  );
+  const [schedule, setSchedule] = useState(alert.schedule.join(", "));
+  const destinations = useDestinations();
+  const [destinationIds, setDestinationIds] = useState(alert.destinationIds);
+  const [error, setError] = useState<string | null>(null);
+  const [testNote, setTestNote] = useState<string | null>(null);
+
+  function toggleDestination(id: string) {
+    setDestinationIds((prev) =>
+      prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]
+    );
+  }
+
+  async function handleSendTest() {
+    const targets = destinationIds.filter((id) =>
+      destinations.some((d) => d.id === id)
+    );
+    if (targets.length === 0) {
+      setTestNote("Select at least one destination to test.");
+      return;
+    }
+    setTestNote("Sending test…");
+    await deliverAlertEvent(
+      sampleEvent(alert, lastRate),
+      { ...alert, destinationIds: targets },
+      { test: true, retryDelaysMs: [] }
+    );
+    setTestNote("Test sent – see the delivery log below.");
+  }
+
+  function handleSave() {
+    const parsed = parseConditionDraft(condition);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const slots = parseSchedule(schedule);
+    if ("error" in slots) {
+      setError(slots.error);
+      return;
+    }
+    const windowError = checkWindowForSchedule(
+      parsed.condition,
+      slots.schedule
+    );
+    if (windowError) {
+      setError(windowError);
+      return;
+    }
+    updateAlert(alert.id, {
+      condition: parsed.condition,
+      schedule: slots.schedule,
+      // drop destinations that were removed in the meantime
+      destinationIds: destinationIds.filter((id) =>
+        destinations.some((d) => d.id === id)
+      ),
+    });
+    onDone();
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-sky-200 bg-sky-50/60 p-3 dark:border-sky-900 dark:bg-sky-950/30">
+      <AlertConditionFields
+        draft={condition}
+        onChange={setCondition}
+        base={alert.from}
+        quote={alert.to}
+        currentRate={lastRate}
+        tone="auto"
+      />
+      <div>
+        <label className="mb-1 block text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-500 dark:text-slate-400">
+          Check times (local, HH:MM)
+        </label>
+        <input
+          value={schedule}
+          onChange={(e) => setSchedule(e.target.value)}
+          placeholder="06:00, 19:00"
+          className="w-full rounded-full border border-slate-300 bg-white px-4 py-2 text-xs text-slate-900 outline-none focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+        />
+      </div>
+      <div>
+        <label className="mb-1 block text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-500 dark:text-slate-400">
+          Also send to
+        </label>
+        {destinations.length === 0 ? (
+          <p className="text-[0.7rem] text-slate-500 dark:text-slate-400">
+            Email only. Add webhook or chat destinations below.
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3 text-[0.72rem] text-slate-700 dark:text-slate-200">
+            {destinations.map((d) => (
+              <label key={d.id} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={destinationIds.includes(d.id)}
+                  onChange={() => toggleDestination(d.id)}
+                />
+                {d.name}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={() => void handleSendTest()}
+              className={pillBtn}
+            >
+              Send test
+            </button>
+          </div>
+        )}
+        {testNote && (
+          <p className="mt-1 text-[0.65rem] text-slate-500 dark:text-slate-400">
+            {testNote}
+          </p>
+        )}
+      </div>
+      {error && <p className="text-[0.7rem] text-rose-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onDone} className={pillBtn}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="rounded-full bg-sky-500 px-4 py-1 text-[0.68rem] font-semibold text-white hover:brightness-110"
+        >
+          Save changes
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ===== PAGE =====
+
+export default function AlertManagerPage({ userEmail }: AlertManagerPageProps) {
+  const alerts = useAlerts();
+  const observations = useAlertObservations();
+
+  const [pairFilter, setPairFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [sortKey, setSortKey] = useState<SortKey>("newest");
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [snoozeHours, setSnoozeHours] = useState(4);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [undo, setUndo] = useState<{
+    items: RateAlert[];
+    message: string;
+  } | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+
+  // re-evaluated every minute so snoozes expire on screen
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    },
+    []
+  );
+
+  const pairs = useMemo(
+    () => [...new Set(alerts.map((a) => `${a.from}/${a.to}`))].sort(),
+    [alerts]
+  );
+
+  const visible = useMemo(() => {
+    const list = alerts.filter((a) => {
+      if (pairFilter !== "all" && `${a.from}/${a.to}` !== pairFilter) {
+        return false;
+      }
+      return statusFilter === "all" || alertStatus(a, now) === statusFilter;
+    });
+
+    return [...list].sort((a, b) => {
+      switch (sortKey) {
+        case "oldest":
+          return a.createdAt.localeCompare(b.createdAt);
+        case "pair":
+          return `${a.from}/${a.to}`.localeCompare(`${b.from}/${b.to}`);
+        case "status":
+          return (
+            STATUS_ORDER[alertStatus(a, now)] -
+            STATUS_ORDER[alertStatus(b, now)]
+          );
+        default:
+          return b.createdAt.localeCompare(a.createdAt);
+      }
+    });
+  }, [alerts, pairFilter, statusFilter, sortKey, now]);
+
+  // selection only counts rows that are still visible
+  const selectedIds = visible.filter((a) => selected.has(a.id)).map((a) => a.id);
+  const allSelected = visible.length > 0 && selectedIds.length === visible.length;
+
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function toggleAll() {
+    setSelected(allSelected ? new Set() : new Set(visible.map((a) => a.id)));
+  }
+
+  function clampedSnooze() {
+    return Math.min(MAX_SNOOZE_HOURS, Math.max(1, Math.round(snoozeHours)));
+  }
+
+  function handleDelete(ids: string[]) {
+    const removed = removeAlerts(ids);
+    if (removed.length === 0) return;
+
+    setSelected(new Set());
+    if (editingId && ids.includes(editingId)) setEditingId(null);
+
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    setUndo({
+      items: removed,
+      message:
+        removed.length === 1
+          ? `Deleted ${removed[0].from}/${removed[0].to} alert.`
+          : `Deleted ${removed.length} alerts.`,
+    });
+    undoTimerRef.current = window.setTimeout(() => setUndo(null), UNDO_MS);
+  }
+
+  function handleUndo() {
+    if (!undo) return;
+    restoreAlerts(undo.items);
+    setUndo(null);
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+  }
+
+  function handleBulkActive(active: boolean) {
+    updateAlerts(
+      selectedIds,
+      active ? { active, snoozedUntil: null } : { active }
+    );
+  }
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white/95 px-4 py-4 shadow-[0_26px_70px_rgba(15,23,42,0.12)] dark:border-slate-800 dark:bg-slate-950/90 dark:shadow-[0_30px_80px_rgba(15,23,42,0.9)]">
+      {/* Header */}
+      <div className="flex flex-col gap-3 border-b border-slate-200 pb-4 dark:border-slate-800 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-1">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.22em] text-slate-500 dark:text-slate-400">
+            Alerts · manager
+          </p>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-50">
+            {alerts.length} saved alert{alerts.length === 1 ? "" : "s"}
+          </h2>
+          <p className="text-[11px] text-slate-500 dark:text-slate-400">
+            Active alerts are checked at their scheduled times while the app is
+            open.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsCreateOpen(true)}
+          className="self-start rounded-full bg-sky-500 px-4 py-1.5 text-xs font-semibold text-white shadow-[0_10px_24px_rgba(56,189,248,0.45)] hover:brightness-110 md:self-auto"
+        >
+          + New alert
+        </button>
+      </div>
+
+      {/* Filters + sort */}
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <select
+          value={pairFilter}
+          onChange={(e) => setPairFilter(e.target.value)}
+          className={selectClass}
+          aria-label="Filter by pair"
+        >
+          <option value="all">All pairs</option>
+          {pairs.map((p) => (
+            <option key={p} value={p}>
+              {p}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className={selectClass}
+          aria-label="Filter by status"
+        >
+          <option value="all">Any status</option>
+          <option value="active">Active</option>
+          <option value="snoozed">Snoozed</option>
+          <option value="paused">Paused</option>
+        </select>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+          className={selectClass}
+          aria-label="Sort alerts"
+        >
+          {SORT_OPTIONS.map((o) => (
+            <option key={o.key} value={o.key}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="ml-auto flex items-center gap-1 text-[0.68rem] text-slate-500 dark:text-slate-400">
+          Snooze for
+          <input
+            type="number"
+            min={1}
+            max={MAX_SNOOZE_HOURS}
+            value={snoozeHours}
+            onChange={(e) => setSnoozeHours(Number(e.target.value) || 1)}
+            className="w-14 rounded-full border border-slate-300 bg-white px-2 py-1 text-center text-slate-700 outline-none focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+          />
+          h
+        </label>
+      </div>
+
+      {/* Bulk actions */}
+      {selectedIds.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 rounded-2xl border border-sky-200 bg-sky-50/70 px-3 py-2 text-[0.7rem] dark:border-sky-900 dark:bg-sky-950/30">
+          <span className="font-semibold text-slate-700 dark:text-slate-200">
+            {selectedIds.length} selected
+          </span>
+          <button
+            type="button"
+            onClick={() => handleBulkActive(true)}
+            className={pillBtn}
+          >
+            Enable
+          </button>
+          <button
+            type="button"
+            onClick={() => handleBulkActive(false)}
+            className={pillBtn}
+          >
+            Pause
+          </button>
+          <button
+            type="button"
+            onClick={() => snoozeAlerts(selectedIds, clampedSnooze())}
+            className={pillBtn}
+          >
+            Snooze {clampedSnooze()}h
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDelete(selectedIds)}
+            className="rounded-full border border-rose-300 px-3 py-1 text-[0.68rem] text-rose-600 hover:bg-rose-50 dark:border-rose-800 dark:text-rose-300 dark:hover:bg-rose-950/40"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
+      {/* List */}
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full text-left text-xs">
+          <thead className="border-b border-slate-200 text-[10px] uppercase tracking-[0.16em] text-slate-500 dark:border-slate-800 dark:text-slate-400">
+            <tr>
+              <th className="py-2 pr-2">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  aria-label="Select all visible alerts"
+                />
+              </th>
+              <th className="py-2 pr-4">Pair</th>
+              <th className="py-2 px-4">Condition</th>
+              <th className="hidden py-2 px-4 md:table-cell">Schedule</th>
+              <th className="py-2 px-4">Status</th>
+              <th className="py-2 pl-4 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="py-6 text-center text-[0.8rem] text-slate-500 dark:text-slate-400"
+                >
+                  {alerts.length === 0
+                    ? "No alerts yet. Create one to get started."
+                    : "No alerts match these filters."}
+                </td>
+              </tr>
+            )}
+
+            {visible.map((alert) => {
+              const status = alertStatus(alert, now);
+              const last = observations[alert.id]?.at(-1) ?? null;
+
+              if (editingId === alert.id) {
+                return (
+                  <tr key={alert.id}>
+                    <td colSpan={6} className="py-2">
+                      <p className="mb-2 text-[0.78rem] font-semibold text-slate-900 dark:text-slate-50">
+                        Editing {alert.from}/{alert.to}
+                      </p>
+                      <AlertEditor
+                        alert={alert}
+                        lastRate={last?.rate ?? null}
+                        onDone={() => setEditingId(null)}
+                      />
+                    </td>
+                  </tr>
+                );
+              }
+
+              return (
+                <tr
+                  key={alert.id}
+                  className="border-b border-slate-100 last:border-0 dark:border-slate-800"
+                >
+                  <td className="py-2 pr-2 align-middle">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(alert.id)}
+                      onChange={() => toggleSelected(alert.id)}
+                      aria-label={`Select ${alert.from}/${alert.to} alert`}
+                    />
+                  </td>
+                  <td className="py-2 pr-4 align-middle">
+                    <div className="text-[0.78rem] font-semibold text-slate-900 dark:text-slate-50">
+                      {alert.from}/{alert.to}
+                    </div>
+                    <div className="text-[0.65rem] text-slate-500 dark:text-slate-400">
+                      {alert.email}
+                      {alert.destinationIds.length > 0 &&
+                        ` +${alert.destinationIds.length} destination${
+                          alert.destinationIds.length === 1 ? "" : "s"
+                        }`}
+                    </div>
+                  </td>
+                  <td className="py-2 px-4 align-middle text-slate-700 dark:text-slate-200">
+                    {describeCondition(alert.condition)}
+                    {last && (
+                      <div className="text-[0.65rem] text-slate-500 dark:text-slate-400">
+                        last {last.rate.toFixed(4)} ·{" "}
+                        {formatTime(last.observedAt)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="hidden py-2 px-4 align-middle font-mono text-[0.7rem] text-slate-600 dark:text-slate-300 md:table-cell">
+                    {alert.schedule.join(", ")}
+                  </td>
+                  <td className="py-2 px-4 align-middle">
+                    <span
+                      className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] ${STATUS_BADGE[status]}`}
+                    >
+                      {status === "snoozed" && alert.snoozedUntil
+                        ? `Snoozed · ${formatTime(alert.snoozedUntil)}`
+                        : status === "active"
+                        ? "Active"
+                        : "Paused"}
+                    </span>
+                  </td>
+                  <td className="py-2 pl-4 align-middle">
+                    <div className="flex flex-wrap justify-end gap-1.5">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(alert.id)}
+                        className={pillBtn}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setAlertActive(alert.id, status === "paused")
+                        }
+                        className={pillBtn}
+                      >
+                        {status === "paused" ? "Enable" : "Pause"}
+                      </button>
+                      {status === "snoozed" ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateAlert(alert.id, { snoozedUntil: null })
+                          }
+                          className={pillBtn}
+                        >
+                          Wake
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            snoozeAlerts([alert.id], clampedSnooze())
+                          }
+                          disabled={status === "paused"}
+                          className={pillBtn}
+                        >
+                          Snooze
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete([alert.id])}
+                        className="rounded-full border border-rose-300 px-3 py-1 text-[0.68rem] text-rose-600 hover:bg-rose-50 dark:border-rose-800 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <AlertDestinationsPanel />
+
+      {/* Undo toast */}
+      {undo && (
+        <div className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-3 rounded-full bg-slate-900 px-4 py-2 text-xs text-slate-100 shadow-2xl">
+          <span>{undo.message}</span>
+          <button
+            type="button"
+            onClick={handleUndo}
+            className="font-semibold text-sky-300 hover:text-sky-200"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      {isCreateOpen && (
+        <CreateAlertDialog
+          base={alerts[0]?.from ?? "USD"}
+          quote={alerts[0]?.to ?? "INR"}
+          allowPairChange
+          defaultEmail={userEmail}
+          onClose={() => setIsCreateOpen(false)}
+        />
+      )}
+    </section>
+  );
+}
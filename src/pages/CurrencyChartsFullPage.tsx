@@ -1,33 +1,48 @@
 // src/pages/CurrencyChartsFullPage.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { CurrencyDropdown } from "./components/CurrencyDropdown";
+import CreateAlertDialog from "./components/CreateAlertDialog";
+import CopyLinkButton from "./components/CopyLinkButton";
+import { describeCondition } from "../services/alertConditions";
+import { useLatestRates, useRateSeries } from "../hooks/useRates";
+import { useWatchlist } from "../hooks/useWatchlist";
+import {
+  RANGE_KEYS,
+  changePct,
+  seriesFor,
+  type RangeKey,
+} from "../services/rateService";
 
 type Props = {
   fromCurrency: string;
   toCurrency: string;
   setFromCurrency: (code: string) => void;
   setToCurrency: (code: string) => void;
+  range: RangeKey;
+  setRange: (range: RangeKey) => void;
+  // show rows against the "to" currency instead
+  inverse: boolean;
+  setInverse: (inverse: boolean) => void;
+  // path the "Copy link" button shares
+  shareLink: string;
+  // opens the detailed chart for one row's pair
+  onOpenPairChart?: (base: string, quote: string) => void;
+  // owner of the watchlist the row buttons write to (null → guest list)
+  userId?: string | null;
+  // prefills the alert dialog's email field
+  userEmail?: string;
 };
 
-type RangeKey = "24H" | "7D" | "30D" | "3M";
-
 type TableRow = {
   code: string;
   name: string;
   flag: string;
   rate: number;
-  changePct: number;
+  changePct: number | null;
   values: number[];
   isFocus: boolean;
 };
 
-type FrankfurterLatest = {
-  amount: number;
-  base: string;
-  date: string;
-  rates: Record<string, number>;
-};
-
 const FLAGS: Record<string, string> = {
   USD: "🇺🇸",
   EUR: "🇪🇺",
@@ -68,28 +83,6 @@ function getName(code: string): string {
   }
 }
 
-// tiny deterministic pseudo-random walk, just for the little sparkline shape
-function makeTrend(range: RangeKey, seed: number): number[] {
-  const length =
-    range === "24H" ? 18 : range === "7D" ? 22 : range === "30D" ? 26 : 30;
-
-  let spread = 0.004;
-  if (range === "7D") spread = 0.008;
-  if (range === "30D") spread = 0.012;
-  if (range === "3M") spread = 0.018;
-
-  const values: number[] = [];
-  let v = 1;
-  for (let i = 0; i < length; i++) {
-    const s = (seed + 11) * (i + 17);
-    const rand = (((s * 9301 + 49297) % 233280) / 233280) * 2 - 1; // -1..1
-    const delta = rand * spread;
-    v = v * (1 + delta);
-    values.push(v);
-  }
-  return values;
-}
-
 function Sparkline({
   values,
   positive,
@@ -129,56 +122,33 @@ export default function CurrencyChartsFullPage({
   toCurrency,
   setFromCurrency,
   setToCurrency,
+  range,
+  setRange,
+  inverse,
+  setInverse,
+  shareLink,
+  onOpenPairChart,
+  userId,
+  userEmail,
 }: Props) {
-  const [range, setRange] = useState<RangeKey>("24H");
-  const [inverse, setInverse] = useState(false);
+  const watchlist = useWatchlist(userId);
+  const [boardNotice, setBoardNotice] = useState<string | null>(null);
 
-  // live rates from frankfurter for the current base
-  const [rates, setRates] = useState<Record<string, number> | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // quote of the row the alert dialog was opened from
+  const [alertQuote, setAlertQuote] = useState<string | null>(null);
 
   const baseCurrency = inverse ? toCurrency : fromCurrency;
   const focusCurrency = inverse ? fromCurrency : toCurrency;
 
-  // ===== fetch live rates whenever the base changes =====
-  useEffect(() => {
-    let cancelled = false;
-
-    async function load() {
-      if (!baseCurrency) return;
-      setLoading(true);
-      setError(null);
-
-      try {
-        const res = await fetch(
-          `https://api.frankfurter.app/latest?from=${encodeURIComponent(
-            baseCurrency
-          )}`
-        );
-        if (!res.ok) {
-          throw new Error(`HTTP ${res.status}`);
-        }
-        const data: FrankfurterLatest = await res.json();
-        if (cancelled) return;
-        setRates(data.rates);
-      } catch (err) {
-        if (cancelled) return;
-        console.error("Error fetching FX rates", err);
-        setError("Could not load live FX rates. Please try again.");
-        setRates(null);
-      } finally {
-        if (!cancelled) {
-          setLoading(false);
-        }
-      }
-    }
+  // live rates for the current base from the shared rate service
+  const { data: latest, loading, error } = useLatestRates(baseCurrency);
+  const rates = latest?.rates ?? null;
 
-    load();
-    return () => {
-      cancelled = true;
-    };
-  }, [baseCurrency]);
+  // historical fixings for sparklines + % change over the selected range
+  const { data: series, error: seriesError } = useRateSeries(
+    baseCurrency,
+    range
+  );
 
   // ===== build table rows from live rates =====
   const rows: TableRow[] = useMemo(() => {
@@ -197,23 +167,21 @@ export default function CurrencyChartsFullPage({
 
     const result: TableRow[] = [];
 
-    codes.forEach((code, index) => {
+    codes.forEach((code) => {
       if (code === baseCurrency) return;
 
       const baseToQuote = rates[code];
       if (!baseToQuote) return;
 
-      const trend = makeTrend(range, index + (inverse ? 20 : 0));
-      const changeRaw = (trend[trend.length - 1] / trend[0] - 1) * 100;
-      const changePct = Number(changeRaw.toFixed(2));
+      const points = series ? seriesFor(series, code) : [];
 
       result.push({
         code,
         name: getName(code),
         flag: FLAGS[code] ?? "🌐",
         rate: baseToQuote,
-        changePct,
-        values: trend,
+        changePct: changePct(points),
+        values: points.map((p) => p.value),
         isFocus: code === focusCurrency,
       });
     });
@@ -225,7 +193,7 @@ export default function CurrencyChartsFullPage({
     });
 
     return result;
-  }, [rates, baseCurrency, focusCurrency, range, inverse]);
+  }, [rates, series, baseCurrency, focusCurrency]);
 
   function handleSwapPair() {
     const prevFrom = fromCurrency;
@@ -233,6 +201,16 @@ export default function CurrencyChartsFullPage({
     setToCurrency(prevFrom);
   }
 
+  function handleToggleWatchlist(base: string, quote: string) {
+    if (watchlist.has(base, quote)) {
+      watchlist.remove(base, quote);
+      setBoardNotice(`${base}/${quote} removed from your watchlist.`);
+      return;
+    }
+    const err = watchlist.add(base, quote);
+    setBoardNotice(err ?? `${base}/${quote} added to your watchlist.`);
+  }
+
   return (
     <section className="rounded-3xl border border-slate-200 bg-white/95 px-4 py-4 shadow-[0_26px_70px_rgba(15,23,42,0.12)] dark:border-slate-800 dark:bg-slate-950/90 dark:shadow-[0_30px_80px_rgba(15,23,42,0.9)]">
       {/* Pair controls */}
@@ -245,10 +223,18 @@ export default function CurrencyChartsFullPage({
             Watch {baseCurrency || "…"} vs major currencies
           </h2>
           <p className="max-w-md text-[11px] text-slate-500 dark:text-slate-400">
-            Rates are sourced from frankfurter.app (European Central Bank). The
-            small sparklines and % moves are synthetic demo visuals for your
-            portfolio project.
+            Rates are sourced from frankfurter.app (European Central Bank).
+            Sparklines and % moves use the daily fixings over the selected
+            range.
           </p>
+          {seriesError && (
+            <p className="text-[10px] text-amber-500">{seriesError}</p>
+          )}
+          {boardNotice && (
+            <p className="text-[10px] text-sky-600 dark:text-sky-300">
+              {boardNotice}
+            </p>
+          )}
         </div>
 
         <div className="flex flex-col gap-2 text-xs">
@@ -286,7 +272,7 @@ export default function CurrencyChartsFullPage({
 
           <div className="flex flex-wrap items-center justify-end gap-3">
             <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-1.5 py-1 text-[10px] text-slate-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-200">
-              {(["24H", "7D", "30D", "3M"] as RangeKey[]).map((key) => (
+              {RANGE_KEYS.map((key) => (
                 <button
                   key={key}
                   type="button"
@@ -304,7 +290,7 @@ export default function CurrencyChartsFullPage({
 
             <button
               type="button"
-              onClick={() => setInverse((v) => !v)}
+              onClick={() => setInverse(!inverse)}
               className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-[10px] text-slate-700 hover:border-sky-500 hover:text-sky-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-100 dark:hover:border-sky-300"
             >
               <span className="text-[11px]">⇅</span>
@@ -312,6 +298,11 @@ export default function CurrencyChartsFullPage({
                 View as 1 {inverse ? fromCurrency : toCurrency} base
               </span>
             </button>
+
+            <CopyLinkButton
+              path={shareLink}
+              className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-[10px] text-slate-700 hover:border-sky-500 hover:text-sky-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-100 dark:hover:border-sky-300"
+            />
           </div>
         </div>
       </div>
@@ -344,7 +335,9 @@ export default function CurrencyChartsFullPage({
               <tr>
                 <td
                   colSpan={5}
-                  className="py-6 text-center text-[0.8rem] text-rose-400"
+                  className={`text-center text-[0.8rem] ${
+                    rows.length === 0 ? "py-6 text-rose-400" : "py-2 text-amber-500"
+                  }`}
                 >
                   {error}
                 </td>
@@ -363,9 +356,9 @@ export default function CurrencyChartsFullPage({
             )}
 
             {!loading &&
-              !error &&
               rows.map((row) => {
-                const positive = row.changePct >= 0;
+                const positive = (row.changePct ?? 0) >= 0;
+                const watched = watchlist.has(baseCurrency, row.code);
                 return (
                   <tr
                     key={row.code}
@@ -377,9 +370,17 @@ export default function CurrencyChartsFullPage({
                       <div className="flex items-center gap-2">
                         <div>
                           <div className="flex items-center gap-1">
-                            <span className="text-[0.78rem] font-semibold text-slate-900 dark:text-slate-50">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                onOpenPairChart?.(baseCurrency, row.code)
+                              }
+                              disabled={!onOpenPairChart}
+                              title={`Open ${baseCurrency}/${row.code} chart`}
+                              className="text-[0.78rem] font-semibold text-slate-900 underline-offset-2 hover:text-sky-600 hover:underline disabled:no-underline disabled:hover:text-slate-900 dark:text-slate-50 dark:hover:text-sky-300"
+                            >
                               {baseCurrency}/{row.code}
-                            </span>
+                            </button>
                             {row.isFocus && (
                               <span className="rounded-full bg-emerald-500/15 px-1.5 py-0.5 text-[0.6rem] font-semibold text-emerald-600 dark:bg-emerald-500/20 dark:text-emerald-300">
                                 Focus
@@ -406,14 +407,19 @@ export default function CurrencyChartsFullPage({
                     <td className="hidden py-2 px-4 align-middle sm:table-cell">
                       <div
                         className={`text-[0.78rem] font-semibold ${
-                          positive ? "text-emerald-500" : "text-rose-400"
+                          row.changePct == null
+                            ? "text-slate-400"
+                            : positive
+                            ? "text-emerald-500"
+                            : "text-rose-400"
                         }`}
                       >
-                        {positive ? "+" : ""}
-                        {row.changePct.toFixed(2)}%
+                        {row.changePct == null
+                          ? "—"
+                          : `${positive ? "+" : ""}${row.changePct.toFixed(2)}%`}
                       </div>
                       <div className="text-[0.65rem] text-slate-500 dark:text-slate-400">
-                        {range} change (synthetic)
+                        {range} change
                       </div>
                     </td>
 
@@ -425,12 +431,26 @@ export default function CurrencyChartsFullPage({
                       <div className="flex justify-end gap-2 text-[0.68rem]">
                         <button
                           type="button"
-                          className="rounded-full border border-slate-300 px-3 py-1 text-slate-700 hover:border-sky-500 hover:text-sky-600 dark:border-slate-600 dark:text-slate-100 dark:hover:border-sky-400"
+                          onClick={() =>
+                            handleToggleWatchlist(baseCurrency, row.code)
+                          }
+                          disabled={!watched && watchlist.isFull}
+                          title={
+                            !watched && watchlist.isFull
+                              ? `Watchlist full (up to ${watchlist.limit} pairs)`
+                              : undefined
+                          }
+                          className={`rounded-full border px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50 ${
+                            watched
+                              ? "border-emerald-500/60 text-emerald-600 hover:border-rose-400 hover:text-rose-500 dark:text-emerald-300"
+                              : "border-slate-300 text-slate-700 hover:border-sky-500 hover:text-sky-600 dark:border-slate-600 dark:text-slate-100 dark:hover:border-sky-400"
+                          }`}
                         >
-                          Add to watchlist
+                          {watched ? "✓ Watching" : "Add to watchlist"}
                         </button>
                         <button
                           type="button"
+                          onClick={() => setAlertQuote(row.code)}
                           className="rounded-full bg-sky-500 px-4 py-1 text-white shadow-[0_10px_24px_rgba(56,189,248,0.6)] transition hover:brightness-110"
                         >
                           Alert
@@ -444,10 +464,25 @@ export default function CurrencyChartsFullPage({
         </table>
       </div>
 
+      {alertQuote && (
+        <CreateAlertDialog
+          // remount per pair so the form picks up the new prefill
+          key={`${baseCurrency}/${alertQuote}`}
+          base={baseCurrency}
+          quote={alertQuote}
+          defaultEmail={userEmail}
+          onClose={() => setAlertQuote(null)}
+          onSaved={(a) =>
+            setBoardNotice(
+              `Alert saved: ${a.from}/${a.to} ${describeCondition(a.condition)}.`
+            )
+          }
+        />
+      )}
+
       <p className="mt-3 text-[10px] text-slate-500 dark:text-slate-400">
-        Powered by frankfurter.app rates. Graph squiggles and % moves are
-        intentionally simulated so you can drop in your own historical candles
-        later.
+        Powered by frankfurter.app rates. Trends are built from ECB daily
+        reference fixings, so weekends and holidays have no data points.
       </p>
     </section>
   );
@@ -1,21 +1,30 @@
 // src/pages/CurrencyChartsSection.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
+import CopyLinkButton from "./components/CopyLinkButton";
+import { useLatestRates, useRateSeries } from "../hooks/useRates";
+import {
+  RANGE_KEYS,
+  changePct,
+  seriesFor,
+  type RangeKey,
+} from "../services/rateService";
 
 type CurrencyChartsSectionProps = {
   fromCurrency: string;
   toCurrency: string;
   setFromCurrency: (code: string) => void;
   setToCurrency: (code: string) => void;
-  /**
-   * preview  – compact card on the main page with CTA to open full view
-   * full     – wider card used on the live-rates page
-   */
-  mode?: "preview" | "full";
+  range: RangeKey;
+  setRange: (range: RangeKey) => void;
+  // show rows against the "to" currency instead
+  inverse: boolean;
+  setInverse: (inverse: boolean) => void;
+  // path the "Copy link" button shares
+  shareLink: string;
+  // CTA to the full board on the live-rates page
   onOpenFull?: () => void;
 };
 
-type RangeKey = "24H" | "7D" | "30D" | "3M";
-
 type RowMeta = {
   code: string;
   name: string;
@@ -33,47 +42,6 @@ const ROWS: RowMeta[] = [
   { code: "INR", name: "Indian Rupee", flag: "🇮🇳" },
 ];
 
-// Simple sample rates: 1 USD → X currency units (demo only).
-const SAMPLE_RATES: Record<string, number> = {
-  USD: 1,
-  EUR: 0.92,
-  GBP: 0.78,
-  JPY: 151.2,
-  CAD: 1.37,
-  AUD: 1.52,
-  INR: 83.1,
-};
-
-// Fallback cross-rate using SAMPLE_RATES (all vs USD)
-function crossRate(base: string, quote: string): number | null {
-  const baseUsd = SAMPLE_RATES[base];
-  const quoteUsd = SAMPLE_RATES[quote];
-  if (!baseUsd || !quoteUsd) return null;
-  // 1 base = ? quote
-  return quoteUsd / baseUsd;
-}
-
-// deterministic tiny pseudo-random for “movement”
-function makeTrend(range: RangeKey, seed: number): number[] {
-  const length =
-    range === "24H" ? 16 : range === "7D" ? 20 : range === "30D" ? 24 : 28;
-  let spread = 0.004;
-  if (range === "7D") spread = 0.008;
-  if (range === "30D") spread = 0.012;
-  if (range === "3M") spread = 0.018;
-
-  const values: number[] = [];
-  let v = 1;
-  for (let i = 0; i < length; i++) {
-    const s = (seed + 7) * (i + 11);
-    const rand = (((s * 9301 + 49297) % 233280) / 233280) * 2 - 1; // -1..1
-    const delta = rand * spread;
-    v = v * (1 + delta);
-    values.push(v);
-  }
-  return values;
-}
-
 function Sparkline({
   values,
   positive,
@@ -113,79 +81,29 @@ export default function CurrencyChartsSection({
   toCurrency,
   setFromCurrency,
   setToCurrency,
-  mode = "preview",
+  range,
+  setRange,
+  inverse,
+  setInverse,
+  shareLink,
   onOpenFull,
 }: CurrencyChartsSectionProps) {
-  const [range, setRange] = useState<RangeKey>("24H");
-  const [inverse, setInverse] = useState(false);
-
-  // Live rates from API (1 baseCurrency → quote)
-  const [rates, setRates] = useState<Record<string, number>>({});
-  const [ratesLoading, setRatesLoading] = useState(false);
-  const [ratesError, setRatesError] = useState<string | null>(null);
-
-  const isPreview = mode === "preview";
-
   const baseCurrency = inverse ? toCurrency : fromCurrency;
   const focusCurrency = inverse ? fromCurrency : toCurrency;
 
-  // Fetch rates for baseCurrency from Frankfurter
-  useEffect(() => {
-    let cancelled = false;
-
-    async function fetchRates() {
-      try {
-        setRatesLoading(true);
-        setRatesError(null);
+  // Live rates for the base (1 baseCurrency → quote) via the shared service
+  const {
+    data: latest,
+    loading: ratesLoading,
+    error: ratesError,
+  } = useLatestRates(baseCurrency);
 
-        // build list of all targets except base
-        const targets = Array.from(
-          new Set(
-            ROWS.map((r) => r.code).filter((code) => code !== baseCurrency)
-          )
-        );
-
-        if (!targets.length) {
-          setRates({});
-          return;
-        }
-
-        const url = `https://api.frankfurter.app/latest?from=${encodeURIComponent(
-          baseCurrency
-        )}&to=${targets.join(",")}`;
-
-        const res = await fetch(url);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = (await res.json()) as {
-          rates?: Record<string, number>;
-        };
-
-        if (cancelled) return;
-
-        setRates(data.rates || {});
-      } catch (err) {
-        console.error("Error fetching FX board rates:", err);
-        if (!cancelled) {
-          setRatesError("Using sample rates (FX API unavailable).");
-          // fallback: derive from SAMPLE_RATES
-          const fallback: Record<string, number> = {};
-          ROWS.forEach(({ code }) => {
-            if (code === baseCurrency) return;
-            const r = crossRate(baseCurrency, code);
-            if (r != null) fallback[code] = r;
-          });
-          setRates(fallback);
-        }
-      } finally {
-        if (!cancelled) setRatesLoading(false);
-      }
-    }
-
-    fetchRates();
-    return () => {
-      cancelled = true;
-    };
-  }, [baseCurrency]);
+  // Real daily fixings for the selected range (one request per base/range)
+  const {
+    data: series,
+    loading: seriesLoading,
+    error: seriesError,
+  } = useRateSeries(baseCurrency, range);
 
   const baseMeta: RowMeta = (() => {
     const found = ROWS.find((r) => r.code === baseCurrency);
@@ -209,22 +127,17 @@ export default function CurrencyChartsSection({
 
     const mapped = list
       .filter((row) => row.code !== baseCurrency)
-      .map((row, index) => {
-        // Prefer API rate, fallback to static crossRate
-        const apiRate = rates[row.code];
-        const fallbackRate = crossRate(baseCurrency, row.code);
-        const rate = apiRate ?? fallbackRate;
+      .map((row) => {
+        const rate = latest?.rates[row.code];
         if (rate == null) return null;
 
-        const trend = makeTrend(range, index + (inverse ? 10 : 0));
-        const changeRaw = (trend[trend.length - 1] / trend[0] - 1) * 100;
-        const changePct = Number(changeRaw.toFixed(2));
+        const points = series ? seriesFor(series, row.code) : [];
 
         return {
           ...row,
           rate,
-          changePct,
-          values: trend,
+          changePct: changePct(points),
+          values: points.map((p) => p.value),
           isFocus: row.code === focusCurrency,
         };
       })
@@ -233,7 +146,7 @@ export default function CurrencyChartsSection({
       name: string;
       flag: string;
       rate: number;
-      changePct: number;
+      changePct: number | null;
       values: number[];
       isFocus: boolean;
     }[];
@@ -246,9 +159,10 @@ export default function CurrencyChartsSection({
     });
 
     return mapped;
-  }, [baseCurrency, focusCurrency, range, inverse, rates]);
+  }, [baseCurrency, focusCurrency, latest, series]);
 
-  const visibleRows = isPreview ? rows.slice(0, 4) : rows;
+  // a snapshot only; the full board lists every pair
+  const visibleRows = rows.slice(0, 4);
 
   function handleSwapPair() {
     const prevFrom = fromCurrency;
@@ -266,17 +180,19 @@ export default function CurrencyChartsSection({
             <span className="text-slate-400">vs major currencies</span>
           </h3>
           <p className="mt-0.5 text-[11px] text-slate-400">
-            Rates pulled from frankfurter.app for your selected base. Synthetic
-            trends for portfolio visuals.
+            Rates pulled from frankfurter.app for your selected base. Trends
+            use ECB daily fixings for the selected range.
           </p>
-          {ratesError && (
-            <p className="mt-0.5 text-[10px] text-amber-400">{ratesError}</p>
+          {(ratesError || seriesError) && (
+            <p className="mt-0.5 text-[10px] text-amber-400">
+              {ratesError ?? seriesError}
+            </p>
           )}
         </div>
 
         <div className="flex flex-col items-end gap-2 text-[11px]">
           <div className="inline-flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/80 px-1.5 py-1">
-            {(["24H", "7D", "30D", "3M"] as RangeKey[]).map((key) => (
+            {RANGE_KEYS.map((key) => (
               <button
                 key={key}
                 type="button"
@@ -303,7 +219,7 @@ export default function CurrencyChartsSection({
 
             <button
               type="button"
-              onClick={() => setInverse((v) => !v)}
+              onClick={() => setInverse(!inverse)}
               className="inline-flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/70 px-2 py-1 text-[10px] text-slate-200 hover:border-sky-400"
             >
               <span className="text-[11px]">⇅</span>
@@ -311,9 +227,14 @@ export default function CurrencyChartsSection({
                 View as 1 {inverse ? fromCurrency : toCurrency} base
               </span>
             </button>
+
+            <CopyLinkButton
+              path={shareLink}
+              className="inline-flex items-center gap-1 rounded-full border border-slate-700 bg-slate-900/70 px-2 py-1 text-[10px] text-slate-200 hover:border-sky-400"
+            />
           </div>
 
-          {ratesLoading && (
+          {(ratesLoading || seriesLoading) && (
             <p className="text-[10px] text-slate-400">Refreshing rates…</p>
           )}
         </div>
@@ -322,7 +243,7 @@ export default function CurrencyChartsSection({
       {/* Rows */}
       <div className="mt-2 divide-y divide-slate-800/70 border-y border-slate-800/70">
         {visibleRows.map((row) => {
-          const positive = row.changePct >= 0;
+          const positive = (row.changePct ?? 0) >= 0;
           return (
             <div
               key={row.code}
@@ -364,11 +285,16 @@ export default function CurrencyChartsSection({
                   <div className="text-right">
                     <p
                       className={`text-[0.75rem] font-semibold ${
-                        positive ? "text-emerald-400" : "text-rose-400"
+                        row.changePct == null
+                          ? "text-slate-500"
+                          : positive
+                          ? "text-emerald-400"
+                          : "text-rose-400"
                       }`}
                     >
-                      {positive ? "+" : ""}
-                      {row.changePct.toFixed(2)}%
+                      {row.changePct == null
+                        ? "—"
+                        : `${positive ? "+" : ""}${row.changePct.toFixed(2)}%`}
                     </p>
                     <p className="text-[0.6rem] text-slate-500">{range}</p>
                   </div>
@@ -379,8 +305,8 @@ export default function CurrencyChartsSection({
         })}
       </div>
 
-      {/* CTA for preview mode */}
-      {isPreview && onOpenFull && (
+      {/* CTA to the full board */}
+      {onOpenFull && (
         <div className="mt-3 flex items-center justify-between gap-3 text-[11px]">
           <p className="text-slate-400">
             Want the full board? See all pairs and alerts on the live-rates
@@ -395,13 +321,6 @@ export default function CurrencyChartsSection({
           </button>
         </div>
       )}
-
-      {!isPreview && (
-        <p className="mt-2 text-[10px] text-slate-500">
-          Rates are fetched from frankfurter.app. Trend lines are synthetic for
-          demo purposes only.
-        </p>
-      )}
     </div>
   );
 }
@@ -1,98 +1,36 @@
 // src/pages/CurrencyConverterSection.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import { CurrencyDropdown } from "./components/CurrencyDropdown";
+import CopyLinkButton from "./components/CopyLinkButton";
+import { useRate } from "../hooks/useRates";
 
 type CurrencyConverterSectionProps = {
   fromCurrency: string;
   toCurrency: string;
   setFromCurrency: (code: string) => void;
   setToCurrency: (code: string) => void;
+  amount: number;
+  setAmount: (amount: number) => void;
+  // path the "Copy link" button shares
+  shareLink: string;
 };
 
-// simple fallback table for rate if API fails
-const SAMPLE_RATES: Record<string, number> = {
-  USD: 1.0,
-  EUR: 0.92,
-  GBP: 0.78,
-  INR: 83.1,
-  JPY: 151.2,
-  AUD: 1.52,
-  CAD: 1.37,
-};
-
-function computeFallbackCrossRate(from: string, to: string): number | null {
-  const fromRate = SAMPLE_RATES[from];
-  const toRate = SAMPLE_RATES[to];
-  if (!fromRate || !toRate) return null;
-  return (1 / fromRate) * toRate;
-}
-
 export default function CurrencyConverterSection({
   fromCurrency,
   toCurrency,
   setFromCurrency,
   setToCurrency,
+  amount,
+  setAmount,
+  shareLink,
 }: CurrencyConverterSectionProps) {
-  // 👉 initial amount is 1
-  const [amount, setAmount] = useState(1);
-
-  const [liveRate, setLiveRate] = useState<number | null>(null);
-  const [rateLoading, setRateLoading] = useState(false);
-  const [rateError, setRateError] = useState<string | null>(null);
-
-  // fetch live rate from Frankfurter on pair change
-  useEffect(() => {
-    if (fromCurrency === toCurrency) {
-      setLiveRate(1);
-      setRateLoading(false);
-      setRateError(null);
-      return;
-    }
-
-    let cancelled = false;
-
-    async function fetchRate() {
-      try {
-        setRateLoading(true);
-        setRateError(null);
-
-        const url = `https://api.frankfurter.app/latest?from=${encodeURIComponent(
-          fromCurrency
-        )}&to=${encodeURIComponent(toCurrency)}`;
-
-        const res = await fetch(url);
-        if (!res.ok) throw new Error(`API error ${res.status}`);
-        const data = await res.json();
-        const rate = data?.rates?.[toCurrency];
-
-        if (!cancelled) {
-          if (typeof rate === "number") {
-            setLiveRate(rate);
-          } else {
-            throw new Error("Missing rate field");
-          }
-        }
-      } catch (err) {
-        console.error("Frankfurter error:", err);
-        if (!cancelled) {
-          setRateError("Using sample rate (live feed unavailable).");
-          setLiveRate(null);
-        }
-      } finally {
-        if (!cancelled) setRateLoading(false);
-      }
-    }
-
-    fetchRate();
-    return () => {
-      cancelled = true;
-    };
-  }, [fromCurrency, toCurrency]);
-
-  const crossRate = useMemo(() => {
-    if (liveRate != null) return liveRate;
-    return computeFallbackCrossRate(fromCurrency, toCurrency);
-  }, [fromCurrency, toCurrency, liveRate]);
+  // shared rate service: cached, de-duplicated, falls back to sample rates
+  const {
+    rate: crossRate,
+    source: rateSource,
+    loading: rateLoading,
+    error: rateError,
+  } = useRate(fromCurrency, toCurrency);
 
   const converted = useMemo(() => {
     if (!crossRate) return null;
@@ -133,7 +71,7 @@ export default function CurrencyConverterSection({
           />
         </div>
 
-        <div className="swap-col flex justify-center pt-4 sm:pt-6">
+        <div className="swap-col flex flex-col items-center gap-2 pt-4 sm:pt-6">
           <button
             type="button"
             onClick={() => {
@@ -145,6 +83,10 @@ export default function CurrencyConverterSection({
           >
             ⇄
           </button>
+          <CopyLinkButton
+            path={shareLink}
+            className="inline-flex items-center gap-1 whitespace-nowrap rounded-full border border-slate-200 bg-white px-3 py-1 text-[10px] font-medium text-slate-700 shadow-sm hover:bg-slate-50 hover:border-sky-400"
+          />
         </div>
 
         <div className="converter-col">
@@ -186,8 +128,10 @@ export default function CurrencyConverterSection({
 
         <p className="text-[10px] text-slate-500 flex items-center justify-between">
           <span>
-            {liveRate != null
+            {rateSource === "live"
               ? "Mid-market rate from frankfurter.dev."
+              : rateSource === "stale"
+              ? "Last saved rate in use. Live feed temporarily unavailable."
               : "Sample rate in use. Live feed temporarily unavailable."}
           </span>
           <span className="text-emerald-400/80">
@@ -1,64 +1,60 @@
 // src/pages/GetAlertsSection.tsx
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { CurrencyDropdown } from "./components/CurrencyDropdown";
+import AlertConditionFields from "./components/AlertConditionFields";
+import { addAlert, validateAlertDraft } from "../services/alertStore";
+import {
+  conditionDraft,
+  describeCondition,
+  parseConditionDraft,
+  type ConditionDraft,
+} from "../services/alertConditions";
+import { useAlertEvents } from "../hooks/useAlertEngine";
+import { useRate } from "../hooks/useRates";
+import { useAlerts } from "../hooks/useAlerts";
+import { useEmailVerification } from "../hooks/useEmailVerification";
+import { needsEmailVerification } from "../services/emailVerification";
+import VerifyEmailNotice from "./components/VerifyEmailNotice";
 
 type GetAlertsSectionProps = {
   fromCurrency: string;
   toCurrency: string;
   setFromCurrency: (code: string) => void;
   setToCurrency: (code: string) => void;
+  // opens the full alert manager (edit, snooze, bulk actions)
+  onManageAlerts?: () => void;
 };
 
-type SavedAlert = {
-  id: string;
-  from: string;
-  to: string;
-  threshold: number;
-  email: string;
-  createdAt: string;
-  schedule: string[]; // ["06:00", "19:00"]
-};
-
-const ALERTS_KEY = "fxflow-demo-alerts";
-
-function loadAlerts(): SavedAlert[] {
-  try {
-    const raw = localStorage.getItem(ALERTS_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-function saveAlerts(alerts: SavedAlert[]) {
-  try {
-    localStorage.setItem(ALERTS_KEY, JSON.stringify(alerts));
-  } catch {
-    // ignore
-  }
-}
+// quick targets around the pair's current rate
+const PRESET_OFFSETS_PCT = [-0.5, 0, 0.5];
 
 export default function GetAlertsSection({
   fromCurrency,
   toCurrency,
   setFromCurrency,
   setToCurrency,
+  onManageAlerts,
 }: GetAlertsSectionProps) {
-  const [targetRate, setTargetRate] = useState<string>("");
+  const [condition, setCondition] = useState<ConditionDraft>(() =>
+    conditionDraft("crosses")
+  );
   const [email, setEmail] = useState<string>("");
   const [busy, setBusy] = useState(false);
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [existingAlerts, setExistingAlerts] = useState<SavedAlert[]>([]);
-
-  useEffect(() => {
-    setExistingAlerts(loadAlerts());
-  }, []);
+  const existingAlerts = useAlerts();
+  const { rate: currentRate } = useRate(fromCurrency, toCurrency);
+  const triggered = useAlertEvents();
+  // signed-in accounts must verify their email before creating alerts
+  const verification = useEmailVerification();
+  const unverified = needsEmailVerification(verification);
+  // signed-in alerts are synced to the account (userSync.ts)
+  const storageNote = verification.signedIn
+    ? "Synced to your account"
+    : "Saved in this browser – sign in to sync";
 
   function handleQuickPreset(preset: number) {
-    setTargetRate(preset.toFixed(4));
+    setCondition((prev) => ({ ...prev, value: preset.toFixed(4) }));
   }
 
   function handleSwap() {
@@ -67,59 +63,31 @@ export default function GetAlertsSection({
     setToCurrency(oldFrom);
   }
 
-  function validateForm(): boolean {
-    setError(null);
-
-    if (!fromCurrency || !toCurrency) {
-      setError("Please select both currencies.");
-      return false;
-    }
-    if (fromCurrency === toCurrency) {
-      setError("From and To currencies should be different.");
-      return false;
-    }
-    if (!targetRate.trim()) {
-      setError("Please enter a target rate.");
-      return false;
-    }
-    const t = Number(targetRate);
-    if (!Number.isFinite(t) || t <= 0) {
-      setError("Target rate must be a positive number.");
-      return false;
-    }
-    if (!email.trim()) {
-      setError("Please enter an email for the alert.");
-      return false;
-    }
-    if (!email.includes("@") || !email.includes(".")) {
-      setError("Please enter a valid email address.");
-      return false;
-    }
-    return true;
-  }
+  const parsedCondition = parseConditionDraft(condition);
+  const savedDescription =
+    "condition" in parsedCondition
+      ? describeCondition(parsedCondition.condition)
+      : null;
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!validateForm()) return;
+    if (unverified) return;
+
+    const draft = {
+      from: fromCurrency,
+      to: toCurrency,
+      condition,
+      email,
+    };
+    const invalid = validateAlertDraft(draft);
+    setError(invalid);
+    if (invalid) return;
 
     setBusy(true);
     setSaved(false);
 
     try {
-      const t = Number(targetRate);
-      const alert: SavedAlert = {
-        id: `${Date.now()}`,
-        from: fromCurrency,
-        to: toCurrency,
-        threshold: t,
-        email: email.trim(),
-        createdAt: new Date().toISOString(),
-        schedule: ["06:00", "19:00"],
-      };
-
-      const updated = [alert, ...existingAlerts];
-      setExistingAlerts(updated);
-      saveAlerts(updated);
+      addAlert(draft);
       setSaved(true);
     } catch {
       setError("Could not save alert. Please try again.");
@@ -143,11 +111,11 @@ export default function GetAlertsSection({
             Get email alerts
           </h2>
           <p className="mt-1 text-xs text-slate-400 max-w-sm">
-            Save a target rate and get a demo alert whenever{" "}
+            Pick a condition and get an alert whenever{" "}
             <span className="font-semibold text-sky-300">
               1 {fromCurrency} → {toCurrency}
             </span>{" "}
-            crosses your level.
+            meets it.
           </p>
         </div>
 
@@ -156,7 +124,7 @@ export default function GetAlertsSection({
             <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-400/70 opacity-75" />
             <span className="relative inline-flex h-1.5 w-1.5 rounded-full bg-emerald-400" />
           </span>
-          <span>Demo only — alerts are stored locally in your browser.</span>
+          <span>{storageNote}.</span>
         </div>
       </div>
 
@@ -184,44 +152,38 @@ export default function GetAlertsSection({
           </div>
         </div>
 
-        {/* Target rate */}
-        <div>
-          <label className="field-label block mb-1">
-            Target rate (1 {fromCurrency} → {toCurrency})
-          </label>
-          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
-            <input
-              type="number"
-              step="0.0001"
-              value={targetRate}
-              onChange={(e) => setTargetRate(e.target.value)}
-              placeholder="Enter your target rate"
-              className="flex-1 rounded-full border border-slate-700 bg-slate-950 px-4 py-2 text-xs text-slate-100 outline-none placeholder:text-slate-500 focus:border-sky-400"
-            />
-            <div className="flex flex-wrap gap-2 text-[0.65rem]">
-              <button
-                type="button"
-                onClick={() => handleQuickPreset(82.5)}
-                className="rounded-full bg-slate-900 px-3 py-1 text-slate-200 hover:bg-slate-800 border border-slate-700"
-              >
-                82.50
-              </button>
-              <button
-                type="button"
-                onClick={() => handleQuickPreset(83.0)}
-                className="rounded-full bg-slate-900 px-3 py-1 text-slate-200 hover:bg-slate-800 border border-slate-700"
-              >
-                83.00
-              </button>
-              <button
-                type="button"
-                onClick={() => handleQuickPreset(83.5)}
-                className="rounded-full bg-slate-900 px-3 py-1 text-slate-200 hover:bg-slate-800 border border-slate-700"
-              >
-                83.50
-              </button>
-            </div>
-          </div>
+        {/* Condition */}
+        <div className="space-y-2">
+          <AlertConditionFields
+            draft={condition}
+            onChange={setCondition}
+            base={fromCurrency}
+            quote={toCurrency}
+            currentRate={currentRate}
+            tone="dark"
+          />
+          {currentRate != null &&
+            (condition.type === "above" ||
+              condition.type === "below" ||
+              condition.type === "crosses") && (
+              <div className="flex flex-wrap gap-2 text-[0.65rem]">
+                {PRESET_OFFSETS_PCT.map((pct) => {
+                  const preset = currentRate * (1 + pct / 100);
+                  const offset = `${pct > 0 ? "+" : ""}${pct}%`;
+                  return (
+                    <button
+                      key={pct}
+                      type="button"
+                      onClick={() => handleQuickPreset(preset)}
+                      title={pct === 0 ? "Current rate" : offset}
+                      className="rounded-full bg-slate-900 px-3 py-1 text-slate-200 hover:bg-slate-800 border border-slate-700"
+                    >
+                      {preset.toFixed(4)}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
         </div>
 
         {/* Email */}
@@ -242,18 +204,20 @@ export default function GetAlertsSection({
             {error && <p className="text-rose-400">{error}</p>}
             {saved && !error && (
               <p className="text-emerald-400">
-                Alert saved. In a real app, we&apos;d send you an email when the
-                rate crosses {targetRate || "your level"}.
+                Alert saved. We&apos;ll email you when the rate{" "}
+                {savedDescription ?? "hits your level"}.
               </p>
             )}
           </div>
         )}
 
+        <VerifyEmailNotice />
+
         {/* Submit + existing alerts */}
         <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <button
             type="submit"
-            disabled={busy}
+            disabled={busy || unverified}
             className="inline-flex items-center justify-center rounded-full bg-gradient-to-r from-emerald-500 to-sky-500 px-5 py-2 text-[0.8rem] font-semibold text-slate-950 shadow-[0_18px_40px_rgba(34,197,94,0.55)] hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
           >
             {busy ? "Saving alert..." : "Save alert"}
@@ -264,7 +228,16 @@ export default function GetAlertsSection({
               <span className="font-semibold text-slate-200">
                 {existingAlerts.length}
               </span>{" "}
-              saved alerts in this browser.
+              saved alerts.
+              {onManageAlerts && (
+                <button
+                  type="button"
+                  onClick={onManageAlerts}
+                  className="ml-2 font-semibold text-sky-300 hover:text-sky-200"
+                >
+                  Manage all →
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -274,10 +247,10 @@ export default function GetAlertsSection({
           <div className="mt-4 rounded-2xl border border-slate-800 bg-slate-950/70 px-4 py-3 text-[0.7rem] text-slate-300">
             <div className="mb-1 flex items-center justify-between">
               <span className="font-semibold text-slate-100">
-                Your local alert log
+                Your alerts
               </span>
               <span className="text-[0.6rem] text-slate-500">
-                Stored in localStorage only
+                {storageNote}
               </span>
             </div>
             <ul className="space-y-1.5">
@@ -290,7 +263,10 @@ export default function GetAlertsSection({
                     <span className="font-semibold">
                       {a.from} → {a.to}
                     </span>{" "}
-                    @ {a.threshold.toFixed(4)} for {a.email}
+                    {describeCondition(a.condition)} for {a.email}
+                    {!a.active && (
+                      <span className="text-slate-500"> · paused</span>
+                    )}
                   </span>
                   <span className="text-[0.6rem] text-slate-500">
                     {new Date(a.createdAt).toLocaleString(undefined, {
@@ -299,7 +275,7 @@ export default function GetAlertsSection({
                       hour: "2-digit",
                       minute: "2-digit",
                     })}{" "}
-                    · {a.schedule.join(", ")}
+                    · checks at {a.schedule.join(", ")}
                   </span>
                 </li>
               ))}
@@ -311,6 +287,46 @@ export default function GetAlertsSection({
             </ul>
           </div>
         )}
+
+        {/* Triggered events from the scheduled checks */}
+        {triggered.length > 0 && (
+          <div className="rounded-2xl border border-emerald-500/30 bg-emerald-950/20 px-4 py-3 text-[0.7rem] text-slate-300">
+            <div className="mb-1 flex items-center justify-between">
+              <span className="font-semibold text-emerald-300">
+                Recently triggered
+              </span>
+              <span className="text-[0.6rem] text-slate-500">
+                Checked at each alert&apos;s times while the app is open
+              </span>
+            </div>
+            <ul className="space-y-1.5">
+              {triggered.slice(0, 3).map((ev) => (
+                <li
+                  key={ev.id}
+                  className="flex flex-wrap items-center justify-between gap-2"
+                >
+                  <span>
+                    <span className="font-semibold">
+                      {ev.from} → {ev.to}
+                    </span>{" "}
+                    {describeCondition(ev.condition)} · now{" "}
+                    {ev.rate.toFixed(4)}
+                    {ev.changePct != null &&
+                      ` (${ev.changePct > 0 ? "+" : ""}${ev.changePct}%)`}
+                  </span>
+                  <span className="text-[0.6rem] text-slate-500">
+                    {new Date(ev.triggeredAt).toLocaleString(undefined, {
+                      month: "short",
+                      day: "2-digit",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </form>
     </section>
   );
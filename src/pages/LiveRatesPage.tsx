@@ -1,9 +1,10 @@
 // src/pages/LiveRatesPage.tsx
-import { useState } from "react";
-import Navbar from "./components/Navbar";
-import CurrencyChartsSection from "./CurrencyChartsSection";
+import Navbar, { type MainTab } from "./components/Navbar";
+import CurrencyChartsFullPage from "./CurrencyChartsFullPage";
+import { paths, type BoardParams } from "../services/routes";
 
 type UserProfile = {
+  uid: string;
   email: string;
   displayName: string;
   avatarUrl: string | null;
@@ -17,30 +18,48 @@ type LiveRatesPageProps = {
   user: UserProfile | null;
   // when user clicks "Currency converter" or "Get alerts" in navbar
   onBackToMain: () => void;
+  onOpenPairChart: (base: string, quote: string) => void;
+  // board state from the URL; changes are written back to it
+  board: BoardParams;
+  onBoardChange: (patch: BoardParams) => void;
   theme: ThemeMode;
   onToggleTheme: () => void;
 };
 
+/** The full FX board (/charts) under the regular navbar. */
 export default function LiveRatesPage({
   onLogout,
   onOpenProfile,
   user,
   onBackToMain,
+  onOpenPairChart,
+  board,
+  onBoardChange,
   theme,
   onToggleTheme,
 }: LiveRatesPageProps) {
-  const [fromCurrency, setFromCurrency] = useState("USD");
-  const [toCurrency, setToCurrency] = useState("INR");
+  const isDark = theme === "dark";
+
+  const fromCurrency = board.from ?? "USD";
+  const toCurrency = board.to ?? "INR";
+  const range = board.range ?? "24H";
+  const inverse = board.inverse ?? false;
 
   // In this page, navbar's active tab is always "charts"
-  function handleTabChange(tab: "converter" | "charts" | "alerts") {
+  function handleTabChange(tab: MainTab) {
     if (tab === "charts") return; // already here
     // for converter/alerts, send them back to the main dashboard
     onBackToMain();
   }
 
   return (
-    <div className="min-h-screen flex flex-col bg-slate-950 text-slate-50">
+    <div
+      className={
+        isDark
+          ? "min-h-screen flex flex-col bg-slate-950 text-slate-50"
+          : "min-h-screen flex flex-col bg-slate-50 text-slate-900"
+      }
+    >
       <Navbar
         activeTab="charts"
         onTabChange={handleTabChange}
@@ -48,30 +67,37 @@ export default function LiveRatesPage({
         onOpenProfile={onOpenProfile}
         onLogout={onLogout}
         // already on full charts page, so no onOpenChartsFull handler
+        onOpenPairChart={onOpenPairChart}
         theme={theme}
         onToggleTheme={onToggleTheme}
       />
 
-      <main className="flex-1 bg-slate-100 dark:bg-slate-950">
-        <section className="hiw-section">
-          <div className="hiw-inner">
-            <h2 className="hiw-title">Live exchange rates</h2>
-            <p className="hiw-subtitle">
-              Full view of your demo rate table. Later, connect this to your
-              live FX API and watchlist storage.
-            </p>
+      <main className="flex-1">
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <h1 className="mb-6 text-center text-2xl font-bold tracking-tight">
+            Live exchange rates
+          </h1>
 
-            <div className="mt-4 chart-card">
-              <CurrencyChartsSection
-                fromCurrency={fromCurrency}
-                toCurrency={toCurrency}
-                setFromCurrency={setFromCurrency}
-                setToCurrency={setToCurrency}
-                mode="full" // full list, not preview
-              />
-            </div>
-          </div>
-        </section>
+          <CurrencyChartsFullPage
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
+            setFromCurrency={(from) => onBoardChange({ from })}
+            setToCurrency={(to) => onBoardChange({ to })}
+            range={range}
+            setRange={(next) => onBoardChange({ range: next })}
+            inverse={inverse}
+            setInverse={(next) => onBoardChange({ inverse: next })}
+            shareLink={paths.chartsFull({
+              from: fromCurrency,
+              to: toCurrency,
+              range,
+              inverse,
+            })}
+            onOpenPairChart={onOpenPairChart}
+            userId={user?.uid ?? null}
+            userEmail={user?.email}
+          />
+        </div>
       </main>
     </div>
   );
@@ -1,17 +1,34 @@
 // src/pages/LoginPage.tsx
 import React, { useState } from "react";
+import type { MultiFactorResolver } from "firebase/auth";
 import {
   auth,
   signInWithEmailAndPassword,
   signInWithPopup,
   googleProvider,
 } from "../firebase";
+import ForgotPasswordPanel from "./components/ForgotPasswordPanel";
+import MfaChallengePanel from "./components/MfaChallengePanel";
+import { mfaChallengeFrom } from "../services/mfa";
+import { checkVerificationOnSignIn } from "../services/emailVerification";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginMethod,
+} from "../services/loginHistory";
 
 type LoginPageProps = {
   onLogin?: () => void;
   onGoToRegister?: () => void;
 };
 
+// the account a Google attempt was for: Firebase names it for some errors,
+// otherwise fall back to what's typed in the email field
+function googleAttemptEmail(err: unknown, typed: string): string {
+  const data = (err as { customData?: { email?: string } })?.customData;
+  return data?.email ?? typed;
+}
+
 export default function LoginPage({
   onLogin,
   onGoToRegister,
@@ -20,6 +37,14 @@ export default function LoginPage({
   const [password, setPassword] = useState("");
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [resetting, setResetting] = useState(false);
+  // set when the account needs a second factor to finish signing in
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(
+    null
+  );
+  const [mfaMethod, setMfaMethod] = useState<LoginMethod>("password");
+  // the account a failed second factor is recorded for
+  const [mfaEmail, setMfaEmail] = useState("");
 
   async function handleEmailLogin(e: React.FormEvent) {
     e.preventDefault();
@@ -33,18 +58,36 @@ export default function LoginPage({
     try {
       setBusy(true);
       await signInWithEmailAndPassword(auth, email, password);
+      void recordLoginSuccess("password");
+      // unverified accounts get a fresh link; the dashboard shows the notice
+      await checkVerificationOnSignIn();
       if (onLogin) onLogin();
     } catch (err: any) {
+      const challenge = mfaChallengeFrom(err);
+      if (challenge) {
+        setMfaResolver(challenge);
+        setMfaMethod("password");
+        setMfaEmail(email);
+        return;
+      }
       console.error("Email login error", err);
+      let message: string;
       if (err.code === "auth/user-not-found") {
-        setError("No account found with this email.");
+        message = "No account found with this email.";
       } else if (err.code === "auth/wrong-password") {
-        setError("Incorrect password, please try again.");
+        message = "Incorrect password, please try again.";
+      } else if (err.code === "auth/invalid-credential") {
+        message = "Incorrect email or password. Forgot your password?";
       } else if (err.code === "auth/invalid-email") {
-        setError("Please enter a valid email address.");
+        message = "Please enter a valid email address.";
+      } else if (err.code === "auth/too-many-requests") {
+        message =
+          "Too many failed attempts. Reset your password or try again later.";
       } else {
-        setError("Unable to sign in. Please try again.");
+        message = "Unable to sign in. Please try again.";
       }
+      setError(message);
+      recordLoginFailure(email, "password", message);
     } finally {
       setBusy(false);
     }
@@ -55,10 +98,27 @@ export default function LoginPage({
     try {
       setBusy(true);
       await signInWithPopup(auth, googleProvider);
+      void recordLoginSuccess("google");
       if (onLogin) onLogin();
     } catch (err) {
+      const challenge = mfaChallengeFrom(err);
+      if (challenge) {
+        setMfaResolver(challenge);
+        setMfaMethod("google");
+        setMfaEmail(googleAttemptEmail(err, email));
+        return;
+      }
       console.error("Google login error", err);
+      const code = (err as { code?: string })?.code;
+      const cancelled =
+        code === "auth/popup-closed-by-user" ||
+        code === "auth/cancelled-popup-request";
       setError("Google sign-in was cancelled or failed. Please try again.");
+      recordLoginFailure(
+        googleAttemptEmail(err, email),
+        "google",
+        cancelled ? "Google sign-in was cancelled." : "Google sign-in failed."
+      );
     } finally {
       setBusy(false);
     }
@@ -236,113 +296,144 @@ export default function LoginPage({
         {/* Right login card */}
         <section className="mt-4 w-full max-w-xl max-h-xl flex-1 md:mt-0">
           <div className="rounded-3xl bg-white p-6 shadow-[0_18px_45px_rgba(15,23,42,0.16)] ring-1 ring-slate-200">
-            <h2 className="text-xl font-semibold tracking-tight text-slate-900">
-              Welcome back
-            </h2>
-            <p className="mt-1 text-sm text-slate-500">
-              Sign in with your email or continue with Google.
-            </p>
+            {mfaResolver ? (
+              <MfaChallengePanel
+                resolver={mfaResolver}
+                onSignedIn={async () => {
+                  void recordLoginSuccess(mfaMethod, { mfa: true });
+                  if (mfaMethod === "password") {
+                    await checkVerificationOnSignIn();
+                  }
+                  if (onLogin) onLogin();
+                }}
+                onFailed={(message) => {
+                  recordLoginFailure(mfaEmail, mfaMethod, message);
+                }}
+                onCancel={() => {
+                  setMfaResolver(null);
+                  setPassword("");
+                }}
+              />
+            ) : resetting ? (
+              <ForgotPasswordPanel
+                initialEmail={email}
+                onBack={() => setResetting(false)}
+              />
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold tracking-tight text-slate-900">
+                  Welcome back
+                </h2>
+                <p className="mt-1 text-sm text-slate-500">
+                  Sign in with your email or continue with Google.
+                </p>
 
-            {/* Error banner */}
-            {error && (
-              <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
-                {error}
-              </div>
-            )}
+                {/* Error banner */}
+                {error && (
+                  <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+                    {error}
+                  </div>
+                )}
 
-            <form className="mt-4 space-y-4" onSubmit={handleEmailLogin}>
-              <div className="space-y-1.5">
-                <label
-                  htmlFor="email"
-                  className="text-sm font-medium text-slate-700"
-                >
-                  Email
-                </label>
-                <input
-                  id="email"
-                  type="email"
-                  autoComplete="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-md text-slate-900 shadow-md outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-                  // placeholder="you@example.com"
-                />
-              </div>
+                <form className="mt-4 space-y-4" onSubmit={handleEmailLogin}>
+                  <div className="space-y-1.5">
+                    <label
+                      htmlFor="email"
+                      className="text-sm font-medium text-slate-700"
+                    >
+                      Email
+                    </label>
+                    <input
+                      id="email"
+                      type="email"
+                      autoComplete="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-md text-slate-900 shadow-md outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                      // placeholder="you@example.com"
+                    />
+                  </div>
 
-              <div className="space-y-1.5">
-                <label
-                  htmlFor="password"
-                  className="text-sm font-medium text-slate-700"
-                >
-                  Password
-                </label>
-                <input
-                  id="password"
-                  type="password"
-                  autoComplete="current-password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-md text-slate-900 shadow-md outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-                  // placeholder="••••••••"
-                />
-              </div>
+                  <div className="space-y-1.5">
+                    <label
+                      htmlFor="password"
+                      className="text-sm font-medium text-slate-700"
+                    >
+                      Password
+                    </label>
+                    <input
+                      id="password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-md text-slate-900 shadow-md outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                      // placeholder="••••••••"
+                    />
+                  </div>
 
-              <button
-                type="submit"
-                disabled={busy}
-                className="mt-2 inline-flex w-full items-center justify-center rounded-lg bg-sky-600 px-4 py-3.5 text-2xl font-medium text-white shadow-md transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
-              >
-                {busy ? "Signing in..." : "Sign in"}
-              </button>
-            </form>
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className="mt-2 inline-flex w-full items-center justify-center rounded-lg bg-sky-600 px-4 py-3.5 text-2xl font-medium text-white shadow-md transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    {busy ? "Signing in..." : "Sign in"}
+                  </button>
+                </form>
 
-            <div className="mt-4 flex items-center gap-3">
-              <div className="h-px flex-1 bg-slate-200" />
-              <span className="text-[0.65rem] uppercase text-slate-400">
-                or
-              </span>
-              <div className="h-px flex-1 bg-slate-200" />
-            </div>
+                <div className="mt-4 flex items-center gap-3">
+                  <div className="h-px flex-1 bg-slate-200" />
+                  <span className="text-[0.65rem] uppercase text-slate-400">
+                    or
+                  </span>
+                  <div className="h-px flex-1 bg-slate-200" />
+                </div>
 
-            <button
-              type="button"
-              onClick={handleGoogleLogin}
-              disabled={busy}
-              className="mt-3 inline-flex w-full items-center justify-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-md font-medium text-slate-800 shadow-md transition hover:border-sky-500 hover:text-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
-            >
-              <span className="inline-flex h-5 w-5 items-center justify-center rounded bg-white">
-                <svg
-                  viewBox="0 0 24 24"
-                  className="h-4 w-4"
-                  aria-hidden="true"
+                <button
+                  type="button"
+                  onClick={handleGoogleLogin}
+                  disabled={busy}
+                  className="mt-3 inline-flex w-full items-center justify-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-md font-medium text-slate-800 shadow-md transition hover:border-sky-500 hover:text-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
                 >
-                  <path
-                    fill="#EA4335"
-                    d="M12 10.2v3.9h5.4c-.2 1.2-.9 2.3-2 3.1l3.3 2.6c1.9-1.8 3-4.4 3-7.5 0-.7-.1-1.4-.2-2.1H12z"
-                  />
-                  <path
-                    fill="#34A853"
-                    d="M6.6 14.3 5.9 14.8l-2.6 2C5.1 19.9 8.3 21.8 12 21.8c2.7 0 5-.9 6.6-2.5l-3.3-2.6c-.9.6-2 1-3.3 1-2.5 0-4.6-1.7-5.4-4z"
-                  />
-                  <path
-                    fill="#4A90E2"
-                    d="M3.3 8.1C2.7 9.4 2.4 10.7 2.4 12s.3 2.6.9 3.9c.8-2.3 2.9-4 5.4-4.1V7.4H7.2c-1.8 0-3.3 1-3.9 2.4z"
-                  />
-                  <path
-                    fill="#FBBC05"
-                    d="M12 5.5c1.5 0 2.8.5 3.8 1.4l2.8-2.8C16.9 2.4 14.7 1.5 12 1.5 8.3 1.5 5.1 3.4 3.3 6.1L6.3 8c.7-2.3 2.9-3.9 5.7-3.9z"
-                  />
-                </svg>
-              </span>
-              <span>Continue with Google</span>
-            </button>
+                  <span className="inline-flex h-5 w-5 items-center justify-center rounded bg-white">
+                    <svg
+                      viewBox="0 0 24 24"
+                      className="h-4 w-4"
+                      aria-hidden="true"
+                    >
+                      <path
+                        fill="#EA4335"
+                        d="M12 10.2v3.9h5.4c-.2 1.2-.9 2.3-2 3.1l3.3 2.6c1.9-1.8 3-4.4 3-7.5 0-.7-.1-1.4-.2-2.1H12z"
+                      />
+                      <path
+                        fill="#34A853"
+                        d="M6.6 14.3 5.9 14.8l-2.6 2C5.1 19.9 8.3 21.8 12 21.8c2.7 0 5-.9 6.6-2.5l-3.3-2.6c-.9.6-2 1-3.3 1-2.5 0-4.6-1.7-5.4-4z"
+                      />
+                      <path
+                        fill="#4A90E2"
+                        d="M3.3 8.1C2.7 9.4 2.4 10.7 2.4 12s.3 2.6.9 3.9c.8-2.3 2.9-4 5.4-4.1V7.4H7.2c-1.8 0-3.3 1-3.9 2.4z"
+                      />
+                      <path
+                        fill="#FBBC05"
+                        d="M12 5.5c1.5 0 2.8.5 3.8 1.4l2.8-2.8C16.9 2.4 14.7 1.5 12 1.5 8.3 1.5 5.1 3.4 3.3 6.1L6.3 8c.7-2.3 2.9-3.9 5.7-3.9z"
+                      />
+                    </svg>
+                  </span>
+                  <span>Continue with Google</span>
+                </button>
 
-            <button
-              type="button"
-              className="mt-4 block w-full text-center text-xs font-medium text-sky-600 hover:text-sky-500"
-            >
-              Forgot password?
-            </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null);
+                    setResetting(true);
+                  }}
+                  className="mt-4 block w-full text-center text-xs font-medium text-sky-600 hover:text-sky-500"
+                >
+                  Forgot password?
+                </button>
+              </>
+            )}
 
             <div className="mt-4 block text-center text-xs text-slate-500 md:hidden">
               Don&apos;t have an account?{" "}
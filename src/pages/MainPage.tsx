@@ -1,11 +1,23 @@
 // src/pages/MainPage.tsx
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState, type ReactNode } from "react";
 import CurrencyConverterSection from "./CurrencyConverterSection";
 import CurrencyChartsSection from "./CurrencyChartsSection";
 import GetAlertsSection from "./GetAlertsSection";
 import Navbar from "./components/Navbar";
+import VerifyEmailNotice from "./components/VerifyEmailNotice";
+import WatchlistBoard from "./components/WatchlistBoard";
+import { useProfileDetails } from "../hooks/useProfileDetails";
+import {
+  dashboardLayout,
+  defaultPairFor,
+  homeCurrencyFor,
+  suggestedPairs,
+  type DashboardSection,
+} from "../services/personalization";
+import { paths, type BoardParams } from "../services/routes";
 
 type UserProfile = {
+  uid: string;
   email: string;
   displayName: string;
   avatarUrl: string | null;
@@ -19,6 +31,11 @@ type MainPageProps = {
   onOpenProfile: () => void;
   user: UserProfile | null;
   onOpenChartsFull: () => void;
+  onOpenPairChart: (base: string, quote: string) => void;
+  onOpenAlertManager: () => void;
+  // converter + chart state from the URL; changes are written back to it
+  board: BoardParams;
+  onBoardChange: (patch: BoardParams) => void;
   theme: ThemeMode;
   setTheme: (mode: ThemeMode) => void;
 };
@@ -28,14 +45,38 @@ export default function MainPage({
   onOpenProfile,
   user,
   onOpenChartsFull,
+  onOpenPairChart,
+  onOpenAlertManager,
+  board,
+  onBoardChange,
   theme,
   setTheme,
 }: MainPageProps) {
-  const [activeTab, setActiveTab] = useState<MainTab>("converter");
-
-  // Shared pair for converter + charts preview + alerts
-  const [fromCurrency, setFromCurrency] = useState("USD");
-  const [toCurrency, setToCurrency] = useState("INR");
+  const profile = useProfileDetails();
+  const layout = dashboardLayout(profile.useCase);
+  const [activeTab, setActiveTab] = useState<MainTab>(layout[0]);
+
+  // Shared pair for converter + charts preview + alerts; a link's pair wins,
+  // otherwise start from the user's home currency
+  const homePair = defaultPairFor(profile.country);
+  const fromCurrency = board.from ?? homePair.base;
+  const toCurrency = board.to ?? homePair.quote;
+  const amount = board.amount ?? 1;
+  const range = board.range ?? "24H";
+  const inverse = board.inverse ?? false;
+
+  const setFromCurrency = (from: string) => onBoardChange({ from });
+  const setToCurrency = (to: string) => onBoardChange({ to });
+
+  // the whole dashboard state, so the link doesn't depend on the
+  // recipient's home currency
+  const shareLink = paths.main({
+    from: fromCurrency,
+    to: toCurrency,
+    amount,
+    range,
+    inverse,
+  });
 
   // Scroll to section when tab changes
   useEffect(() => {
@@ -58,6 +99,97 @@ export default function MainPage({
 
   const isDark = theme === "dark";
 
+  // section order follows the use case picked at registration
+  const sections: Record<DashboardSection, ReactNode> = {
+    converter: (
+      <section className="converter-section" id="converter">
+        <div className="section-inner">
+          <h2 className="section-heading">Quick converter</h2>
+          <p className="section-subheading">
+            Enter an amount, pick your currencies, and get a live-style
+            conversion using frankfurter.dev data (demo only).
+          </p>
+
+          <div className="converter-card">
+            <CurrencyConverterSection
+              fromCurrency={fromCurrency}
+              toCurrency={toCurrency}
+              setFromCurrency={setFromCurrency}
+              setToCurrency={setToCurrency}
+              amount={amount}
+              setAmount={(next) => onBoardChange({ amount: next })}
+              shareLink={shareLink}
+            />
+          </div>
+        </div>
+      </section>
+    ),
+    charts: (
+      <section className="hiw-section" id="charts">
+        <div className="hiw-inner">
+          <h2 className="hiw-title">Currency charts snapshot</h2>
+          <p className="hiw-subtitle">
+            See how your base currency moves against a small basket, then jump
+            into the full board for deeper exploration.
+          </p>
+
+          <div className="chart-card">
+            <CurrencyChartsSection
+              fromCurrency={fromCurrency}
+              toCurrency={toCurrency}
+              setFromCurrency={setFromCurrency}
+              setToCurrency={setToCurrency}
+              range={range}
+              setRange={(next) => onBoardChange({ range: next })}
+              inverse={inverse}
+              setInverse={(next) => onBoardChange({ inverse: next })}
+              shareLink={shareLink}
+              onOpenFull={onOpenChartsFull}
+            />
+          </div>
+
+          {/* WATCHLIST */}
+          <div
+            className={`mt-6 rounded-3xl border p-4 shadow ${
+              isDark
+                ? "border-slate-800 bg-slate-950/90"
+                : "border-slate-200 bg-white"
+            }`}
+          >
+            <WatchlistBoard
+              userId={user?.uid}
+              tone={theme}
+              onOpenPair={onOpenPairChart}
+              suggestions={suggestedPairs(homeCurrencyFor(profile.country))}
+            />
+          </div>
+        </div>
+      </section>
+    ),
+    alerts: (
+      <section className="alerts-section" id="alerts">
+        <div className="alerts-inner">
+          <h2 className="section-heading">Get email-style alerts</h2>
+          <p className="section-subheading">
+            Save alerts for your favorite FX levels. We check them on
+            schedule and email you (and any webhooks you add) when they
+            trigger.
+          </p>
+
+          <div className="alert-card">
+            <GetAlertsSection
+              fromCurrency={fromCurrency}
+              toCurrency={toCurrency}
+              setFromCurrency={setFromCurrency}
+              setToCurrency={setToCurrency}
+              onManageAlerts={onOpenAlertManager}
+            />
+          </div>
+        </div>
+      </section>
+    ),
+  };
+
   return (
     <div
       className={
@@ -73,6 +205,7 @@ export default function MainPage({
         onOpenProfile={onOpenProfile}
         onLogout={onLogout}
         onOpenChartsFull={onOpenChartsFull}
+        onOpenPairChart={onOpenPairChart}
         theme={theme}
         onToggleTheme={() =>
           setTheme(isDark ? "light" : ("dark" as ThemeMode))
@@ -80,6 +213,8 @@ export default function MainPage({
       />
 
       <main className="flex flex-col">
+        <VerifyEmailNotice className="mx-4 mt-4 md:mx-auto md:w-full md:max-w-6xl" />
+
         {/* HERO */}
         <section className="hero">
           <div className="hero-inner px-4">
@@ -100,68 +235,9 @@ export default function MainPage({
           </div>
         </section>
 
-        {/* QUICK CONVERTER */}
-        <section className="converter-section" id="converter">
-          <div className="section-inner">
-            <h2 className="section-heading">Quick converter</h2>
-            <p className="section-subheading">
-              Enter an amount, pick your currencies, and get a live-style
-              conversion using frankfurter.dev data (demo only).
-            </p>
-
-            <div className="converter-card">
-              <CurrencyConverterSection
-                fromCurrency={fromCurrency}
-                toCurrency={toCurrency}
-                setFromCurrency={setFromCurrency}
-                setToCurrency={setToCurrency}
-              />
-            </div>
-          </div>
-        </section>
-
-        {/* CHARTS PREVIEW */}
-        <section className="hiw-section" id="charts">
-          <div className="hiw-inner">
-            <h2 className="hiw-title">Currency charts snapshot</h2>
-            <p className="hiw-subtitle">
-              See how your base currency moves against a small basket, then jump
-              into the full board for deeper exploration.
-            </p>
-
-            <div className="chart-card">
-              <CurrencyChartsSection
-                fromCurrency={fromCurrency}
-                toCurrency={toCurrency}
-                setFromCurrency={setFromCurrency}
-                setToCurrency={setToCurrency}
-                mode="preview"
-                onOpenFull={onOpenChartsFull}
-              />
-            </div>
-          </div>
-        </section>
-
-        {/* ALERTS */}
-        <section className="alerts-section" id="alerts">
-          <div className="alerts-inner">
-            <h2 className="section-heading">Get email-style alerts</h2>
-            <p className="section-subheading">
-              Save demo alerts for your favorite FX levels. We keep them in your
-              browser&apos;s local storage—no real emails, just the logic for
-              your portfolio project.
-            </p>
-
-            <div className="alert-card">
-              <GetAlertsSection
-                fromCurrency={fromCurrency}
-                toCurrency={toCurrency}
-                setFromCurrency={setFromCurrency}
-                setToCurrency={setToCurrency}
-              />
-            </div>
-          </div>
-        </section>
+        {layout.map((id) => (
+          <Fragment key={id}>{sections[id]}</Fragment>
+        ))}
       </main>
     </div>
   );
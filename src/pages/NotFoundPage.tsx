@@ -0,0 +1,54 @@
+// src/pages/NotFoundPage.tsx
+
+type NotFoundPageProps = {
+  path: string;
+  theme: "light" | "dark";
+  onGoHome: () => void;
+};
+
+export default function NotFoundPage({
+  path,
+  theme,
+  onGoHome,
+}: NotFoundPageProps) {
+  const isDark = theme === "dark";
+
+  return (
+    <div
+      className={`min-h-screen flex items-center justify-center px-4 ${
+        isDark ? "bg-slate-950 text-slate-50" : "bg-white text-slate-900"
+      }`}
+    >
+      <div
+        className={`w-full max-w-md rounded-3xl border p-8 text-center shadow ${
+          isDark
+            ? "border-slate-800 bg-[#06101f]"
+            : "border-slate-200 bg-white/95"
+        }`}
+      >
+        <p className="text-[0.7rem] font-semibold uppercase tracking-[0.26em] text-sky-500">
+          404
+        </p>
+        <h1 className="mt-2 text-2xl font-semibold tracking-tight">
+          Page not found
+        </h1>
+        <p
+          className={`mt-2 text-sm ${
+            isDark ? "text-slate-400" : "text-slate-500"
+          }`}
+        >
+          There&apos;s nothing at{" "}
+          <code className="break-all font-mono text-xs">{path}</code>. The
+          link may be old or mistyped.
+        </p>
+        <button
+          type="button"
+          onClick={onGoHome}
+          className="mt-6 rounded-full bg-sky-600 px-5 py-2 text-sm font-medium text-white hover:bg-sky-700"
+        >
+          Back to dashboard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+// src/pages/PairChartPage.tsx
+import { useMemo, useState } from "react";
+import PairChart, { type ChartScale } from "./components/PairChart";
+import IndicatorControls from "./components/IndicatorControls";
+import IndicatorPanel from "./components/IndicatorPanel";
+import type { ChartOverlay } from "./components/chartSetup";
+import { useRateSeries } from "../hooks/useRates";
+import CopyLinkButton from "./components/CopyLinkButton";
+import {
+  indicatorsFromParam,
+  indicatorsToParam,
+  useIndicatorSettings,
+  type IndicatorKey,
+  type IndicatorSettings,
+} from "../hooks/useIndicatorSettings";
+import { paths } from "../services/routes";
+import {
+  CHART_RANGE_KEYS,
+  changePct,
+  seriesFor,
+  type ChartRangeKey,
+} from "../services/rateService";
+import {
+  bollinger,
+  ema,
+  macd,
+  rollingVolatility,
+  rsi,
+  sma,
+} from "../services/indicators";
+
+type PairChartPageProps = {
+  base: string;
+  quote: string;
+  range: ChartRangeKey;
+  onRangeChange: (range: ChartRangeKey) => void;
+  // indicators from the link (`ind` query), overriding the saved ones
+  sharedIndicators: string | null;
+  onIndicatorsChange: (param: string) => void;
+  // flips the pair (e.g. USD/INR → INR/USD)
+  onSwapPair: () => void;
+  theme: "light" | "dark";
+};
+
+export default function PairChartPage({
+  base,
+  quote,
+  range,
+  onRangeChange,
+  sharedIndicators,
+  onIndicatorsChange,
+  onSwapPair,
+  theme,
+}: PairChartPageProps) {
+  const [scale, setScale] = useState<ChartScale>("linear");
+
+  const { data: series, loading, error } = useRateSeries(base, range, quote);
+
+  const points = useMemo(
+    () => (series ? seriesFor(series, quote) : []),
+    [series, quote]
+  );
+
+  const stats = useMemo(() => {
+    if (points.length === 0) return null;
+    const values = points.map((p) => p.value);
+    return {
+      last: values[values.length - 1],
+      high: Math.max(...values),
+      low: Math.min(...values),
+      change: changePct(points),
+      from: points[0].date,
+      to: points[points.length - 1].date,
+    };
+  }, [points]);
+
+  const positive = (stats?.change ?? 0) >= 0;
+
+  // Indicator toggles/periods are remembered per pair; a shared link's
+  // own set wins until the user changes something
+  const { settings: saved, save: saveIndicators } = useIndicatorSettings(
+    base,
+    quote
+  );
+  const shared = useMemo(
+    () => indicatorsFromParam(sharedIndicators),
+    [sharedIndicators]
+  );
+  const indicators = shared ?? saved;
+
+  function updateIndicator<K extends IndicatorKey>(
+    key: K,
+    patch: Partial<IndicatorSettings[K]>
+  ) {
+    const next = { ...indicators, [key]: { ...indicators[key], ...patch } };
+    saveIndicators(next);
+    onIndicatorsChange(indicatorsToParam(next));
+  }
+
+  const labels = useMemo(() => points.map((p) => p.date), [points]);
+
+  const overlays = useMemo(() => {
+    const values = points.map((p) => p.value);
+    const out: ChartOverlay[] = [];
+    if (indicators.sma.enabled) {
+      out.push({
+        label: `SMA ${indicators.sma.period}`,
+        values: sma(values, indicators.sma.period),
+        color: "#f59e0b",
+      });
+    }
+    if (indicators.ema.enabled) {
+      out.push({
+        label: `EMA ${indicators.ema.period}`,
+        values: ema(values, indicators.ema.period),
+        color: "#a855f7",
+      });
+    }
+    if (indicators.bollinger.enabled) {
+      const { period, multiplier } = indicators.bollinger;
+      const bands = bollinger(values, period, multiplier);
+      out.push(
+        // upper fills down to the lower band (next dataset)
+        {
+          label: `BB upper (${period}, ${multiplier}σ)`,
+          values: bands.upper,
+          color: "#38bdf8",
+          dashed: true,
+          fill: "+1",
+        },
+        {
+          label: "BB lower",
+          values: bands.lower,
+          color: "#38bdf8",
+          dashed: true,
+        }
+      );
+    }
+    return out;
+  }, [points, indicators.sma, indicators.ema, indicators.bollinger]);
+
+  const subPanels = useMemo(() => {
+    const values = points.map((p) => p.value);
+    const panels: {
+      key: string;
+      title: string;
+      lines: ChartOverlay[];
+      guides?: number[];
+      yMin?: number;
+      yMax?: number;
+      digits?: number;
+    }[] = [];
+
+    if (indicators.rsi.enabled) {
+      panels.push({
+        key: "rsi",
+        title: `RSI (${indicators.rsi.period})`,
+        lines: [
+          {
+            label: "RSI",
+            values: rsi(values, indicators.rsi.period),
+            color: "#f472b6",
+          },
+        ],
+        guides: [30, 70],
+        yMin: 0,
+        yMax: 100,
+      });
+    }
+    if (indicators.macd.enabled) {
+      const { fast, slow, signal } = indicators.macd;
+      const result = macd(values, fast, slow, signal);
+      panels.push({
+        key: "macd",
+        title: `MACD (${fast}, ${slow}, ${signal})`,
+        lines: [
+          { label: "MACD", values: result.macd, color: "#22d3ee" },
+          { label: "Signal", values: result.signal, color: "#f97316" },
+          {
+            label: "Histogram",
+            values: result.histogram,
+            color: "#94a3b8",
+            fill: "origin",
+          },
+        ],
+        guides: [0],
+        digits: 5,
+      });
+    }
+    if (indicators.volatility.enabled) {
+      panels.push({
+        key: "volatility",
+        title: `Rolling volatility (${indicators.volatility.window}d, annualised %)`,
+        lines: [
+          {
+            label: "Volatility %",
+            values: rollingVolatility(values, indicators.volatility.window),
+            color: "#eab308",
+          },
+        ],
+      });
+    }
+    return panels;
+  }, [points, indicators.rsi, indicators.macd, indicators.volatility]);
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white/95 px-4 py-4 shadow-[0_26px_70px_rgba(15,23,42,0.12)] dark:border-slate-800 dark:bg-slate-950/90 dark:shadow-[0_30px_80px_rgba(15,23,42,0.9)]">
+      {/* Header */}
+      <div className="flex flex-col gap-4 border-b border-slate-200 pb-4 dark:border-slate-800 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.22em] text-slate-500 dark:text-slate-400">
+            Pair chart · daily fixings
+          </p>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-50">
+            {base}/{quote}
+          </h2>
+          {stats && (
+            <div className="flex items-baseline gap-3">
+              <span className="text-2xl font-semibold text-slate-900 dark:text-slate-50">
+                {stats.last.toFixed(4)}
+              </span>
+              {stats.change != null && (
+                <span
+                  className={`text-sm font-semibold ${
+                    positive ? "text-emerald-500" : "text-rose-400"
+                  }`}
+                >
+                  {positive ? "+" : ""}
+                  {stats.change.toFixed(2)}% · {range}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col items-end gap-2 text-xs">
+          <div className="inline-flex flex-wrap items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-1.5 py-1 text-[10px] text-slate-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-200">
+            {CHART_RANGE_KEYS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => onRangeChange(key)}
+                className={`rounded-full px-2 py-0.5 ${
+                  range === key
+                    ? "bg-sky-500 text-white"
+                    : "text-slate-600 hover:text-sky-600 dark:text-slate-300 dark:hover:text-sky-300"
+                }`}
+              >
+                {key}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-1.5 py-1 text-[10px] dark:border-slate-700 dark:bg-slate-900/80">
+              {(["linear", "logarithmic"] as ChartScale[]).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setScale(key)}
+                  className={`rounded-full px-2 py-0.5 ${
+                    scale === key
+                      ? "bg-sky-500 text-white"
+                      : "text-slate-600 hover:text-sky-600 dark:text-slate-300 dark:hover:text-sky-300"
+                  }`}
+                >
+                  {key === "linear" ? "Linear" : "Log"}
+                </button>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={onSwapPair}
+              className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-[10px] text-slate-700 hover:border-sky-500 hover:text-sky-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-100 dark:hover:border-sky-300"
+            >
+              <span className="text-[11px]">⇅</span>
+              <span>
+                View as {quote}/{base}
+              </span>
+            </button>
+
+            <CopyLinkButton
+              path={paths.pairChart(
+                base,
+                quote,
+                range,
+                indicatorsToParam(indicators)
+              )}
+              className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-[10px] text-slate-700 hover:border-sky-500 hover:text-sky-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-100 dark:hover:border-sky-300"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="mt-4">
+        {loading && points.length === 0 && (
+          <p className="py-16 text-center text-[0.8rem] text-slate-500 dark:text-slate-400">
+            Loading {range} history for {base}/{quote}…
+          </p>
+        )}
+
+        {!loading && points.length === 0 && (
+          <p className="py-16 text-center text-[0.8rem] text-rose-400">
+            {error ?? `No history available for ${base}/${quote}.`}
+          </p>
+        )}
+
+        <div className="mb-3">
+          <IndicatorControls
+            settings={indicators}
+            onChange={updateIndicator}
+          />
+        </div>
+
+        {points.length > 0 && (
+          <PairChart
+            base={base}
+            quote={quote}
+            points={points}
+            scale={scale}
+            theme={theme}
+            overlays={overlays}
+          />
+        )}
+
+        {points.length > 0 && subPanels.length > 0 && (
+          <div className="mt-3 space-y-2">
+            {subPanels.map(({ key, ...panel }) => (
+              <IndicatorPanel
+                key={key}
+                labels={labels}
+                theme={theme}
+                {...panel}
+              />
+            ))}
+          </div>
+        )}
+
+        {error && points.length > 0 && (
+          <p className="mt-2 text-[10px] text-amber-500">{error}</p>
+        )}
+      </div>
+
+      {/* Range stats */}
+      {stats && (
+        <dl className="mt-4 grid grid-cols-2 gap-3 text-xs sm:grid-cols-4">
+          {[
+            { label: "High", value: stats.high.toFixed(4) },
+            { label: "Low", value: stats.low.toFixed(4) },
+            { label: "From", value: stats.from },
+            { label: "To", value: stats.to },
+          ].map((item) => (
+            <div
+              key={item.label}
+              className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2 dark:border-slate-800 dark:bg-slate-900/70"
+            >
+              <dt className="text-[10px] uppercase tracking-[0.16em] text-slate-500 dark:text-slate-400">
+                {item.label}
+              </dt>
+              <dd className="mt-0.5 font-semibold text-slate-900 dark:text-slate-50">
+                {item.value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <p className="mt-3 text-[10px] text-slate-500 dark:text-slate-400">
+        ECB reference rates via frankfurter.app, one fixing per business day.
+        History starts in January 1999.
+      </p>
+    </section>
+  );
+}
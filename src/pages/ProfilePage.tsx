@@ -1,83 +1,73 @@
 // src/pages/ProfilePage.tsx
-import React, { useMemo, useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import type { MultiFactorResolver } from "firebase/auth";
 import {
   Activity,
   Bell,
   ShieldCheck,
-  Smartphone,
   LogOut,
+  Settings,
 } from "lucide-react";
 import type { UserProfile } from "../App";
+import { useRate } from "../hooks/useRates";
+import { useAlerts } from "../hooks/useAlerts";
+import { useProfileDetails } from "../hooks/useProfileDetails";
+import { saveProfileDetails } from "../services/profileDetails";
+import {
+  COUNTRIES,
+  USE_CASES,
+  homeCurrencyFor,
+  suggestedPairs,
+  type UseCase,
+} from "../services/personalization";
+import { setAlertActive } from "../services/alertStore";
+import { setCurrentSessionLocation } from "../services/sessions";
+import {
+  accountUpdateErrorMessage,
+  reauthMethod,
+  reauthenticate,
+} from "../services/reauth";
+import { describeCondition } from "../services/alertConditions";
+import WatchlistBoard from "./components/WatchlistBoard";
+import CreateAlertDialog from "./components/CreateAlertDialog";
+import TwoFactorCard from "./components/TwoFactorCard";
+import MfaChallengePanel from "./components/MfaChallengePanel";
+import SessionList from "./components/SessionList";
+import LoginHistoryList from "./components/LoginHistoryList";
 
 type ProfilePageProps = {
   user: UserProfile;
   onBack: () => void;
   onUpdateProfile: (updates: Partial<UserProfile>) => void;
+  // sends a confirmation link; the email changes once it's opened
   onUpdateEmail: (newEmail: string) => Promise<void> | void;
   onUpdatePassword: (newPassword: string) => Promise<void> | void;
-  // ISO timestamps of recent logins (newest first)
-  loginHistory: string[];
-};
-
-type RateAlertCondition = "above" | "below";
-
-type RateAlert = {
-  id: number;
-  pair: string;
-  condition: RateAlertCondition;
-  value: number;
-  active: boolean;
+  onOpenPairChart: (base: string, quote: string) => void;
+  onOpenAlertManager: () => void;
 };
 
-const mockAlerts: RateAlert[] = [
-  { id: 1, pair: "USD → INR", condition: "above", value: 83.0, active: true },
-  { id: 2, pair: "EUR → USD", condition: "below", value: 1.05, active: false },
-];
-
 const MAX_AVATAR_SIZE_MB = 2;
 
-// ===== FX STATE & FALLBACK (24h day rates) =====
-type FxRatesState = {
-  usdInr: number | null;
-  eurUsd: number | null;
-  usdAed: number | null;
-  asOfDate: string | null; // date string from API
-};
-
-// Safe sample values if the API is down.
-// These will be replaced as soon as a real daily rate arrives.
-const FX_FALLBACK: FxRatesState = {
-  usdInr: 83.1,
-  eurUsd: 1.09,
-  usdAed: 3.67,
-  asOfDate: null,
-};
-
 export default function ProfilePage({
   user,
   onBack,
   onUpdateProfile,
   onUpdateEmail,
   onUpdatePassword,
-  loginHistory,
+  onOpenPairChart,
+  onOpenAlertManager,
 }: ProfilePageProps) {
   // --- main profile state shown on card ---
   const [displayName, setDisplayName] = useState(user.displayName);
   const [email, setEmail] = useState(user.email);
-  const [about, setAbout] = useState<string>("");
-
-  const [socials, setSocials] = useState<{
-    twitter: string;
-    linkedin: string;
-    instagram: string;
-  }>({
-    twitter: "",
-    linkedin: "",
-    instagram: "",
-  });
+  // about + socials are stored (and synced to the account) outside the page
+  const profileDetails = useProfileDetails();
+  const { about, socials } = profileDetails;
+  const homeCurrency = homeCurrencyFor(profileDetails.country);
 
-  // Alerts (simple toggle demo)
-  const [alerts, setAlerts] = useState<RateAlert[]>(mockAlerts);
+  // Alerts come from the shared alert store (same list as the dashboard)
+  const alerts = useAlerts();
+  const [isAlertDialogOpen, setIsAlertDialogOpen] = useState(false);
 
   // Avatar state
   const [avatarPreview, setAvatarPreview] = useState<string | null>(
@@ -86,14 +76,11 @@ export default function ProfilePage({
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [avatarError, setAvatarError] = useState<string | null>(null);
 
-  // 🔹 Current device location (for "This device" session)
-  const [currentLocation, setCurrentLocation] = useState<string>(
-    "Detecting location…"
-  );
-
-  // 🔹 FX rates: start from fallback so UI always has numbers
-  const [fxRates, setFxRates] = useState<FxRatesState>(FX_FALLBACK);
-  const [fxError, setFxError] = useState<string | null>(null);
+  // 🔹 FX rates from the shared rate service (falls back to sample rates)
+  const usdInr = useRate("USD", "INR");
+  const eurUsd = useRate("EUR", "USD");
+  const usdAed = useRate("USD", "AED");
+  const fxError = usdInr.error ?? eurUsd.error ?? usdAed.error;
 
   useEffect(() => {
     setDisplayName(user.displayName);
@@ -102,9 +89,9 @@ export default function ProfilePage({
   }, [user.displayName, user.email, user.avatarUrl]);
 
   // ===== GEOLOCATION + REVERSE GEOCODING =====
+  // refines this device's session location (the time zone is the fallback)
   useEffect(() => {
     if (typeof navigator === "undefined" || !("geolocation" in navigator)) {
-      setCurrentLocation("Location not available");
       return;
     }
 
@@ -137,86 +124,22 @@ export default function ProfilePage({
 
             const parts = [city, state, countryCode].filter(Boolean);
             if (parts.length > 0) {
-              setCurrentLocation(parts.join(", "));
-            } else {
-              setCurrentLocation("Location detected");
+              setCurrentSessionLocation(user.uid, parts.join(", "));
             }
           } catch (err) {
             console.error("Reverse geocoding failed", err);
-            setCurrentLocation(
-              `Lat ${latitude.toFixed(2)}, Lon ${longitude.toFixed(2)}`
-            );
           }
         })();
       },
       (err) => {
         console.error("Geolocation error", err);
-        if (err.code === err.PERMISSION_DENIED) {
-          setCurrentLocation("Location access denied");
-        } else {
-          setCurrentLocation("Could not detect location");
-        }
       },
       {
         enableHighAccuracy: false,
         timeout: 10000,
       }
     );
-  }, []);
-
-  // ===== DAILY FX RATES – same style as quick converter =====
-  useEffect(() => {
-    let cancelled = false;
-
-    async function fetchRates() {
-      try {
-        setFxError(null);
-
-        const [usdInrRes, eurUsdRes, usdAedRes] = await Promise.all([
-          fetch("https://api.frankfurter.app/latest?from=USD&to=INR"),
-          fetch("https://api.frankfurter.app/latest?from=EUR&to=USD"),
-          fetch("https://api.frankfurter.app/latest?from=USD&to=AED"),
-        ]);
-
-        if (!usdInrRes.ok || !eurUsdRes.ok || !usdAedRes.ok) {
-          throw new Error("Rate API error");
-        }
-
-        const usdInrData = await usdInrRes.json();
-        const eurUsdData = await eurUsdRes.json();
-        const usdAedData = await usdAedRes.json();
-
-        if (cancelled) return;
-
-        setFxRates({
-          usdInr:
-            typeof usdInrData.rates?.INR === "number"
-              ? usdInrData.rates.INR
-              : FX_FALLBACK.usdInr,
-          eurUsd:
-            typeof eurUsdData.rates?.USD === "number"
-              ? eurUsdData.rates.USD
-              : FX_FALLBACK.eurUsd,
-          usdAed:
-            typeof usdAedData.rates?.AED === "number"
-              ? usdAedData.rates.AED
-              : FX_FALLBACK.usdAed,
-          asOfDate: usdInrData.date ?? null,
-        });
-      } catch (err) {
-        console.error("FX rate fetch failed:", err);
-        if (!cancelled) {
-          // Keep fallback values; just show an info message
-          setFxError("using last 24h sample rate.");
-        }
-      }
-    }
-
-    fetchRates();
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+  }, [user.uid]);
 
   // Messages
   const [message, setMessage] = useState<string | null>(null);
@@ -237,26 +160,11 @@ export default function ProfilePage({
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [savingProfile, setSavingProfile] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
-
-  // Login history formatting
-  const formattedHistory = useMemo(() => {
-    if (!loginHistory || loginHistory.length === 0) return [];
-    return loginHistory.slice(0, 5).map((ts) => {
-      try {
-        return new Date(ts).toLocaleString(undefined, {
-          year: "numeric",
-          month: "short",
-          day: "2-digit",
-          hour: "2-digit",
-          minute: "2-digit",
-        });
-      } catch {
-        return ts;
-      }
-    });
-  }, [loginHistory]);
-
-  const lastLoginDisplay = formattedHistory[0] ?? "No login activity yet.";
+  // how email / password changes are confirmed for this account
+  const reauthWith = reauthMethod();
+  // second factor still to confirm before the edits are applied
+  const [reauthChallenge, setReauthChallenge] =
+    useState<MultiFactorResolver | null>(null);
 
   // -------- Avatar upload ----------
   function handleAvatarClick() {
@@ -294,17 +202,15 @@ export default function ProfilePage({
   }
 
   // -------- Alerts toggle ----------
-  function handleToggleAlert(id: number) {
-    setAlerts((prev) =>
-      prev.map((a) => (a.id === id ? { ...a, active: !a.active } : a))
-    );
+  function handleToggleAlert(id: string, active: boolean) {
+    setAlertActive(id, !active);
   }
 
   // -------- Edit modal ----------
   function openEditModal() {
     setEditName(displayName);
     setEditEmail(email);
-    setEditAbout(about.replace(/^"|"$/g, ""));
+    setEditAbout(about);
     setEditTwitter(socials.twitter);
     setEditLinkedin(socials.linkedin);
     setEditInstagram(socials.instagram);
@@ -338,7 +244,6 @@ export default function ProfilePage({
     setMessage(null);
     setError(null);
 
-    const trimmedName = editName.trim();
     const trimmedEmail = editEmail.trim();
     const twitterVal = editTwitter.trim();
     const linkedinVal = editLinkedin.trim();
@@ -352,12 +257,11 @@ export default function ProfilePage({
       return;
     }
 
-    const isPasswordChanging = oldPassword || newPassword || confirmPassword;
+    const isEmailChanging = !!trimmedEmail && trimmedEmail !== email;
+    const isPasswordChanging = !!(newPassword || confirmPassword);
     if (isPasswordChanging) {
-      if (!oldPassword || !newPassword || !confirmPassword) {
-        setPasswordError(
-          "Please fill old, new, and confirm password to change it."
-        );
+      if (!newPassword || !confirmPassword) {
+        setPasswordError("Please fill new and confirm password to change it.");
         return;
       }
       if (newPassword !== confirmPassword) {
@@ -370,6 +274,42 @@ export default function ProfilePage({
       }
     }
 
+    // email and password changes need a fresh sign-in
+    const needsReauth = isEmailChanging || isPasswordChanging;
+    if (needsReauth && reauthWith === "password" && !oldPassword) {
+      setPasswordError(
+        "Enter your current password to change your email or password."
+      );
+      return;
+    }
+
+    if (needsReauth) {
+      setSavingProfile(true);
+      const outcome = await reauthenticate(oldPassword);
+      setSavingProfile(false);
+      if (!outcome.ok) {
+        setPasswordError(outcome.error);
+        return;
+      }
+      if (outcome.challenge) {
+        // applied once the code is confirmed (see the 2FA modal below)
+        setReauthChallenge(outcome.challenge);
+        return;
+      }
+    }
+    await applyProfileEdits();
+  }
+
+  // writes the edit form; the user is already confirmed if that was needed
+  async function applyProfileEdits() {
+    const trimmedName = editName.trim();
+    const trimmedEmail = editEmail.trim();
+    const twitterVal = editTwitter.trim();
+    const linkedinVal = editLinkedin.trim();
+    const instagramVal = editInstagram.trim();
+    const isEmailChanging = !!trimmedEmail && trimmedEmail !== email;
+    const isPasswordChanging = !!(newPassword || confirmPassword);
+
     setSavingProfile(true);
     try {
       if (trimmedName && trimmedName !== displayName) {
@@ -377,26 +317,33 @@ export default function ProfilePage({
         setDisplayName(trimmedName);
       }
 
-      setAbout(editAbout ? `"${editAbout}"` : about);
-      setSocials({
-        twitter: twitterVal,
-        linkedin: linkedinVal,
-        instagram: instagramVal,
+      saveProfileDetails({
+        about: editAbout || about,
+        socials: {
+          twitter: twitterVal,
+          linkedin: linkedinVal,
+          instagram: instagramVal,
+        },
       });
 
-      if (trimmedEmail && trimmedEmail !== email) {
-        await onUpdateEmail(trimmedEmail);
-        setEmail(trimmedEmail);
-      }
-
       if (isPasswordChanging) {
         await onUpdatePassword(newPassword);
       }
 
-      setMessage("Profile updated.");
+      // the address stays the same until the link in the new inbox is opened
+      if (isEmailChanging) {
+        await onUpdateEmail(trimmedEmail);
+      }
+
+      setMessage(
+        isEmailChanging
+          ? `Profile updated. Check your new inbox: we sent a link to ${trimmedEmail}. Your email changes once you open it.`
+          : "Profile updated."
+      );
       setIsEditOpen(false);
-    } catch {
-      setError("Could not update profile. Please try again.");
+    } catch (err) {
+      console.error("Profile update error", err);
+      setPasswordError(accountUpdateErrorMessage(err));
     } finally {
       setSavingProfile(false);
     }
@@ -412,16 +359,13 @@ export default function ProfilePage({
     url: string;
   }[];
 
-  const usdInrDisplay =
-    fxRates.usdInr != null ? fxRates.usdInr.toFixed(2) : "--";
-  const eurUsdDisplay =
-    fxRates.eurUsd != null ? fxRates.eurUsd.toFixed(4) : "--";
-  const usdAedDisplay =
-    fxRates.usdAed != null ? fxRates.usdAed.toFixed(2) : "--";
+  const usdInrDisplay = usdInr.rate != null ? usdInr.rate.toFixed(2) : "--";
+  const eurUsdDisplay = eurUsd.rate != null ? eurUsd.rate.toFixed(4) : "--";
+  const usdAedDisplay = usdAed.rate != null ? usdAed.rate.toFixed(2) : "--";
 
   const rateSubtitle =
-    fxRates.asOfDate && !fxError
-      ? `As of ${fxRates.asOfDate}`
+    usdInr.date && !fxError
+      ? `As of ${usdInr.date}`
       : fxError
       ? "Using last 24h sample rate."
       : "Latest available rate";
@@ -486,7 +430,7 @@ export default function ProfilePage({
             <p className="text-xs text-slate-600 mb-3">{email}</p>
 
             <p className="text-xs text-center text-slate-600 mb-4 px-2">
-              {about}
+              {about && `"${about}"`}
             </p>
 
             <button
@@ -616,6 +560,11 @@ export default function ProfilePage({
                   </span>
                 </div>
                 <div className="space-y-2 text-xs">
+                  {alerts.length === 0 && (
+                    <p className="text-slate-500">
+                      No alerts yet. Add one here or from the dashboard.
+                    </p>
+                  )}
                   {alerts.map((alert) => (
                     <div
                       key={alert.id}
@@ -623,7 +572,9 @@ export default function ProfilePage({
                     >
                       <div>
                         <div className="flex items-center gap-2">
-                          <span className="font-semibold">{alert.pair}</span>
+                          <span className="font-semibold">
+                            {alert.from} → {alert.to}
+                          </span>
                           <span
                             className={`inline-flex items-center rounded-full px-2 py-0.5 text-[10px] border ${
                               alert.active
@@ -635,16 +586,17 @@ export default function ProfilePage({
                           </span>
                         </div>
                         <p className="mt-0.5 text-slate-500">
-                          Alert me when{" "}
+                          Alert me when it{" "}
                           <span className="font-semibold">
-                            {alert.condition === "above" ? "above" : "below"}
-                          </span>{" "}
-                          <span className="font-mono">{alert.value}</span>
+                            {describeCondition(alert.condition)}
+                          </span>
                         </p>
                       </div>
                       <button
                         type="button"
-                        onClick={() => handleToggleAlert(alert.id)}
+                        onClick={() =>
+                          handleToggleAlert(alert.id, alert.active)
+                        }
                         className="inline-flex items-center rounded-full border border-slate-300 px-3 py-1 text-[11px] font-semibold hover:border-emerald-500 hover:text-emerald-600"
                       >
                         {alert.active ? "Pause" : "Enable"}
@@ -653,10 +605,20 @@ export default function ProfilePage({
                   ))}
                   <button
                     type="button"
+                    onClick={() => setIsAlertDialogOpen(true)}
                     className="mt-1 inline-flex items-center gap-2 rounded-xl border border-dashed border-slate-300 px-3 py-2 text-[11px] text-slate-500 hover:border-emerald-500 hover:text-emerald-600"
                   >
                     + Add new alert
                   </button>
+                  {alerts.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={onOpenAlertManager}
+                      className="ml-2 text-[11px] font-semibold text-sky-600 hover:underline"
+                    >
+                      Manage all →
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -669,79 +631,11 @@ export default function ProfilePage({
                   </span>
                 </div>
 
-                <div className="flex items-center justify-between rounded-2xl bg-slate-50 border border-slate-200 px-3 py-2">
-                  <div>
-                    <p className="text-sm font-semibold flex items-center gap-2">
-                      <Smartphone className="w-4 h-4 text-emerald-600" />
-                      Two-factor authentication
-                    </p>
-                    <p className="text-[11px] text-slate-500">
-                      Add an extra login step to keep your FX account secure.
-                    </p>
-                  </div>
-                  <button className="rounded-full bg-emerald-500 px-4 py-1.5 text-[11px] font-semibold text-white hover:bg-emerald-600">
-                    Enable
-                  </button>
-                </div>
+                <TwoFactorCard />
 
-                <div>
-                  <p className="text-[11px] font-semibold text-slate-600 mb-1">
-                    Recent sessions
-                  </p>
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between rounded-2xl bg-slate-50 border border-slate-200 px-3 py-2">
-                      <div>
-                        <p className="font-semibold flex items-center gap-2">
-                          <Smartphone className="w-3 h-3 text-slate-500" />
-                          Windows PC • Chrome
-                          <span className="rounded-full bg-emerald-50 border border-emerald-400 px-2 py-0.5 text-[10px] text-emerald-700">
-                            This device
-                          </span>
-                        </p>
-                        <p className="text-[11px] text-slate-500">
-                          {currentLocation} • {lastLoginDisplay}
-                        </p>
-                      </div>
-                    </div>
+                <SessionList uid={user.uid} />
 
-                    <div className="flex items-center justify-between rounded-2xl bg-slate-50 border border-slate-200 px-3 py-2">
-                      <div>
-                        <p className="font-semibold flex items-center gap-2">
-                          <Smartphone className="w-3 h-3 text-slate-500" />
-                          MacBook Pro • Safari
-                        </p>
-                        <p className="text-[11px] text-slate-500">
-                          Tampa, USA • Yesterday • 9:12 PM
-                        </p>
-                      </div>
-                      <button className="rounded-full border border-slate-300 px-3 py-1 text-[10px] font-semibold hover:border-red-400 hover:text-red-500">
-                        Sign out
-                      </button>
-                    </div>
-                  </div>
-                </div>
-
-                <div>
-                  <p className="text-[11px] font-semibold text-slate-600 mb-1">
-                    Recent login activity
-                  </p>
-                  <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
-                    {formattedHistory.length === 0 ? (
-                      <p className="text-[11px] text-slate-500">
-                        No login activity yet.
-                      </p>
-                    ) : (
-                      <ul className="space-y-1 text-[11px] text-slate-600">
-                        {formattedHistory.map((entry, idx) => (
-                          <li key={idx} className="flex items-center gap-2">
-                            <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
-                            <span>{entry}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
-                </div>
+                <LoginHistoryList uid={user.uid} />
 
                 <div>
                   <p className="text-[11px] font-semibold text-slate-600 mb-1">
@@ -762,30 +656,80 @@ export default function ProfilePage({
               </div>
             </div>
 
-            {/* bottom row: favourites + (spacer) */}
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="bg-white rounded-3xl border border-slate-200 p-4 shadow">
-                <div className="flex items-center justify-between text-[11px] uppercase tracking-wide text-slate-500 mb-2">
-                  <span>Favorite currencies</span>
-                  <span className="inline-flex items-center rounded-full bg-slate-50 border border-slate-200 px-2 py-0.5 text-[10px]">
-                    Up to 6 pairs
-                  </span>
-                </div>
+            {/* bottom row: watchlist + settings */}
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="bg-white rounded-3xl border border-slate-200 p-4 shadow md:col-span-2">
                 <p className="text-sm font-semibold mb-2">
                   Pinned for quick access
                 </p>
-                <div className="flex flex-wrap gap-2">
-                  {["USD", "INR", "EUR", "GBP"].map((c) => (
-                    <span
-                      key={c}
-                      className="inline-flex items-center rounded-full bg-slate-50 border border-slate-200 px-3 py-1 text-xs"
-                    >
-                      {c}
-                    </span>
-                  ))}
+                <WatchlistBoard
+                  userId={user.uid}
+                  tone="light"
+                  onOpenPair={onOpenPairChart}
+                  suggestions={suggestedPairs(homeCurrency)}
+                />
+              </div>
+
+              {/* Settings (from the sign-up questionnaire) */}
+              <div className="bg-white rounded-3xl border border-slate-200 p-4 shadow space-y-3 text-xs">
+                <div className="flex items-center gap-1 text-[11px] uppercase tracking-wide text-slate-500">
+                  <Settings className="w-3 h-3" />
+                  Settings
                 </div>
+
+                <label className="block space-y-1">
+                  <span className="text-[11px] font-semibold text-slate-600">
+                    Home country · {homeCurrency}
+                  </span>
+                  <select
+                    value={profileDetails.country ?? ""}
+                    onChange={(e) =>
+                      saveProfileDetails({ country: e.target.value || null })
+                    }
+                    className="w-full rounded-lg border border-slate-200 bg-slate-50 px-2 py-1.5 text-xs outline-none focus:border-sky-500"
+                  >
+                    <option value="">Not set (USD)</option>
+                    {COUNTRIES.map((c) => (
+                      <option key={c.name} value={c.name}>
+                        {c.name} ({c.currency})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="block space-y-1">
+                  <span className="text-[11px] font-semibold text-slate-600">
+                    Dashboard focus
+                  </span>
+                  <select
+                    value={profileDetails.useCase ?? "travel"}
+                    onChange={(e) =>
+                      saveProfileDetails({ useCase: e.target.value as UseCase })
+                    }
+                    className="w-full rounded-lg border border-slate-200 bg-slate-50 px-2 py-1.5 text-xs outline-none focus:border-sky-500"
+                  >
+                    {USE_CASES.map((u) => (
+                      <option key={u.id} value={u.id}>
+                        {u.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="flex items-start gap-2 text-[11px] text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={profileDetails.newsletterOptIn}
+                    onChange={(e) =>
+                      saveProfileDetails({ newsletterOptIn: e.target.checked })
+                    }
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Send me market insights and occasional product updates.
+                  </span>
+                </label>
               </div>
-              <div className="hidden md:block" />
             </div>
 
             {/* live bar */}
@@ -826,6 +770,22 @@ export default function ProfilePage({
         )}
       </div>
 
+      {/* NEW ALERT MODAL */}
+      {isAlertDialogOpen && (
+        <CreateAlertDialog
+          base={alerts[0]?.from ?? "USD"}
+          quote={alerts[0]?.to ?? "INR"}
+          allowPairChange
+          defaultEmail={user.email}
+          onClose={() => setIsAlertDialogOpen(false)}
+          onSaved={(a) =>
+            setMessage(
+              `Alert added: ${a.from} → ${a.to} ${describeCondition(a.condition)}.`
+            )
+          }
+        />
+      )}
+
       {/* EDIT PROFILE MODAL */}
       {isEditOpen && (
         <div
@@ -859,6 +819,9 @@ export default function ProfilePage({
                   value={editEmail}
                   onChange={(e) => setEditEmail(e.target.value)}
                 />
+                <p className="mt-1 text-[11px] text-slate-500">
+                  A new email takes effect once you open the link we send to it.
+                </p>
               </div>
 
               <div>
@@ -922,22 +885,33 @@ export default function ProfilePage({
                 <p className="text-[11px] text-red-500">{socialError}</p>
               )}
 
-              <p className="text-[11px] text-slate-500">
-                To change your password, fill in all three fields. Leave them
-                empty to keep your current password.
-              </p>
+              {reauthWith === "google" ? (
+                <p className="text-[11px] text-slate-500">
+                  Changing your email or password asks you to confirm with
+                  Google first. Leave the password fields empty to keep your
+                  current password.
+                </p>
+              ) : (
+                <>
+                  <p className="text-[11px] text-slate-500">
+                    Enter your current password to change your email or
+                    password. Leave the new password fields empty to keep it.
+                  </p>
 
-              <div>
-                <label className="block text-xs font-semibold text-slate-700 mb-1">
-                  Old password
-                </label>
-                <input
-                  type={showPassword ? "text" : "password"}
-                  className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm outline-none focus:border-sky-500"
-                  value={oldPassword}
-                  onChange={(e) => setOldPassword(e.target.value)}
-                />
-              </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-700 mb-1">
+                      Current password
+                    </label>
+                    <input
+                      type={showPassword ? "text" : "password"}
+                      autoComplete="current-password"
+                      className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                      value={oldPassword}
+                      onChange={(e) => setOldPassword(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
 
               <div>
                 <label className="block text-xs font-semibold text-slate-700 mb-1">
@@ -997,6 +971,23 @@ export default function ProfilePage({
           </div>
         </div>
       )}
+
+      {/* 2FA STEP before email / password changes */}
+      {reauthChallenge && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+          <div className="w-full max-w-md rounded-2xl bg-white shadow-2xl border border-slate-200 p-5 text-sm">
+            <MfaChallengePanel
+              resolver={reauthChallenge}
+              onSignedIn={() => {
+                setReauthChallenge(null);
+                void applyProfileEdits();
+              }}
+              onCancel={() => setReauthChallenge(null)}
+              cancelLabel="Cancel"
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,6 +2,22 @@
 import { useState } from "react";
 import { auth, createUserWithEmailAndPassword } from "../firebase";
 import { updateProfile } from "firebase/auth";
+import {
+  useEmailVerification,
+  useResendCooldown,
+} from "../hooks/useEmailVerification";
+import {
+  refreshVerification,
+  sendVerificationEmail,
+} from "../services/emailVerification";
+import { saveProfileDetails } from "../services/profileDetails";
+import { recordLoginSuccess } from "../services/loginHistory";
+import {
+  COUNTRIES,
+  USE_CASES,
+  type AccountType,
+  type UseCase,
+} from "../services/personalization";
 
 type RegisterPageProps = {
   onRegister?: () => void;
@@ -21,16 +37,16 @@ export default function RegisterPage({
   const [step, setStep] = useState<Step>(1);
 
   // Step 1 – account details
-  const [accountType, setAccountType] = useState<"personal" | "business">(
-    "personal"
-  );
+  const [accountType, setAccountType] = useState<AccountType>("personal");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
 
-  // Step 2 – demo verification code
-  const [generatedCode, setGeneratedCode] = useState<string | null>(null);
-  const [codeInputs, setCodeInputs] = useState(["", "", "", "", "", ""]);
+  // Step 2 – email verification (the account is created after step 1 so
+  // Firebase can send the link)
+  const verification = useEmailVerification();
+  const secondsLeft = useResendCooldown(verification.resendAvailableAt);
+  const [notice, setNotice] = useState<string | null>(null);
 
   // Step 3 – region + terms
   const [country, setCountry] = useState("United States");
@@ -39,9 +55,7 @@ export default function RegisterPage({
   // Step 4 – profile info
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
-  const [useCase, setUseCase] = useState(
-    "I want to track my FX exposure and travel conversions."
-  );
+  const [useCase, setUseCase] = useState<UseCase>("travel");
   const [newsletterOptIn, setNewsletterOptIn] = useState(true);
 
   // Shared
@@ -55,14 +69,9 @@ export default function RegisterPage({
 
   function prevStep() {
     setError(null);
-    setStep((prev) => (prev > 1 ? ((prev - 1) as Step) : prev));
-  }
-
-  function handleCodeChange(index: number, value: string) {
-    if (!/^\d?$/.test(value)) return;
-    const next = [...codeInputs];
-    next[index] = value;
-    setCodeInputs(next);
+    setNotice(null);
+    // the account already exists from step 2 on, so step 1 can't be redone
+    setStep((prev) => (prev > 2 ? ((prev - 1) as Step) : prev));
   }
 
   // ---------- VALIDATION ----------
@@ -87,21 +96,14 @@ export default function RegisterPage({
     return true;
   }
 
-  function validateStep2() {
-    const entered = codeInputs.join("");
-    if (!generatedCode) {
-      setError("We couldn’t generate a code. Please restart registration.");
-      return false;
-    }
-    if (entered.length !== 6) {
-      setError("Please enter the 6-digit verification code.");
-      return false;
-    }
-    if (entered !== generatedCode) {
-      setError("That code doesn’t match. Double-check the email and try again.");
-      return false;
+  async function validateStep2() {
+    const verified = await refreshVerification();
+    if (!verified) {
+      setError(
+        "Your email isn’t verified yet. Open the link we sent, then try again."
+      );
     }
-    return true;
+    return verified;
   }
 
   function validateStep3() {
@@ -133,17 +135,15 @@ export default function RegisterPage({
 
     if (step === 1) {
       if (!validateStep1()) return;
-
-      // demo: “send” a code
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      setGeneratedCode(code);
-      console.log("Demo verification code:", code);
-      nextStep();
+      await handleCreateAccount();
       return;
     }
 
     if (step === 2) {
-      if (!validateStep2()) return;
+      setLoading(true);
+      const verified = await validateStep2();
+      setLoading(false);
+      if (!verified) return;
       nextStep();
       return;
     }
@@ -159,32 +159,24 @@ export default function RegisterPage({
     }
   }
 
-  async function handleSubmitFinal() {
-    if (!validateStep4()) return;
-
+  async function handleCreateAccount() {
     try {
       setLoading(true);
-      setError(null);
-
-      const cred = await createUserWithEmailAndPassword(auth, email, password);
-
-      const displayName = `${firstName.trim()} ${lastName.trim()}`.trim();
-      if (cred.user && displayName) {
-        await updateProfile(cred.user, { displayName });
-      }
+      await createUserWithEmailAndPassword(auth, email, password);
+      void recordLoginSuccess("password");
 
-      console.log("User use-case:", useCase);
-      console.log("Newsletter opt-in:", newsletterOptIn);
-      console.log("Country:", country);
-      console.log("Account type:", accountType);
-
-      if (onRegister) onRegister();
+      const sendError = await sendVerificationEmail();
+      // the account exists either way; the link can be re-sent from step 2
+      setNotice(sendError);
+      nextStep();
     } catch (err: any) {
       console.error("Register error", err);
       if (err.code === "auth/email-already-in-use") {
         setError("An account with this email already exists.");
       } else if (err.code === "auth/invalid-email") {
         setError("Please enter a valid email address.");
+      } else if (err.code === "auth/weak-password") {
+        setError("Please choose a stronger password.");
       } else {
         setError("We couldn’t create your account. Please try again.");
       }
@@ -193,6 +185,49 @@ export default function RegisterPage({
     }
   }
 
+  async function handleResend() {
+    setError(null);
+    const sendError = await sendVerificationEmail();
+    setNotice(sendError ?? `We sent a new link to ${email}.`);
+  }
+
+  function handleVerifyLater() {
+    setError(null);
+    setNotice(null);
+    nextStep();
+  }
+
+  async function handleSubmitFinal() {
+    if (!validateStep4()) return;
+
+    const user = auth.currentUser;
+    if (!user) {
+      setError("Your session expired. Please log in to finish your profile.");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const displayName = `${firstName.trim()} ${lastName.trim()}`.trim();
+      if (displayName) {
+        await updateProfile(user, { displayName });
+      }
+
+      // saved to the profile document; drives the home currency, suggested
+      // pairs and dashboard layout
+      saveProfileDetails({ country, accountType, useCase, newsletterOptIn });
+
+      if (onRegister) onRegister();
+    } catch (err) {
+      console.error("Profile setup error", err);
+      setError("We couldn’t save your profile. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
   const stepLabel =
     step === 1
       ? "Account"
@@ -206,13 +241,25 @@ export default function RegisterPage({
     step === 1
       ? "Create your FX workspace login."
       : step === 2
-      ? "Enter the 6-digit code we sent (demo)."
+      ? "Click the link we emailed you to confirm it’s yours."
       : step === 3
       ? "Tell us where you primarily trade or travel."
       : "Personalize your XChangeHub profile.";
 
   const primaryButtonLabel =
-    step < 4 ? "Continue" : loading ? "Creating account..." : "Create account";
+    step === 1
+      ? loading
+        ? "Creating account..."
+        : "Create account"
+      : step === 2
+      ? loading
+        ? "Checking..."
+        : "I’ve verified my email"
+      : step < 4
+      ? "Continue"
+      : loading
+      ? "Saving profile..."
+      : "Finish";
 
   // ---------- RENDER ----------
 
@@ -509,30 +556,37 @@ export default function RegisterPage({
               {step === 2 && (
                 <>
                   <p className="text-xs text-slate-500">
-                    We&apos;ve sent a 6-digit verification code to{" "}
-                    <span className="font-medium text-slate-800">{email}</span>{" "}
-                    (demo only—check the console in dev tools to see it).
+                    We&apos;ve sent a verification link to{" "}
+                    <span className="font-medium text-slate-800">{email}</span>.
+                    Open it, then come back here and continue.
                   </p>
-                  <div className="mt-4 flex justify-between gap-2">
-                    {codeInputs.map((val, idx) => (
-                      <input
-                        key={idx}
-                        type="text"
-                        inputMode="numeric"
-                        maxLength={1}
-                        value={val}
-                        onChange={(e) =>
-                          handleCodeChange(idx, e.target.value.trim())
-                        }
-                        className="h-10 w-10 rounded-lg border border-slate-200 bg-slate-50 text-center text-sm font-semibold text-slate-900 shadow-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-                      />
-                    ))}
+                  {notice && (
+                    <div className="rounded-lg border border-sky-200 bg-sky-50 px-3 py-2 text-xs text-sky-800">
+                      {notice}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-[0.7rem] text-slate-500">
+                    <span>Didn&apos;t get it? Check spam, or</span>
+                    <button
+                      type="button"
+                      onClick={() => void handleResend()}
+                      disabled={secondsLeft > 0 || loading}
+                      className="font-medium text-sky-600 underline-offset-2 hover:underline disabled:cursor-not-allowed disabled:text-slate-400 disabled:no-underline"
+                    >
+                      {secondsLeft > 0
+                        ? `resend in ${secondsLeft}s`
+                        : "resend the email"}
+                    </button>
                   </div>
-                  <p className="mt-3 text-[0.7rem] text-slate-500">
-                    Didn&apos;t get a code? This is a front-end demo, so we
-                    don&apos;t actually send emails—just restart sign-up or use
-                    the code logged in your browser console.
-                  </p>
+                  {!verification.verified && (
+                    <button
+                      type="button"
+                      onClick={handleVerifyLater}
+                      className="text-[0.7rem] text-slate-500 underline-offset-2 hover:underline"
+                    >
+                      Verify later (you can&apos;t create alerts until you do)
+                    </button>
+                  )}
                 </>
               )}
 
@@ -552,14 +606,11 @@ export default function RegisterPage({
                       onChange={(e) => setCountry(e.target.value)}
                       className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
                     >
-                      <option>United States</option>
-                      <option>Canada</option>
-                      <option>United Kingdom</option>
-                      <option>Eurozone</option>
-                      <option>India</option>
-                      <option>Australia</option>
-                      <option>Singapore</option>
-                      <option>United Arab Emirates</option>
+                      {COUNTRIES.map((c) => (
+                        <option key={c.name} value={c.name}>
+                          {c.name} ({c.currency})
+                        </option>
+                      ))}
                     </select>
                   </div>
 
@@ -643,19 +694,28 @@ export default function RegisterPage({
                   </div>
 
                   <div className="space-y-1.5">
-                    <label
-                      htmlFor="reg-use"
-                      className="text-xs font-medium text-slate-700"
-                    >
+                    <span className="text-xs font-medium text-slate-700">
                       How will you use XChangeHub?
-                    </label>
-                    <textarea
-                      id="reg-use"
-                      rows={3}
-                      value={useCase}
-                      onChange={(e) => setUseCase(e.target.value)}
-                      className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-                    />
+                    </span>
+                    <div className="grid gap-2 text-xs">
+                      {USE_CASES.map((u) => (
+                        <button
+                          key={u.id}
+                          type="button"
+                          onClick={() => setUseCase(u.id)}
+                          className={`rounded-xl border px-3 py-2 text-left transition ${
+                            useCase === u.id
+                              ? "border-sky-500 bg-sky-50 text-sky-700"
+                              : "border-slate-200 bg-slate-50 hover:bg-slate-100"
+                          }`}
+                        >
+                          <span className="block font-semibold">{u.label}</span>
+                          <span className="mt-0.5 block text-[0.68rem] text-slate-500">
+                            {u.hint}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
                   </div>
 
                   <label className="mt-1 flex items-start gap-2 text-[0.7rem] text-slate-600">
@@ -685,7 +745,7 @@ export default function RegisterPage({
                 {primaryButtonLabel}
               </button>
 
-              {step > 1 && (
+              {step > 2 && (
                 <button
                   type="button"
                   onClick={prevStep}
@@ -0,0 +1,158 @@
+// src/pages/components/AlertConditionFields.tsx
+import {
+  CONDITION_TYPES,
+  MAX_WINDOW_HOURS,
+  MIN_WINDOW_HOURS,
+  conditionDraft,
+  type ConditionDraft,
+} from "../../services/alertConditions";
+
+type AlertConditionFieldsProps = {
+  draft: ConditionDraft;
+  onChange: (draft: ConditionDraft) => void;
+  base: string;
+  quote: string;
+  // reference rate used to seed fields when switching condition type
+  currentRate?: number | null;
+  // "dark" = dashboard alert card, "auto" = light with dark: variants
+  tone: "dark" | "auto";
+};
+
+const STYLES = {
+  dark: {
+    label: "field-label block mb-1",
+    input:
+      "w-full rounded-full border border-slate-700 bg-slate-950 px-4 py-2 text-xs text-slate-100 outline-none placeholder:text-slate-500 focus:border-sky-400",
+    chip: "rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-slate-200 hover:bg-slate-800",
+    chipActive: "rounded-full border border-sky-400 bg-sky-500 px-3 py-1 text-white",
+  },
+  auto: {
+    label:
+      "mb-1 block text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-500 dark:text-slate-400",
+    input:
+      "w-full rounded-full border border-slate-300 bg-white px-4 py-2 text-xs text-slate-900 outline-none placeholder:text-slate-400 focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100",
+    chip: "rounded-full border border-slate-300 px-3 py-1 hover:border-sky-500 hover:text-sky-600 dark:border-slate-700 dark:hover:border-sky-400 dark:hover:text-sky-300",
+    chipActive: "rounded-full border border-sky-500 bg-sky-500 px-3 py-1 text-white",
+  },
+};
+
+/** Condition type picker plus the inputs that type needs. */
+export default function AlertConditionFields({
+  draft,
+  onChange,
+  base,
+  quote,
+  currentRate,
+  tone,
+}: AlertConditionFieldsProps) {
+  const styles = STYLES[tone];
+
+  function set(field: keyof Omit<ConditionDraft, "type">, value: string) {
+    onChange({ ...draft, [field]: value });
+  }
+
+  function handleType(type: ConditionDraft["type"]) {
+    if (type === draft.type) return;
+    // keep what the user typed; only fill fields that are still empty
+    const seeded = conditionDraft(type, currentRate);
+    onChange({
+      type,
+      value: draft.value || seeded.value,
+      low: draft.low || seeded.low,
+      high: draft.high || seeded.high,
+      percent: draft.percent || seeded.percent,
+      windowHours: draft.windowHours || seeded.windowHours,
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={styles.label}>Alert when 1 {base} → {quote}</label>
+        <div className="flex flex-wrap gap-2 text-[0.65rem]">
+          {CONDITION_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => handleType(type)}
+              className={draft.type === type ? styles.chipActive : styles.chip}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(draft.type === "above" ||
+        draft.type === "below" ||
+        draft.type === "crosses") && (
+        <div>
+          <label className={styles.label}>
+            Target rate (1 {base} → {quote})
+          </label>
+          <input
+            type="number"
+            step="0.0001"
+            value={draft.value}
+            onChange={(e) => set("value", e.target.value)}
+            placeholder="Enter your target rate"
+            className={styles.input}
+          />
+        </div>
+      )}
+
+      {draft.type === "percentChange" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={styles.label}>Move (±%)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={draft.percent}
+              onChange={(e) => set("percent", e.target.value)}
+              className={styles.input}
+            />
+          </div>
+          <div>
+            <label className={styles.label}>Within (hours)</label>
+            <input
+              type="number"
+              step="1"
+              min={MIN_WINDOW_HOURS}
+              max={MAX_WINDOW_HOURS}
+              value={draft.windowHours}
+              onChange={(e) => set("windowHours", e.target.value)}
+              className={styles.input}
+            />
+          </div>
+        </div>
+      )}
+
+      {draft.type === "rangeExit" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={styles.label}>Range low</label>
+            <input
+              type="number"
+              step="0.0001"
+              value={draft.low}
+              onChange={(e) => set("low", e.target.value)}
+              className={styles.input}
+            />
+          </div>
+          <div>
+            <label className={styles.label}>Range high</label>
+            <input
+              type="number"
+              step="0.0001"
+              value={draft.high}
+              onChange={(e) => set("high", e.target.value)}
+              className={styles.input}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
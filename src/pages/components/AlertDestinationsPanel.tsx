@@ -0,0 +1,271 @@
+// src/pages/components/AlertDestinationsPanel.tsx
+import { useState } from "react";
+import {
+  useDeliveryLog,
+  useDestinations,
+} from "../../hooks/useAlertDestinations";
+import {
+  DESTINATION_KINDS,
+  addDestination,
+  clearDeliveryLog,
+  removeDestination,
+  validateDestinationDraft,
+  type DeliveryStatus,
+  type DestinationDraft,
+  type DestinationKind,
+} from "../../services/alertDestinations";
+import {
+  deliverToDestination,
+  sampleEvent,
+} from "../../services/webhookDelivery";
+
+const KIND_LABEL = Object.fromEntries(
+  DESTINATION_KINDS.map((k) => [k.kind, k.label])
+) as Record<DestinationKind, string>;
+
+const URL_PLACEHOLDER: Record<DestinationKind, string> = {
+  webhook: "https://example.com/hooks/fx",
+  slack: "https://hooks.slack.com/services/…",
+  discord: "https://discord.com/api/webhooks/…",
+};
+
+const STATUS_CLASS: Record<DeliveryStatus, string> = {
+  pending: "text-amber-600 dark:text-amber-300",
+  delivered: "text-emerald-600 dark:text-emerald-300",
+  sent: "text-sky-600 dark:text-sky-300",
+  failed: "text-rose-600 dark:text-rose-300",
+};
+
+const STATUS_LABEL: Record<DeliveryStatus, string> = {
+  pending: "pending",
+  delivered: "delivered",
+  sent: "sent (unconfirmed)",
+  failed: "failed",
+};
+
+const EMPTY_DRAFT: DestinationDraft = {
+  kind: "webhook",
+  name: "",
+  url: "",
+  secret: "",
+};
+
+const pillBtn =
+  "rounded-full border border-slate-300 px-3 py-1 text-[0.68rem] text-slate-700 hover:border-sky-500 hover:text-sky-600 disabled:opacity-40 dark:border-slate-600 dark:text-slate-100 dark:hover:border-sky-400";
+
+const inputClass =
+  "w-full rounded-full border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 outline-none placeholder:text-slate-400 focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/** Webhook / Slack / Discord destinations plus the delivery log. */
+export default function AlertDestinationsPanel() {
+  const destinations = useDestinations();
+  const log = useDeliveryLog();
+
+  const [draft, setDraft] = useState<DestinationDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const invalid = validateDestinationDraft(draft);
+    setError(invalid);
+    if (invalid) return;
+    addDestination(draft);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  async function handleTest(id: string) {
+    const destination = destinations.find((d) => d.id === id);
+    if (!destination) return;
+    setTestingId(id);
+    // tests report straight away instead of waiting on retries
+    await deliverToDestination(destination, sampleEvent(), {
+      test: true,
+      retryDelaysMs: [],
+    });
+    setTestingId(null);
+  }
+
+  return (
+    <div className="mt-6 grid gap-4 border-t border-slate-200 pt-4 dark:border-slate-800 lg:grid-cols-2">
+      {/* Destinations */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">
+            Destinations
+          </h3>
+          <p className="text-[11px] text-slate-500 dark:text-slate-400">
+            Post triggered alerts to webhooks or chat channels. Pick them per
+            alert with Edit.
+          </p>
+        </div>
+
+        {destinations.length === 0 ? (
+          <p className="text-[0.75rem] text-slate-500 dark:text-slate-400">
+            No destinations yet.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {destinations.map((d) => (
+              <li
+                key={d.id}
+                className="flex items-center justify-between gap-2 rounded-2xl border border-slate-200 px-3 py-2 dark:border-slate-800"
+              >
+                <div className="min-w-0">
+                  <div className="text-[0.78rem] font-semibold text-slate-900 dark:text-slate-50">
+                    {d.name}{" "}
+                    <span className="font-normal text-slate-500 dark:text-slate-400">
+                      · {KIND_LABEL[d.kind]}
+                      {d.kind === "webhook" && d.secret ? " · signed" : ""}
+                    </span>
+                  </div>
+                  <div className="truncate text-[0.65rem] text-slate-500 dark:text-slate-400">
+                    {d.url}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1.5">
+                  <button
+                    type="button"
+                    onClick={() => void handleTest(d.id)}
+                    disabled={testingId === d.id}
+                    className={pillBtn}
+                  >
+                    {testingId === d.id ? "Sending…" : "Send test"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeDestination(d.id)}
+                    className="rounded-full border border-rose-300 px-3 py-1 text-[0.68rem] text-rose-600 hover:bg-rose-50 dark:border-rose-800 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          onSubmit={handleAdd}
+          className="space-y-2 rounded-2xl border border-dashed border-slate-300 p-3 dark:border-slate-700"
+        >
+          <div className="flex gap-2">
+            <select
+              value={draft.kind}
+              onChange={(e) =>
+                setDraft({ ...draft, kind: e.target.value as DestinationKind })
+              }
+              className="rounded-full border border-slate-300 bg-white px-3 py-1.5 text-[0.7rem] text-slate-700 outline-none focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              aria-label="Destination type"
+            >
+              {DESTINATION_KINDS.map((k) => (
+                <option key={k.kind} value={k.kind}>
+                  {k.label}
+                </option>
+              ))}
+            </select>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name, e.g. #fx-desk"
+              className={inputClass}
+            />
+          </div>
+          <input
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            placeholder={URL_PLACEHOLDER[draft.kind]}
+            className={inputClass}
+          />
+          {draft.kind === "webhook" && (
+            <input
+              value={draft.secret}
+              onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+              placeholder="Signing secret (optional)"
+              className={inputClass}
+            />
+          )}
+          {error && <p className="text-[0.7rem] text-rose-500">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="rounded-full bg-sky-500 px-4 py-1 text-[0.68rem] font-semibold text-white hover:brightness-110"
+            >
+              Add destination
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Delivery log */}
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">
+              Delivery log
+            </h3>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400">
+              Failed posts are retried twice before giving up.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={clearDeliveryLog}
+            disabled={log.length === 0}
+            className={pillBtn}
+          >
+            Clear
+          </button>
+        </div>
+
+        {log.length === 0 ? (
+          <p className="text-[0.75rem] text-slate-500 dark:text-slate-400">
+            Nothing sent yet.
+          </p>
+        ) : (
+          <ul className="max-h-80 space-y-1.5 overflow-y-auto text-[0.7rem]">
+            {log.map((entry) => (
+              <li
+                key={entry.id}
+                className="rounded-xl bg-slate-50 px-3 py-2 dark:bg-slate-900/70"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-slate-800 dark:text-slate-100">
+                    {entry.test ? "Test · " : ""}
+                    {entry.pair} → {entry.destinationName}
+                  </span>
+                  <span className={STATUS_CLASS[entry.status]}>
+                    {STATUS_LABEL[entry.status]}
+                  </span>
+                </div>
+                <div className="text-[0.65rem] text-slate-500 dark:text-slate-400">
+                  {formatTime(entry.updatedAt)} · {entry.attempts} attempt
+                  {entry.attempts === 1 ? "" : "s"}
+                  {entry.httpStatus != null ? ` · HTTP ${entry.httpStatus}` : ""}
+                  {entry.status === "sent"
+                    ? " · Slack doesn't return a readable response"
+                    : ""}
+                </div>
+                {entry.error && (
+                  <div className="mt-0.5 break-words text-[0.65rem] text-rose-500">
+                    {entry.error}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
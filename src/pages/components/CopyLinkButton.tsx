@@ -0,0 +1,43 @@
+// src/pages/components/CopyLinkButton.tsx
+import { useState } from "react";
+
+type CopyLinkButtonProps = {
+  // app path + query to share, e.g. "/charts?from=USD&to=INR&range=30D"
+  path: string;
+  className: string;
+};
+
+/** Copies a full link to `path` so the current view can be pasted in chat. */
+export default function CopyLinkButton({ path, className }: CopyLinkButtonProps) {
+  const [status, setStatus] = useState<"idle" | "copied" | "failed">("idle");
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(
+        new URL(path, window.location.origin).toString()
+      );
+      setStatus("copied");
+    } catch {
+      setStatus("failed");
+    }
+    window.setTimeout(() => setStatus("idle"), 1500);
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => void handleCopy()}
+      title="Copy a link to this view"
+      className={className}
+    >
+      <span className="text-[11px]">🔗</span>
+      <span>
+        {status === "copied"
+          ? "Link copied"
+          : status === "failed"
+          ? "Couldn’t copy"
+          : "Copy link"}
+      </span>
+    </button>
+  );
+}
@@ -0,0 +1,208 @@
+// src/pages/components/CreateAlertDialog.tsx
+import { useState } from "react";
+import {
+  DEFAULT_ALERT_SCHEDULE,
+  addAlert,
+  validateAlertDraft,
+  type RateAlert,
+} from "../../services/alertStore";
+import { conditionDraft } from "../../services/alertConditions";
+import { useRate } from "../../hooks/useRates";
+import { useEmailVerification } from "../../hooks/useEmailVerification";
+import { needsEmailVerification } from "../../services/emailVerification";
+import AlertConditionFields from "./AlertConditionFields";
+import { CurrencyDropdown } from "./CurrencyDropdown";
+import VerifyEmailNotice from "./VerifyEmailNotice";
+
+type CreateAlertDialogProps = {
+  // starting pair; fixed unless `allowPairChange` is set
+  base: string;
+  quote: string;
+  allowPairChange?: boolean;
+  defaultEmail?: string;
+  onClose: () => void;
+  onSaved?: (alert: RateAlert) => void;
+};
+
+/** Modal alert form prefilled with a pair and its current rate. */
+export default function CreateAlertDialog({
+  base: initialBase,
+  quote: initialQuote,
+  allowPairChange = false,
+  defaultEmail = "",
+  onClose,
+  onSaved,
+}: CreateAlertDialogProps) {
+  const [base, setBase] = useState(initialBase);
+  const [quote, setQuote] = useState(initialQuote);
+  const { rate: currentRate } = useRate(base, quote);
+
+  const pairKey = `${base}/${quote}`;
+  const [condition, setCondition] = useState(() =>
+    conditionDraft("above", currentRate)
+  );
+  // re-seed the rate fields once the pair's rate is known (or the pair
+  // changes), unless the user has already edited them
+  const [touched, setTouched] = useState(false);
+  const [seededFor, setSeededFor] = useState(
+    currentRate != null ? pairKey : null
+  );
+  if (currentRate != null && seededFor !== pairKey) {
+    setSeededFor(pairKey);
+    if (!touched) setCondition(conditionDraft(condition.type, currentRate));
+  }
+  const [email, setEmail] = useState(defaultEmail);
+  const [error, setError] = useState<string | null>(null);
+  const unverified = needsEmailVerification(useEmailVerification());
+
+  // a new pair makes the old target meaningless, so seed it again
+  function handleBaseChange(code: string) {
+    setTouched(false);
+    setBase(code);
+  }
+
+  function handleQuoteChange(code: string) {
+    setTouched(false);
+    setQuote(code);
+  }
+
+  function handleConditionChange(next: typeof condition) {
+    setTouched(true);
+    setCondition(next);
+  }
+
+  function handleNudge(pct: number) {
+    if (currentRate == null) return;
+    const value = (currentRate * (1 + pct / 100)).toFixed(4);
+    setTouched(true);
+    // a nudge up/down implies the direction for level alerts
+    setCondition((prev) => ({
+      ...prev,
+      type:
+        prev.type === "above" || prev.type === "below"
+          ? pct > 0
+            ? "above"
+            : "below"
+          : prev.type,
+      value,
+    }));
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (unverified) return;
+
+    const draft = { from: base, to: quote, condition, email };
+    const invalid = validateAlertDraft(draft);
+    setError(invalid);
+    if (invalid) return;
+
+    try {
+      const saved = addAlert(draft);
+      onSaved?.(saved);
+      onClose();
+    } catch {
+      setError("Could not save alert. Please try again.");
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-2xl border border-slate-200 bg-white p-5 text-xs text-slate-700 shadow-2xl dark:border-slate-700 dark:bg-slate-950 dark:text-slate-200"
+      >
+        <div>
+          <h2 className="text-base font-semibold text-slate-900 dark:text-slate-50">
+            New alert · {base}/{quote}
+          </h2>
+          <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+            {currentRate != null
+              ? `Now 1 ${base} = ${currentRate.toFixed(4)} ${quote}. `
+              : ""}
+            Checked at {DEFAULT_ALERT_SCHEDULE.join(" and ")} to start with;
+            change the times in the alert manager.
+          </p>
+        </div>
+
+        {allowPairChange && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <CurrencyDropdown label="From" value={base} onChange={handleBaseChange} />
+            </div>
+            <div className="flex-1">
+              <CurrencyDropdown label="To" value={quote} onChange={handleQuoteChange} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <AlertConditionFields
+            draft={condition}
+            onChange={handleConditionChange}
+            base={base}
+            quote={quote}
+            currentRate={currentRate}
+            tone="auto"
+          />
+          {currentRate != null &&
+            (condition.type === "above" ||
+              condition.type === "below" ||
+              condition.type === "crosses") && (
+              <div className="flex flex-wrap gap-2 text-[0.65rem]">
+                {[-1, -0.5, 0.5, 1].map((pct) => (
+                  <button
+                    key={pct}
+                    type="button"
+                    onClick={() => handleNudge(pct)}
+                    className="rounded-full border border-slate-300 px-3 py-1 hover:border-sky-500 hover:text-sky-600 dark:border-slate-700 dark:hover:border-sky-400 dark:hover:text-sky-300"
+                  >
+                    {pct > 0 ? "+" : ""}
+                    {pct}%
+                  </button>
+                ))}
+              </div>
+            )}
+        </div>
+
+        <div>
+          <label className="mb-1 block text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-500 dark:text-slate-400">
+            Email for alerts
+          </label>
+          <input
+            type="email"
+            value={email}
+            placeholder="you@example.com"
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full rounded-full border border-slate-300 bg-white px-4 py-2 text-xs text-slate-900 outline-none placeholder:text-slate-400 focus:border-sky-500 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+          />
+        </div>
+
+        {error && <p className="text-[0.7rem] text-rose-500">{error}</p>}
+        <VerifyEmailNotice />
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-300 px-4 py-1.5 text-slate-600 hover:bg-slate-100 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={unverified}
+            className="rounded-full bg-sky-500 px-4 py-1.5 font-semibold text-white hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save alert
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 // src/pages/components/CurrencyDropdown.tsx
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useCurrencies } from "../../hooks/useRates";
 
 export type CurrencyMeta = {
   code: string;
@@ -13,20 +14,6 @@ type CurrencyDropdownProps = {
   onChange: (code: string) => void;
 };
 
-// Fallback list so the UI still works if API fails
-export const FALLBACK_CURRENCIES: CurrencyMeta[] = [
-  { code: "USD", name: "US Dollar" },
-  { code: "EUR", name: "Euro" },
-  { code: "GBP", name: "British Pound" },
-  { code: "INR", name: "Indian Rupee" },
-  { code: "JPY", name: "Japanese Yen" },
-  { code: "AUD", name: "Australian Dollar" },
-  { code: "CAD", name: "Canadian Dollar" },
-  { code: "CHF", name: "Swiss Franc" },
-  { code: "CNY", name: "Chinese Yuan" },
-  { code: "SGD", name: "Singapore Dollar" },
-];
-
 // Map currency code -> ISO 3166-1 alpha-2 country / region code
 // used by flag-icons: fi fi-us, fi fi-gb, fi fi-in, etc.
 const CURRENCY_TO_COUNTRY: Record<string, string> = {
@@ -67,58 +54,26 @@ export function CurrencyDropdown({
 }: CurrencyDropdownProps) {
   const [open, setOpen] = useState(false);
   const [search, setSearch] = useState("");
-  const [currencies, setCurrencies] = useState<CurrencyMeta[]>(FALLBACK_CURRENCIES);
-  const [loading, setLoading] = useState(false);
-  const [apiError, setApiError] = useState<string | null>(null);
+  // Currency list comes from the shared rate service (cached + fallback list)
+  const {
+    currencies: currencyNames,
+    loading,
+    error: apiError,
+  } = useCurrencies();
 
   const containerRef = useRef<HTMLDivElement | null>(null);
 
-  // Load full currency list from the API once
-  useEffect(() => {
-    let cancelled = false;
-
-    async function fetchCurrencies() {
-      try {
-        setLoading(true);
-        setApiError(null);
-
-        const res = await fetch("https://api.frankfurter.app/currencies");
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = (await res.json()) as Record<string, string>;
-
-        if (cancelled) return;
-
-        const next: CurrencyMeta[] = Object.entries(data).map(
-          ([code, name]) => ({
-            code,
-            name,
-            flagClass: getFlagClass(code),
-          })
-        );
-
-        next.sort((a, b) => a.code.localeCompare(b.code));
-        setCurrencies(next);
-      } catch (err) {
-        console.error("Currency list API error:", err);
-        if (!cancelled) {
-          setApiError("Using fallback list (API unavailable).");
-          setCurrencies(
-            FALLBACK_CURRENCIES.map((c) => ({
-              ...c,
-              flagClass: getFlagClass(c.code),
-            }))
-          );
-        }
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    }
-
-    fetchCurrencies();
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+  const currencies: CurrencyMeta[] = useMemo(
+    () =>
+      Object.entries(currencyNames)
+        .map(([code, name]) => ({
+          code,
+          name,
+          flagClass: getFlagClass(code),
+        }))
+        .sort((a, b) => a.code.localeCompare(b.code)),
+    [currencyNames]
+  );
 
   // Close dropdown on outside click
   useEffect(() => {
@@ -0,0 +1,171 @@
+// src/pages/components/ForgotPasswordPanel.tsx
+import React, { useState } from "react";
+import { useResendCooldown } from "../../hooks/useEmailVerification";
+import {
+  RESET_WINDOW_MS,
+  requestPasswordReset,
+  resetAvailableAt,
+} from "../../services/passwordReset";
+
+type ForgotPasswordPanelProps = {
+  initialEmail?: string;
+  onBack: () => void;
+};
+
+/**
+ * Login card body for "Forgot password?": asks for the email, sends the
+ * reset link, then shows a confirmation with a rate-limited resend.
+ */
+export default function ForgotPasswordPanel({
+  initialEmail = "",
+  onBack,
+}: ForgotPasswordPanelProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+
+  const secondsLeft = useResendCooldown(
+    resetAvailableAt(sentTo ?? email),
+    RESET_WINDOW_MS
+  );
+
+  async function send(address: string) {
+    setError(null);
+    setNote(null);
+    setBusy(true);
+    const failure = await requestPasswordReset(address);
+    setBusy(false);
+    return failure;
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const failure = await send(email);
+    if (failure) setError(failure);
+    else setSentTo(email.trim());
+  }
+
+  async function handleResend() {
+    if (!sentTo) return;
+    const failure = await send(sentTo);
+    if (failure) setError(failure);
+    else setNote("Sent again. It can take a minute to arrive.");
+  }
+
+  const waitLabel =
+    secondsLeft > 60
+      ? `Try again in ${Math.ceil(secondsLeft / 60)} min`
+      : `Resend in ${secondsLeft}s`;
+
+  if (sentTo) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">
+          Check your inbox
+        </h2>
+        <p className="mt-1 text-sm text-slate-500">
+          If an account exists for{" "}
+          <span className="font-medium text-slate-700">{sentTo}</span>, we
+          sent a link to reset your password. Open it, choose a new password,
+          then sign in here.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+            {error}
+          </div>
+        )}
+        {note && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-700">
+            {note}
+          </div>
+        )}
+
+        <p className="mt-4 text-xs text-slate-500">
+          Nothing yet? Check your spam folder, or request another email.
+        </p>
+
+        <div className="mt-4 flex flex-col gap-2">
+          <button
+            type="button"
+            onClick={onBack}
+            className="inline-flex w-full items-center justify-center rounded-lg bg-sky-600 px-4 py-3 text-lg font-medium text-white shadow-md transition hover:bg-sky-700"
+          >
+            Back to sign in
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleResend()}
+            disabled={busy || secondsLeft > 0}
+            className="inline-flex w-full items-center justify-center rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-md font-medium text-slate-800 shadow-md transition hover:border-sky-500 hover:text-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {busy
+              ? "Sending..."
+              : secondsLeft > 0
+              ? waitLabel
+              : "Resend email"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold tracking-tight text-slate-900">
+        Reset your password
+      </h2>
+      <p className="mt-1 text-sm text-slate-500">
+        Enter the email you signed up with and we&apos;ll send you a reset
+        link.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      <form className="mt-4 space-y-4" onSubmit={handleSubmit}>
+        <div className="space-y-1.5">
+          <label
+            htmlFor="reset-email"
+            className="text-sm font-medium text-slate-700"
+          >
+            Email
+          </label>
+          <input
+            id="reset-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-md text-slate-900 shadow-md outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={busy || secondsLeft > 0}
+          className="mt-2 inline-flex w-full items-center justify-center rounded-lg bg-sky-600 px-4 py-3 text-lg font-medium text-white shadow-md transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {busy
+            ? "Sending..."
+            : secondsLeft > 0
+            ? waitLabel
+            : "Send reset link"}
+        </button>
+      </form>
+
+      <button
+        type="button"
+        onClick={onBack}
+        className="mt-4 block w-full text-center text-xs font-medium text-sky-600 hover:text-sky-500"
+      >
+        Back to sign in
+      </button>
+    </div>
+  );
+}
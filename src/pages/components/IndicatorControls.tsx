@@ -0,0 +1,178 @@
+// src/pages/components/IndicatorControls.tsx
+import { useState } from "react";
+import {
+  clampParam,
+  INDICATOR_LIMITS,
+  type IndicatorKey,
+  type IndicatorSettings,
+  type ParamLimits,
+} from "../../hooks/useIndicatorSettings";
+
+type IndicatorControlsProps = {
+  settings: IndicatorSettings;
+  onChange: <K extends IndicatorKey>(
+    key: K,
+    patch: Partial<IndicatorSettings[K]>
+  ) => void;
+};
+
+type ParamField = ParamLimits & {
+  field: string;
+  label: string;
+};
+
+const INDICATORS: {
+  key: IndicatorKey;
+  label: string;
+  params: ParamField[];
+}[] = [
+  {
+    key: "sma",
+    label: "SMA",
+    params: [
+      { field: "period", label: "Period", ...INDICATOR_LIMITS.sma.period },
+    ],
+  },
+  {
+    key: "ema",
+    label: "EMA",
+    params: [
+      { field: "period", label: "Period", ...INDICATOR_LIMITS.ema.period },
+    ],
+  },
+  {
+    key: "bollinger",
+    label: "Bollinger",
+    params: [
+      { field: "period", label: "Period", ...INDICATOR_LIMITS.bollinger.period },
+      {
+        field: "multiplier",
+        label: "σ",
+        ...INDICATOR_LIMITS.bollinger.multiplier,
+      },
+    ],
+  },
+  {
+    key: "rsi",
+    label: "RSI",
+    params: [
+      { field: "period", label: "Period", ...INDICATOR_LIMITS.rsi.period },
+    ],
+  },
+  {
+    key: "macd",
+    label: "MACD",
+    params: [
+      { field: "fast", label: "Fast", ...INDICATOR_LIMITS.macd.fast },
+      { field: "slow", label: "Slow", ...INDICATOR_LIMITS.macd.slow },
+      { field: "signal", label: "Signal", ...INDICATOR_LIMITS.macd.signal },
+    ],
+  },
+  {
+    key: "volatility",
+    label: "Volatility",
+    params: [
+      {
+        field: "window",
+        label: "Window",
+        ...INDICATOR_LIMITS.volatility.window,
+      },
+    ],
+  },
+];
+
+type ParamInputProps = {
+  limits: ParamLimits;
+  value: number;
+  onCommit: (value: number) => void;
+};
+
+/**
+ * Number field that lets a value be typed through out-of-range steps
+ * (e.g. "1" on the way to "15"): in-range values apply as typed, anything
+ * else is clamped on blur or Enter.
+ */
+function ParamInput({ limits, value, onCommit }: ParamInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  function parse(text: string): number | null {
+    const n = Number(text);
+    return text.trim() && Number.isFinite(n) ? n : null;
+  }
+
+  function commit() {
+    if (draft === null) return;
+    const n = parse(draft);
+    if (n != null) onCommit(clampParam(limits, n));
+    setDraft(null);
+  }
+
+  return (
+    <input
+      type="number"
+      min={limits.min}
+      max={limits.max}
+      step={limits.step ?? 1}
+      value={draft ?? String(value)}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const n = parse(e.target.value);
+        if (n != null && clampParam(limits, n) === n) onCommit(n);
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      className="w-12 rounded-full border border-slate-300 bg-white px-1.5 py-0.5 text-center text-[10px] text-slate-800 outline-none focus:border-sky-500 dark:border-slate-600 dark:bg-slate-950 dark:text-slate-100"
+    />
+  );
+}
+
+export default function IndicatorControls({
+  settings,
+  onChange,
+}: IndicatorControlsProps) {
+  return (
+    <div className="flex flex-wrap gap-2 text-[10px]">
+      {INDICATORS.map(({ key, label, params }) => {
+        const current = settings[key] as Record<string, number | boolean>;
+        const enabled = settings[key].enabled;
+
+        return (
+          <div
+            key={key}
+            className={`inline-flex items-center gap-1.5 rounded-full border px-2 py-1 ${
+              enabled
+                ? "border-sky-500 bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-200"
+                : "border-slate-200 bg-slate-50 text-slate-600 dark:border-slate-700 dark:bg-slate-900/80 dark:text-slate-300"
+            }`}
+          >
+            <label className="inline-flex cursor-pointer items-center gap-1 font-semibold">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => onChange(key, { enabled: e.target.checked })}
+                className="h-3 w-3 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+              />
+              {label}
+            </label>
+
+            {enabled &&
+              params.map((p) => (
+                <label key={p.field} className="inline-flex items-center gap-1">
+                  <span className="text-slate-500 dark:text-slate-400">
+                    {p.label}
+                  </span>
+                  <ParamInput
+                    limits={p}
+                    value={Number(current[p.field])}
+                    onCommit={(value) => onChange(key, { [p.field]: value })}
+                  />
+                </label>
+              ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+// src/pages/components/IndicatorPanel.tsx
+import { useMemo } from "react";
+import type { ChartOptions } from "chart.js";
+import { Line } from "react-chartjs-2";
+import {
+  chartColors,
+  formatChartDate,
+  type ChartOverlay,
+  type ChartTheme,
+} from "./chartSetup";
+
+type IndicatorPanelProps = {
+  title: string;
+  labels: string[]; // ISO dates, same as the price chart
+  lines: ChartOverlay[];
+  theme: ChartTheme;
+  // horizontal guides, e.g. RSI 30/70
+  guides?: number[];
+  yMin?: number;
+  yMax?: number;
+  digits?: number;
+};
+
+/** Small synced-width chart under the price chart for RSI / MACD / volatility. */
+export default function IndicatorPanel({
+  title,
+  labels,
+  lines,
+  theme,
+  guides = [],
+  yMin,
+  yMax,
+  digits = 2,
+}: IndicatorPanelProps) {
+  const { grid: gridColor, tick: tickColor } = chartColors(theme);
+
+  const data = useMemo(
+    () => ({
+      labels,
+      datasets: [
+        ...lines.map((l) => ({
+          label: l.label,
+          data: l.values,
+          borderColor: l.color,
+          backgroundColor: `${l.color}33`,
+          borderWidth: 1.2,
+          borderDash: l.dashed ? [5, 4] : undefined,
+          pointRadius: 0,
+          pointHoverRadius: 2,
+          fill: l.fill ?? false,
+        })),
+        ...guides.map((g) => ({
+          label: `${g}`,
+          data: labels.map(() => g),
+          borderColor: "rgba(148, 163, 184, 0.6)",
+          borderWidth: 1,
+          borderDash: [3, 3],
+          pointRadius: 0,
+          pointHoverRadius: 0,
+          fill: false,
+        })),
+      ],
+    }),
+    [labels, lines, guides]
+  );
+
+  const options: ChartOptions<"line"> = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: false,
+      interaction: { mode: "index", intersect: false },
+      scales: {
+        x: { display: false },
+        y: {
+          min: yMin,
+          max: yMax,
+          ticks: { color: tickColor, maxTicksLimit: 4 },
+          grid: { color: gridColor },
+        },
+      },
+      plugins: {
+        legend: {
+          display: true,
+          labels: {
+            color: tickColor,
+            boxWidth: 10,
+            font: { size: 10 },
+            // hide guide lines from the legend
+            filter: (item) => (item.datasetIndex ?? 0) < lines.length,
+          },
+        },
+        tooltip: {
+          filter: (item) => item.datasetIndex < lines.length,
+          callbacks: {
+            title: (items) => (items[0] ? formatChartDate(items[0].label) : ""),
+            label: (item) =>
+              `${item.dataset.label}: ${Number(item.parsed.y).toFixed(digits)}`,
+          },
+        },
+      },
+    }),
+    [gridColor, tickColor, yMin, yMax, digits, lines.length]
+  );
+
+  return (
+    <div className="rounded-2xl border border-slate-200 px-3 py-2 dark:border-slate-800">
+      <p className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-500 dark:text-slate-400">
+        {title}
+      </p>
+      <div className="relative h-28">
+        <Line data={data} options={options} />
+      </div>
+    </div>
+  );
+}
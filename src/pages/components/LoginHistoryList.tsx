@@ -0,0 +1,133 @@
+// src/pages/components/LoginHistoryList.tsx
+import { useEffect, useState } from "react";
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import {
+  fetchLoginHistory,
+  type LoginEvent,
+} from "../../services/loginHistory";
+
+type LoginHistoryListProps = {
+  uid: string;
+};
+
+const METHOD_LABEL: Record<LoginEvent["method"], string> = {
+  password: "Password",
+  google: "Google",
+};
+
+function formatTime(at: number) {
+  return new Date(at).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/** Sign-in history of the account, newest first, loaded a page at a time. */
+export default function LoginHistoryList({ uid }: LoginHistoryListProps) {
+  const [events, setEvents] = useState<LoginEvent[] | null>(null);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLoginHistory(uid)
+      .then((page) => {
+        if (cancelled) return;
+        setEvents(page.events);
+        setCursor(page.cursor);
+      })
+      .catch((err) => {
+        console.error("Load login history error", err);
+        if (!cancelled) {
+          setEvents([]);
+          setError("Couldn’t load login activity.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  async function handleLoadMore() {
+    if (!cursor) return;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await fetchLoginHistory(uid, cursor);
+      setEvents((prev) => [...(prev ?? []), ...page.events]);
+      setCursor(page.cursor);
+    } catch (err) {
+      console.error("Load login history error", err);
+      setError("Couldn’t load older activity. Please try again.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  return (
+    <div>
+      <p className="text-[11px] font-semibold text-slate-600 mb-1">
+        Recent login activity
+      </p>
+      <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+        {events === null ? (
+          <p className="text-[11px] text-slate-500">Loading…</p>
+        ) : events.length === 0 && !error ? (
+          <p className="text-[11px] text-slate-500">No login activity yet.</p>
+        ) : (
+          <ul className="space-y-1.5 text-[11px] text-slate-600">
+            {events.map((e) => (
+              <li key={e.id} className="flex items-start gap-2">
+                <span
+                  className={`mt-1 h-1.5 w-1.5 shrink-0 rounded-full ${
+                    e.success ? "bg-emerald-500" : "bg-red-500"
+                  }`}
+                />
+                <div className="min-w-0">
+                  <p className="flex flex-wrap items-center gap-1.5">
+                    <span className="font-semibold text-slate-700">
+                      {e.success ? "Signed in" : "Failed sign-in"}
+                    </span>
+                    <span>
+                      · {METHOD_LABEL[e.method]}
+                      {e.mfa ? " + 2FA" : ""}
+                    </span>
+                    {e.newDevice && (
+                      <span className="rounded-full bg-amber-50 border border-amber-400 px-2 py-0.5 text-[10px] text-amber-700">
+                        New device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-slate-500">
+                    {formatTime(e.at)} · {e.device?.label ?? "Unknown device"}
+                    {e.location ? ` · ${e.location}` : ""}
+                  </p>
+                  {e.error && <p className="text-red-500">{e.error}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {error && <p className="mt-1 text-[11px] text-red-500">{error}</p>}
+        {cursor && (
+          <button
+            type="button"
+            onClick={() => void handleLoadMore()}
+            disabled={loadingMore}
+            className="mt-2 text-[11px] font-semibold text-sky-600 hover:underline disabled:opacity-50"
+          >
+            {loadingMore ? "Loading…" : "Show older activity"}
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-[10px] text-slate-400">
+        Didn&apos;t recognise a sign-in? Change your password and sign out
+        the other devices above.
+      </p>
+    </div>
+  );
+}
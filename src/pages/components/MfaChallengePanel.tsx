@@ -0,0 +1,131 @@
+// src/pages/components/MfaChallengePanel.tsx
+import React, { useState } from "react";
+import type { MultiFactorResolver } from "firebase/auth";
+import {
+  resolveWithRecoveryCode,
+  resolveWithTotp,
+} from "../../services/mfa";
+
+type MfaChallengePanelProps = {
+  resolver: MultiFactorResolver;
+  onSignedIn?: () => void;
+  // a wrong or expired code, for the login history
+  onFailed?: (message: string) => void;
+  onCancel: () => void;
+  cancelLabel?: string;
+};
+
+/**
+ * Second sign-in step: a code from the authenticator app, or a one-time
+ * recovery code. Used by the login card and when a 2FA account confirms
+ * it's them before a sensitive change.
+ */
+export default function MfaChallengePanel({
+  resolver,
+  onSignedIn,
+  onFailed,
+  onCancel,
+  cancelLabel = "Cancel and sign in again",
+}: MfaChallengePanelProps) {
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError(
+        useRecovery
+          ? "Please enter one of your recovery codes."
+          : "Please enter the code from your authenticator app."
+      );
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    const failure = useRecovery
+      ? await resolveWithRecoveryCode(resolver, code)
+      : await resolveWithTotp(resolver, code);
+    setBusy(false);
+
+    if (failure) {
+      setError(failure);
+      if (onFailed) onFailed(failure);
+    } else if (onSignedIn) {
+      onSignedIn();
+    }
+  }
+
+  function toggleMode() {
+    setUseRecovery((r) => !r);
+    setCode("");
+    setError(null);
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold tracking-tight text-slate-900">
+        Two-step verification
+      </h2>
+      <p className="mt-1 text-sm text-slate-500">
+        {useRecovery
+          ? "Enter one of the recovery codes you saved. This turns off your authenticator app and your other codes – set up two-factor authentication again afterwards."
+          : "Enter the 6-digit code from your authenticator app."}
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      <form className="mt-4 space-y-4" onSubmit={handleSubmit}>
+        <div className="space-y-1.5">
+          <label
+            htmlFor="mfa-code"
+            className="text-sm font-medium text-slate-700"
+          >
+            {useRecovery ? "Recovery code" : "Verification code"}
+          </label>
+          <input
+            id="mfa-code"
+            autoFocus
+            inputMode={useRecovery ? "text" : "numeric"}
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecovery ? "xxxx-xxxx-xxxx" : "123456"}
+            className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-center font-mono text-lg tracking-[0.3em] text-slate-900 shadow-md outline-none placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="mt-2 inline-flex w-full items-center justify-center rounded-lg bg-sky-600 px-4 py-3 text-lg font-medium text-white shadow-md transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {busy ? "Verifying..." : "Verify"}
+        </button>
+      </form>
+
+      <button
+        type="button"
+        onClick={toggleMode}
+        className="mt-4 block w-full text-center text-xs font-medium text-sky-600 hover:text-sky-500"
+      >
+        {useRecovery
+          ? "Use your authenticator app instead"
+          : "Lost your phone? Use a recovery code"}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="mt-2 block w-full text-center text-xs text-slate-500 hover:text-slate-700"
+      >
+        {cancelLabel}
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 // src/pages/components/Navbar.tsx
 import { useState } from "react";
+import NotificationBell from "./NotificationBell";
 
 export type MainTab = "converter" | "charts" | "alerts";
 
@@ -18,6 +19,7 @@ type NavbarProps = {
   onOpenProfile: () => void;
   onLogout: () => void;
   onOpenChartsFull?: () => void;
+  onOpenPairChart?: (base: string, quote: string) => void;
   theme: ThemeMode;
   onToggleTheme: () => void;
 };
@@ -34,6 +36,7 @@ export default function Navbar({
   user,
   onOpenProfile,
   onLogout,
+  onOpenPairChart,
   theme,
   onToggleTheme,
 }: NavbarProps) {
@@ -210,8 +213,10 @@ export default function Navbar({
           })}
         </nav>
 
-        {/* RIGHT: theme toggle + profile/login + mobile hamburger */}
+        {/* RIGHT: notifications + theme toggle + profile/login + mobile hamburger */}
         <div className="flex items-center gap-2 sm:gap-3">
+          <NotificationBell onOpenPair={onOpenPairChart} />
+
           {/* Theme toggle (minimal) */}
           <button
             type="button"
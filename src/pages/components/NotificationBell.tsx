@@ -0,0 +1,162 @@
+// src/pages/components/NotificationBell.tsx
+import { useState } from "react";
+import { Bell } from "lucide-react";
+import { useNotifications } from "../../hooks/useNotifications";
+import {
+  clearNotifications,
+  dismissOnboarding,
+  isOnboardingDismissed,
+  markAllNotificationsRead,
+  markNotificationRead,
+  popupPermission,
+  requestPopupPermission,
+  type AppNotification,
+} from "../../services/notifications";
+
+type NotificationBellProps = {
+  onOpenPair?: (base: string, quote: string) => void;
+};
+
+function timeAgo(iso: string): string {
+  const mins = Math.round((Date.now() - Date.parse(iso)) / 60000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.round(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+/** Navbar bell with the notification list and the popup opt-in prompt. */
+export default function NotificationBell({ onOpenPair }: NotificationBellProps) {
+  const items = useNotifications();
+  const [open, setOpen] = useState(false);
+
+  const unread = items.filter((n) => !n.read).length;
+  // both are re-read whenever the notification store notifies
+  const permission = popupPermission();
+  const showOnboarding =
+    permission === "default" && !isOnboardingDismissed();
+
+  function handleItemClick(item: AppNotification) {
+    markNotificationRead(item.id);
+    if (item.pair && onOpenPair) {
+      setOpen(false);
+      onOpenPair(item.pair.base, item.pair.quote);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="relative inline-flex h-8 w-8 items-center justify-center rounded-full border border-slate-600 bg-transparent text-slate-200 hover:border-sky-500 hover:text-sky-400"
+        aria-label={
+          unread > 0 ? `Notifications (${unread} unread)` : "Notifications"
+        }
+      >
+        <Bell className="h-4 w-4" />
+        {unread > 0 && (
+          <span className="absolute -right-1 -top-1 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-rose-500 px-1 text-[0.6rem] font-semibold text-white">
+            {unread > 9 ? "9+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-10 z-50 w-72 rounded-xl border border-slate-700 bg-[#020617] p-2 text-xs shadow-xl">
+          <div className="flex items-center justify-between px-2 py-1">
+            <span className="font-semibold text-slate-100">Notifications</span>
+            <div className="flex gap-2 text-[0.65rem]">
+              <button
+                type="button"
+                onClick={markAllNotificationsRead}
+                disabled={unread === 0}
+                className="text-sky-400 hover:text-sky-300 disabled:opacity-40"
+              >
+                Mark all read
+              </button>
+              <button
+                type="button"
+                onClick={clearNotifications}
+                disabled={items.length === 0}
+                className="text-slate-400 hover:text-rose-400 disabled:opacity-40"
+              >
+                Clear all
+              </button>
+            </div>
+          </div>
+
+          {showOnboarding && (
+            <div className="mx-1 my-2 rounded-lg border border-sky-700/60 bg-sky-950/40 px-3 py-2 text-[0.7rem] text-slate-200">
+              <p>Get a desktop popup when one of your alerts triggers.</p>
+              <div className="mt-2 flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => void requestPopupPermission()}
+                  className="rounded-full bg-sky-500 px-3 py-1 font-semibold text-white hover:brightness-110"
+                >
+                  Enable
+                </button>
+                <button
+                  type="button"
+                  onClick={dismissOnboarding}
+                  className="rounded-full border border-slate-600 px-3 py-1 text-slate-300 hover:bg-slate-800"
+                >
+                  Not now
+                </button>
+              </div>
+            </div>
+          )}
+          {permission === "denied" && (
+            <p className="mx-1 my-2 rounded-lg bg-slate-900 px-3 py-2 text-[0.65rem] text-slate-400">
+              Desktop popups are blocked. Allow notifications for this site in
+              your browser settings to get them.
+            </p>
+          )}
+
+          {items.length === 0 ? (
+            <p className="px-2 py-4 text-center text-slate-400">
+              No notifications yet.
+            </p>
+          ) : (
+            <ul className="max-h-80 space-y-1 overflow-y-auto">
+              {items.map((item) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleItemClick(item)}
+                    className="flex w-full items-start gap-2 rounded-lg px-2 py-2 text-left hover:bg-slate-800/80"
+                  >
+                    <span
+                      className={`mt-1 h-2 w-2 shrink-0 rounded-full ${
+                        item.read ? "bg-transparent" : "bg-sky-400"
+                      }`}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span
+                        className={`block truncate ${
+                          item.read
+                            ? "text-slate-300"
+                            : "font-semibold text-slate-100"
+                        }`}
+                      >
+                        {item.title}
+                      </span>
+                      <span className="block text-[0.65rem] text-slate-400">
+                        {item.body}
+                      </span>
+                      <span className="block text-[0.6rem] text-slate-500">
+                        {timeAgo(item.createdAt)}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+// src/pages/components/PairChart.tsx
+import { useMemo, useRef } from "react";
+import type { Chart as ChartJS, ChartOptions } from "chart.js";
+import { Line } from "react-chartjs-2";
+import type { SeriesPoint } from "../../services/rateService";
+import {
+  chartColors,
+  formatChartDate,
+  type ChartOverlay,
+  type ChartTheme,
+} from "./chartSetup";
+
+export type ChartScale = "linear" | "logarithmic";
+
+type PairChartProps = {
+  base: string;
+  quote: string;
+  points: SeriesPoint[];
+  scale: ChartScale;
+  theme: ChartTheme;
+  // indicator lines drawn over the price (SMA, EMA, Bollinger bands…)
+  overlays?: ChartOverlay[];
+};
+
+export default function PairChart({
+  base,
+  quote,
+  points,
+  scale,
+  theme,
+  overlays = [],
+}: PairChartProps) {
+  const chartRef = useRef<ChartJS<"line"> | null>(null);
+
+  const first = points[0]?.value ?? 0;
+  const last = points[points.length - 1]?.value ?? 0;
+  const lineColor = last >= first ? "#22c55e" : "#ef4444";
+  const { grid: gridColor, tick: tickColor } = chartColors(theme);
+
+  const data = useMemo(
+    () => ({
+      labels: points.map((p) => p.date),
+      datasets: [
+        {
+          label: `${base}/${quote}`,
+          data: points.map((p) => p.value),
+          borderColor: lineColor,
+          backgroundColor: `${lineColor}1f`,
+          borderWidth: 1.6,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          tension: 0.15,
+          fill: true,
+        },
+        ...overlays.map((o) => ({
+          label: o.label,
+          data: o.values,
+          borderColor: o.color,
+          backgroundColor: `${o.color}14`,
+          borderWidth: 1.2,
+          borderDash: o.dashed ? [5, 4] : undefined,
+          pointRadius: 0,
+          pointHoverRadius: 0,
+          spanGaps: false,
+          fill: o.fill ?? false,
+        })),
+      ],
+    }),
+    [points, base, quote, lineColor, overlays]
+  );
+
+  const options: ChartOptions<"line"> = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: false,
+      interaction: { mode: "index", intersect: false },
+      scales: {
+        x: {
+          ticks: { color: tickColor, maxTicksLimit: 8, maxRotation: 0 },
+          grid: { display: false },
+        },
+        y: {
+          type: scale,
+          ticks: { color: tickColor },
+          grid: { color: gridColor },
+        },
+      },
+      plugins: {
+        legend: {
+          display: overlays.length > 0,
+          labels: { color: tickColor, boxWidth: 10, font: { size: 10 } },
+        },
+        tooltip: {
+          displayColors: overlays.length > 0,
+          callbacks: {
+            title: (items) => (items[0] ? formatChartDate(items[0].label) : ""),
+            label: (item) =>
+              item.datasetIndex === 0
+                ? `1 ${base} = ${Number(item.parsed.y).toFixed(4)} ${quote}`
+                : `${item.dataset.label}: ${Number(item.parsed.y).toFixed(4)}`,
+          },
+        },
+        zoom: {
+          pan: { enabled: true, mode: "x" },
+          zoom: {
+            wheel: { enabled: true },
+            pinch: { enabled: true },
+            mode: "x",
+          },
+          limits: { x: { minRange: 5 } },
+        },
+      },
+    }),
+    [scale, base, quote, gridColor, tickColor, overlays.length]
+  );
+
+  if (points.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-72 sm:h-96">
+        <Line ref={chartRef} data={data} options={options} />
+      </div>
+      <div className="flex items-center justify-between text-[10px] text-slate-500 dark:text-slate-400">
+        <span>Scroll or pinch to zoom · drag to pan</span>
+        <button
+          type="button"
+          onClick={() => chartRef.current?.resetZoom()}
+          className="rounded-full border border-slate-300 px-3 py-1 font-semibold text-slate-600 hover:border-sky-500 hover:text-sky-600 dark:border-slate-600 dark:text-slate-200 dark:hover:border-sky-400"
+        >
+          Reset zoom
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+// src/pages/components/SessionList.tsx
+import { useState } from "react";
+import { Monitor, Smartphone, Tablet } from "lucide-react";
+import { useSessions } from "../../hooks/useSessions";
+import {
+  currentSessionId,
+  revokeOtherSessions,
+  revokeSession,
+  type SessionRecord,
+} from "../../services/sessions";
+
+type SessionListProps = {
+  uid: string;
+};
+
+// heartbeats come every 5 minutes while a tab is open
+const ACTIVE_WINDOW_MS = 10 * 60_000;
+
+const DEVICE_ICON = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+function formatLastSeen(session: SessionRecord) {
+  if (Date.now() - session.lastSeenAt < ACTIVE_WINDOW_MS) return "Active now";
+  return new Date(session.lastSeenAt).toLocaleString(undefined, {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/** Devices signed in to the account, with remote sign-out. */
+export default function SessionList({ uid }: SessionListProps) {
+  const sessions = useSessions(uid);
+  const mine = currentSessionId(uid);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const others = sessions?.filter((s) => s.id !== mine) ?? [];
+  // this device first
+  const ordered = sessions
+    ? [...sessions.filter((s) => s.id === mine), ...others]
+    : [];
+
+  async function run(id: string, action: () => Promise<void>) {
+    setPendingId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Revoke session error", err);
+      setError("Couldn’t sign that device out. Please try again.");
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-[11px] font-semibold text-slate-600">
+          Recent sessions
+        </p>
+        {others.length > 0 && (
+          <button
+            type="button"
+            onClick={() =>
+              void run("others", () => revokeOtherSessions(uid, others))
+            }
+            disabled={pendingId !== null}
+            className="text-[10px] font-semibold text-red-500 hover:underline disabled:opacity-50"
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {sessions === null ? (
+          <p className="text-[11px] text-slate-500">Loading sessions…</p>
+        ) : ordered.length === 0 ? (
+          <p className="text-[11px] text-slate-500">
+            No sessions recorded yet.
+          </p>
+        ) : (
+          ordered.map((s) => {
+            const Icon =
+              DEVICE_ICON[s.device?.deviceType ?? "desktop"] ?? Monitor;
+            const isMine = s.id === mine;
+            return (
+              <div
+                key={s.id}
+                className="flex items-center justify-between rounded-2xl bg-slate-50 border border-slate-200 px-3 py-2"
+              >
+                <div>
+                  <p className="font-semibold flex items-center gap-2">
+                    <Icon className="w-3 h-3 text-slate-500" />
+                    {s.device?.label ?? "Unknown device"}
+                    {isMine && (
+                      <span className="rounded-full bg-emerald-50 border border-emerald-400 px-2 py-0.5 text-[10px] text-emerald-700">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-[11px] text-slate-500">
+                    {s.location ?? "Unknown location"} •{" "}
+                    {isMine ? "Active now" : formatLastSeen(s)}
+                  </p>
+                </div>
+                {!isMine && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      void run(s.id, () => revokeSession(uid, s.id))
+                    }
+                    disabled={pendingId !== null}
+                    className="rounded-full border border-slate-300 px-3 py-1 text-[10px] font-semibold hover:border-red-400 hover:text-red-500 disabled:opacity-50"
+                  >
+                    {pendingId === s.id ? "Signing out…" : "Sign out"}
+                  </button>
+                )}
+              </div>
+            );
+          })
+        )}
+        {error && <p className="text-[11px] text-red-500">{error}</p>}
+        {others.length > 0 && (
+          <p className="text-[10px] text-slate-500">
+            A signed-out device ends its session the next time it opens the
+            app online. If you don&apos;t trust a device, also change your
+            password: that signs out every other device straight away.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
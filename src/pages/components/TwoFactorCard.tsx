@@ -0,0 +1,460 @@
+// src/pages/components/TwoFactorCard.tsx
+import { useEffect, useState } from "react";
+import type { MultiFactorResolver } from "firebase/auth";
+import QRCode from "qrcode";
+import { Smartphone } from "lucide-react";
+import MfaChallengePanel from "./MfaChallengePanel";
+import { useMfa } from "../../hooks/useMfa";
+import {
+  disableTotp,
+  finishTotpEnrollment,
+  issueRecoveryCodes,
+  recoveryCodesLeft,
+  startTotpEnrollment,
+  type TotpEnrollment,
+} from "../../services/mfa";
+import { reauthMethod, reauthenticate } from "../../services/reauth";
+
+type Step =
+  | { kind: "confirm"; intent: "enable" | "disable" }
+  // 2FA accounts confirm with a code after their password / Google
+  | {
+      kind: "challenge";
+      intent: "enable" | "disable";
+      resolver: MultiFactorResolver;
+    }
+  | { kind: "scan"; enrollment: TotpEnrollment; qrDataUrl: string }
+  | { kind: "codes"; enrollment: TotpEnrollment; codes: string[] };
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-3 py-2 text-sm outline-none focus:border-sky-500";
+
+function formatSecret(secret: string) {
+  return secret.replace(/(.{4})/g, "$1 ").trim();
+}
+
+function formatDate(value: string) {
+  const d = new Date(value);
+  return Number.isNaN(d.getTime())
+    ? value
+    : d.toLocaleDateString(undefined, {
+        year: "numeric",
+        month: "short",
+        day: "2-digit",
+      });
+}
+
+/**
+ * Two-factor authentication on the profile page: turns an authenticator
+ * app on (QR code, first code, recovery codes) or off. Both ask the user to
+ * confirm it's them first.
+ */
+export default function TwoFactorCard() {
+  const mfa = useMfa();
+  const enabled = !!mfa.totpFactorId;
+  const reauthWith = reauthMethod();
+
+  const [step, setStep] = useState<Step | null>(null);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [codesLeft, setCodesLeft] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // re-counted whenever 2FA is turned on or a code list was just shown
+  useEffect(() => {
+    if (!mfa.totpFactorId || step) return;
+    let cancelled = false;
+    void recoveryCodesLeft().then((n) => {
+      if (!cancelled) setCodesLeft(n);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mfa.totpFactorId, step]);
+
+  function open(intent: "enable" | "disable") {
+    setPassword("");
+    setCode("");
+    setError(null);
+    setNote(null);
+    setStep({ kind: "confirm", intent });
+  }
+
+  function close() {
+    if (!busy) setStep(null);
+  }
+
+  async function handleConfirm(intent: "enable" | "disable") {
+    setBusy(true);
+    setError(null);
+
+    const outcome = await reauthenticate(password);
+    if (!outcome.ok) {
+      setError(outcome.error);
+      setBusy(false);
+      return;
+    }
+    if (outcome.challenge) {
+      setStep({ kind: "challenge", intent, resolver: outcome.challenge });
+      setBusy(false);
+      return;
+    }
+    await proceed(intent);
+  }
+
+  // runs once the user is confirmed
+  async function proceed(intent: "enable" | "disable") {
+    setBusy(true);
+    setError(null);
+
+    if (intent === "disable") {
+      const disableError = await disableTotp();
+      setBusy(false);
+      if (disableError) {
+        setError(disableError);
+        return;
+      }
+      setStep(null);
+      setNote("Two-factor authentication is off.");
+      return;
+    }
+
+    const started = await startTotpEnrollment();
+    if (!started.ok) {
+      setError(started.error);
+      setBusy(false);
+      return;
+    }
+    const qrDataUrl = await QRCode.toDataURL(started.value.qrCodeUrl, {
+      margin: 1,
+      width: 192,
+    }).catch((err: unknown) => {
+      console.error("QR code error", err);
+      return "";
+    });
+    setStep({ kind: "scan", enrollment: started.value, qrDataUrl });
+    setBusy(false);
+  }
+
+  async function handleVerify(enrollment: TotpEnrollment) {
+    if (!/^\d{6,8}$/.test(code.replace(/\s/g, ""))) {
+      setError("Enter the code shown in your authenticator app.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+
+    const failure = await finishTotpEnrollment(enrollment, code);
+    if (failure) {
+      setError(failure);
+      setBusy(false);
+      return;
+    }
+    await handleIssueCodes(enrollment);
+  }
+
+  async function handleIssueCodes(enrollment: TotpEnrollment) {
+    setBusy(true);
+    setError(null);
+    const issued = await issueRecoveryCodes(enrollment);
+    setStep({
+      kind: "codes",
+      enrollment,
+      codes: issued.ok ? issued.value : [],
+    });
+    if (!issued.ok) setError(issued.error);
+    setBusy(false);
+  }
+
+  async function handleCopy(codes: string[]) {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setError("Couldn’t copy – select the codes and copy them instead.");
+    }
+  }
+
+  function handleDownload(codes: string[]) {
+    const text = [
+      "XChangeHub recovery codes",
+      "Each code signs you in once if you lose your authenticator app.",
+      "",
+      ...codes,
+      "",
+    ].join("\n");
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "xchangehub-recovery-codes.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between rounded-2xl bg-slate-50 border border-slate-200 px-3 py-2">
+        <div>
+          <p className="text-sm font-semibold flex items-center gap-2">
+            <Smartphone className="w-4 h-4 text-emerald-600" />
+            Two-factor authentication
+            {enabled && (
+              <span className="rounded-full bg-emerald-50 border border-emerald-400 px-2 py-0.5 text-[10px] text-emerald-700">
+                On
+              </span>
+            )}
+          </p>
+          <p className="text-[11px] text-slate-500">
+            {enabled
+              ? `Authenticator app${
+                  mfa.enrolledAt ? ` since ${formatDate(mfa.enrolledAt)}` : ""
+                }${
+                  codesLeft != null
+                    ? ` · ${codesLeft} recovery code${
+                        codesLeft === 1 ? "" : "s"
+                      } left`
+                    : ""
+                }`
+              : "Add an extra login step to keep your FX account secure."}
+          </p>
+          {note && <p className="text-[11px] text-emerald-600">{note}</p>}
+          {!enabled && mfa.resetByRecovery && !note && (
+            <p className="text-[11px] text-amber-600">
+              You signed in with a recovery code, so your authenticator app
+              was removed. Turn two-factor authentication on again.
+            </p>
+          )}
+        </div>
+        {enabled ? (
+          <button
+            type="button"
+            onClick={() => open("disable")}
+            className="rounded-full border border-slate-300 px-4 py-1.5 text-[11px] font-semibold text-slate-700 hover:border-red-400 hover:text-red-600"
+          >
+            Disable
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => open("enable")}
+            className="rounded-full bg-emerald-500 px-4 py-1.5 text-[11px] font-semibold text-white hover:bg-emerald-600"
+          >
+            Enable
+          </button>
+        )}
+      </div>
+
+      {step && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={(e) => {
+            // the codes screen only closes with "Done"
+            if (e.target === e.currentTarget && step.kind !== "codes") close();
+          }}
+        >
+          <div className="w-full max-w-md rounded-2xl bg-white shadow-2xl border border-slate-200 p-5 text-sm text-slate-900">
+            {step.kind === "confirm" && (
+              <>
+                <h2 className="text-base font-semibold mb-1">
+                  {step.intent === "enable"
+                    ? "Turn on two-factor authentication"
+                    : "Turn off two-factor authentication"}
+                </h2>
+                <p className="text-[11px] text-slate-500 mb-3">
+                  {reauthWith === "google"
+                    ? "Confirm it’s you with Google to continue."
+                    : "Enter your current password to continue."}
+                </p>
+                {reauthWith !== "google" && (
+                  <input
+                    type="password"
+                    autoComplete="current-password"
+                    className={inputClass}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") void handleConfirm(step.intent);
+                    }}
+                    placeholder="Current password"
+                  />
+                )}
+                {error && (
+                  <p className="mt-2 text-[11px] text-red-500">{error}</p>
+                )}
+                <div className="mt-4 flex justify-end gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={close}
+                    disabled={busy}
+                    className="rounded-full bg-slate-100 px-4 py-2 font-semibold text-slate-700 border border-slate-300 hover:bg-slate-200 disabled:opacity-60"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleConfirm(step.intent)}
+                    disabled={busy}
+                    className={`rounded-full px-4 py-2 font-semibold text-white disabled:opacity-60 ${
+                      step.intent === "enable"
+                        ? "bg-sky-600 hover:bg-sky-700"
+                        : "bg-red-500 hover:bg-red-600"
+                    }`}
+                  >
+                    {busy
+                      ? "Please wait…"
+                      : reauthWith === "google"
+                      ? "Continue with Google"
+                      : "Continue"}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {step.kind === "challenge" && (
+              <MfaChallengePanel
+                resolver={step.resolver}
+                onSignedIn={() => void proceed(step.intent)}
+                onCancel={close}
+                cancelLabel="Cancel"
+              />
+            )}
+
+            {step.kind === "scan" && (
+              <>
+                <h2 className="text-base font-semibold mb-1">
+                  Scan with your authenticator app
+                </h2>
+                <p className="text-[11px] text-slate-500 mb-3">
+                  Use Google Authenticator, 1Password, Authy or similar. Then
+                  enter the 6-digit code it shows.
+                </p>
+                <div className="flex flex-col items-center gap-2 rounded-2xl bg-slate-50 border border-slate-200 p-3">
+                  {step.qrDataUrl ? (
+                    <img
+                      src={step.qrDataUrl}
+                      alt="QR code for your authenticator app"
+                      className="h-48 w-48"
+                    />
+                  ) : (
+                    <p className="text-[11px] text-slate-500">
+                      QR code unavailable – enter the key below instead.
+                    </p>
+                  )}
+                  <p className="text-[11px] text-slate-500">
+                    Can&apos;t scan? Enter this key:
+                  </p>
+                  <code className="select-all break-all text-center font-mono text-xs font-semibold tracking-wider">
+                    {formatSecret(step.enrollment.secret.secretKey)}
+                  </code>
+                </div>
+                <input
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  className={`${inputClass} mt-3 text-center font-mono tracking-[0.3em]`}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") void handleVerify(step.enrollment);
+                  }}
+                  placeholder="123456"
+                  maxLength={9}
+                />
+                {error && (
+                  <p className="mt-2 text-[11px] text-red-500">{error}</p>
+                )}
+                <div className="mt-4 flex justify-end gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={close}
+                    disabled={busy}
+                    className="rounded-full bg-slate-100 px-4 py-2 font-semibold text-slate-700 border border-slate-300 hover:bg-slate-200 disabled:opacity-60"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleVerify(step.enrollment)}
+                    disabled={busy}
+                    className="rounded-full bg-sky-600 px-4 py-2 font-semibold text-white hover:bg-sky-700 disabled:opacity-60"
+                  >
+                    {busy ? "Verifying…" : "Verify and turn on"}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {step.kind === "codes" && (
+              <>
+                <h2 className="text-base font-semibold mb-1">
+                  Save your recovery codes
+                </h2>
+                <p className="text-[11px] text-slate-500 mb-3">
+                  Two-factor authentication is on. If you lose your phone,
+                  each of these codes signs you in once. They won&apos;t be
+                  shown again.
+                </p>
+                {step.codes.length > 0 && (
+                  <>
+                    <ul className="grid grid-cols-2 gap-2 rounded-2xl bg-slate-50 border border-slate-200 p-3 font-mono text-xs">
+                      {step.codes.map((c) => (
+                        <li key={c} className="text-center">
+                          {c}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-2 flex gap-2 text-[11px]">
+                      <button
+                        type="button"
+                        onClick={() => void handleCopy(step.codes)}
+                        className="rounded-full border border-slate-300 px-3 py-1 font-semibold hover:border-sky-500 hover:text-sky-600"
+                      >
+                        {copied ? "Copied" : "Copy"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDownload(step.codes)}
+                        className="rounded-full border border-slate-300 px-3 py-1 font-semibold hover:border-sky-500 hover:text-sky-600"
+                      >
+                        Download .txt
+                      </button>
+                    </div>
+                  </>
+                )}
+                {error && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <p className="text-[11px] text-red-500">{error}</p>
+                    <button
+                      type="button"
+                      onClick={() => void handleIssueCodes(step.enrollment)}
+                      disabled={busy}
+                      className="shrink-0 rounded-full border border-slate-300 px-3 py-1 text-[11px] font-semibold hover:border-sky-500 hover:text-sky-600 disabled:opacity-60"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                )}
+                <div className="mt-4 flex justify-end text-xs">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setStep(null);
+                      setNote(null);
+                    }}
+                    disabled={busy}
+                    className="rounded-full bg-sky-600 px-4 py-2 font-semibold text-white hover:bg-sky-700 disabled:opacity-60"
+                  >
+                    I&apos;ve saved them
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+// src/pages/components/VerifyEmailNotice.tsx
+import { useState } from "react";
+import {
+  useEmailVerification,
+  useResendCooldown,
+} from "../../hooks/useEmailVerification";
+import {
+  needsEmailVerification,
+  refreshVerification,
+  sendVerificationEmail,
+} from "../../services/emailVerification";
+
+type VerifyEmailNoticeProps = {
+  // what the user can't do yet, e.g. "create alerts"
+  reason?: string;
+  className?: string;
+};
+
+/**
+ * Reminder shown to signed-in users with an unverified email, with resend
+ * and re-check buttons. Renders nothing once the email is verified.
+ */
+export default function VerifyEmailNotice({
+  reason = "create alerts",
+  className = "",
+}: VerifyEmailNoticeProps) {
+  const state = useEmailVerification();
+  const secondsLeft = useResendCooldown(state.resendAvailableAt);
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+
+  if (!needsEmailVerification(state)) return null;
+
+  async function handleResend() {
+    setBusy(true);
+    const error = await sendVerificationEmail();
+    setNote(error ?? `Verification email sent to ${state.email}.`);
+    setBusy(false);
+  }
+
+  async function handleCheck() {
+    setBusy(true);
+    const verified = await refreshVerification();
+    setNote(
+      verified ? null : "Not verified yet. Open the link in the email first."
+    );
+    setBusy(false);
+  }
+
+  return (
+    <div
+      className={`rounded-2xl border border-amber-300 bg-amber-50 px-4 py-3 text-xs text-amber-900 ${className}`}
+    >
+      <p>
+        Verify <span className="font-semibold">{state.email}</span> to {reason}.
+        Check your inbox for the link we sent.
+      </p>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => void handleResend()}
+          disabled={busy || secondsLeft > 0}
+          className="rounded-full border border-amber-400 px-3 py-1 font-medium hover:bg-amber-100 disabled:opacity-50"
+        >
+          {secondsLeft > 0 ? `Resend in ${secondsLeft}s` : "Resend email"}
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleCheck()}
+          disabled={busy}
+          className="rounded-full bg-amber-500 px-3 py-1 font-semibold text-white hover:brightness-110 disabled:opacity-50"
+        >
+          I&apos;ve verified
+        </button>
+        {note && <span className="text-[0.7rem]">{note}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+// src/pages/components/WatchlistBoard.tsx
+import { useMemo } from "react";
+import { useRate, useRateSeries } from "../../hooks/useRates";
+import { useWatchlist } from "../../hooks/useWatchlist";
+import { changePct, seriesFor } from "../../services/rateService";
+
+type Tone = "light" | "dark";
+
+type WatchlistBoardProps = {
+  // signed-in uid; null/undefined uses this browser's guest list
+  userId?: string | null;
+  tone: Tone;
+  onOpenPair?: (base: string, quote: string) => void;
+  // shown when nothing is pinned yet
+  emptyHint?: string;
+  // one-click pairs offered while the list is empty
+  suggestions?: { base: string; quote: string }[];
+};
+
+type RowProps = {
+  base: string;
+  quote: string;
+  index: number;
+  count: number;
+  tone: Tone;
+  onOpen?: () => void;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+};
+
+function WatchlistRow({
+  base,
+  quote,
+  index,
+  count,
+  tone,
+  onOpen,
+  onMove,
+  onRemove,
+}: RowProps) {
+  const { rate, loading } = useRate(base, quote);
+  const { data: series } = useRateSeries(base, "7D", quote);
+
+  const change = useMemo(
+    () => (series ? changePct(seriesFor(series, quote)) : null),
+    [series, quote]
+  );
+  const positive = (change ?? 0) >= 0;
+  const isDark = tone === "dark";
+
+  const iconBtn = `rounded-full border px-1.5 py-0.5 text-[10px] leading-none transition disabled:opacity-30 ${
+    isDark
+      ? "border-slate-700 text-slate-300 hover:border-sky-400 hover:text-sky-300"
+      : "border-slate-200 text-slate-500 hover:border-sky-500 hover:text-sky-600"
+  }`;
+
+  return (
+    <li
+      className={`flex items-center justify-between gap-3 rounded-2xl border px-3 py-2 ${
+        isDark
+          ? "border-slate-800 bg-slate-900/70"
+          : "border-slate-200 bg-slate-50"
+      }`}
+    >
+      <div className="min-w-0">
+        <button
+          type="button"
+          onClick={onOpen}
+          disabled={!onOpen}
+          title={`Open ${base}/${quote} chart`}
+          className={`text-xs font-semibold underline-offset-2 hover:underline disabled:no-underline ${
+            isDark
+              ? "text-slate-50 hover:text-sky-300"
+              : "text-slate-900 hover:text-sky-600"
+          }`}
+        >
+          {base}/{quote}
+        </button>
+        <div className="flex items-baseline gap-2">
+          <span
+            className={`font-mono text-sm ${
+              isDark ? "text-slate-100" : "text-slate-800"
+            }`}
+          >
+            {rate != null ? rate.toFixed(4) : loading ? "…" : "—"}
+          </span>
+          <span
+            className={`text-[10px] font-semibold ${
+              change == null
+                ? "text-slate-400"
+                : positive
+                ? "text-emerald-500"
+                : "text-rose-400"
+            }`}
+          >
+            {change == null
+              ? "—"
+              : `${positive ? "+" : ""}${change.toFixed(2)}% 7D`}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex shrink-0 items-center gap-1">
+        <button
+          type="button"
+          onClick={() => onMove(index - 1)}
+          disabled={index === 0}
+          aria-label={`Move ${base}/${quote} up`}
+          className={iconBtn}
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(index + 1)}
+          disabled={index === count - 1}
+          aria-label={`Move ${base}/${quote} down`}
+          className={iconBtn}
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove ${base}/${quote} from watchlist`}
+          className={iconBtn}
+        >
+          ✕
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/** Compact live board of the user's pinned pairs. */
+export default function WatchlistBoard({
+  userId,
+  tone,
+  onOpenPair,
+  emptyHint = "Nothing pinned yet. Use “Add to watchlist” on the FX board.",
+  suggestions = [],
+}: WatchlistBoardProps) {
+  const { pairs, add, remove, move, limit } = useWatchlist(userId);
+  const isDark = tone === "dark";
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={`flex items-center justify-between text-[11px] uppercase tracking-wide ${
+          isDark ? "text-slate-400" : "text-slate-500"
+        }`}
+      >
+        <span>Watchlist</span>
+        <span
+          className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] ${
+            isDark
+              ? "border-slate-700 bg-slate-900"
+              : "border-slate-200 bg-slate-50"
+          }`}
+        >
+          {pairs.length}/{limit} pairs
+        </span>
+      </div>
+
+      {pairs.length === 0 ? (
+        <div className="space-y-2">
+          <p
+            className={`text-xs ${isDark ? "text-slate-400" : "text-slate-500"}`}
+          >
+            {emptyHint}
+          </p>
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-[0.7rem]">
+              <span className={isDark ? "text-slate-400" : "text-slate-500"}>
+                Suggested for you:
+              </span>
+              {suggestions.map((p) => (
+                <button
+                  key={`${p.base}/${p.quote}`}
+                  type="button"
+                  onClick={() => add(p.base, p.quote)}
+                  className={`rounded-full border px-3 py-1 ${
+                    isDark
+                      ? "border-slate-700 text-slate-200 hover:border-sky-400 hover:text-sky-300"
+                      : "border-slate-300 text-slate-700 hover:border-sky-500 hover:text-sky-600"
+                  }`}
+                >
+                  + {p.base}/{p.quote}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <ul className="grid gap-2 sm:grid-cols-2">
+          {pairs.map((p, idx) => (
+            <WatchlistRow
+              key={`${p.base}/${p.quote}`}
+              base={p.base}
+              quote={p.quote}
+              index={idx}
+              count={pairs.length}
+              tone={tone}
+              onOpen={onOpenPair ? () => onOpenPair(p.base, p.quote) : undefined}
+              onMove={(to) => move(idx, to)}
+              onRemove={() => remove(p.base, p.quote)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
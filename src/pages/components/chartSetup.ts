@@ -0,0 +1,78 @@
+// src/pages/components/chartSetup.ts
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Legend,
+  Tooltip,
+  type Plugin,
+} from "chart.js";
+import zoomPlugin from "chartjs-plugin-zoom";
+
+// Vertical guide line under the active tooltip point
+const crosshairPlugin: Plugin<"line"> = {
+  id: "crosshair",
+  afterDatasetsDraw(chart) {
+    const active = chart.tooltip?.getActiveElements();
+    if (!active || active.length === 0) return;
+
+    const { ctx, chartArea } = chart;
+    const x = active[0].element.x;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.setLineDash([4, 4]);
+    ctx.moveTo(x, chartArea.top);
+    ctx.lineTo(x, chartArea.bottom);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = "rgba(148, 163, 184, 0.7)";
+    ctx.stroke();
+    ctx.restore();
+  },
+};
+
+// Registered once for every chart.js chart in the app
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Legend,
+  Tooltip,
+  zoomPlugin,
+  crosshairPlugin
+);
+
+export type ChartTheme = "light" | "dark";
+
+export function chartColors(theme: ChartTheme) {
+  const isDark = theme === "dark";
+  return {
+    grid: isDark ? "rgba(51, 65, 85, 0.5)" : "rgba(226, 232, 240, 1)",
+    tick: isDark ? "#94a3b8" : "#64748b",
+  };
+}
+
+export function formatChartDate(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+/** Line overlay drawn on top of a chart (indicator output). */
+export type ChartOverlay = {
+  label: string;
+  values: (number | null)[];
+  color: string;
+  dashed?: boolean;
+  fill?: boolean | string;
+};
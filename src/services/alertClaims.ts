@@ -0,0 +1,77 @@
+// src/services/alertClaims.ts
+
+// Makes sure a triggered alert is announced once, not once per tab or per
+// device. Within a browser only the tab that ran the check sees the
+// trigger, and the ids it has announced are remembered here in case two
+// engines ever report the same event. Across devices (alerts are synced,
+// so every signed-in device checks the same slot) the first one to create
+//
+//   users/{uid}/alertClaims/{alertId}_{slot}
+//
+// wins: firestore.rules only allow creating that document, so the other
+// devices' writes are rejected and they stay quiet.
+
+import { doc, serverTimestamp, setDoc } from "firebase/firestore";
+import { auth, db } from "../firebase";
+import type { AlertEvent } from "./alertEngine";
+
+const CLAIMED_KEY = "fx-claimed-alert-events";
+const MAX_CLAIMED = 200;
+// an offline write never resolves; announcing twice beats not at all
+const CLAIM_TIMEOUT_MS = 5_000;
+
+function readClaimed(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CLAIMED_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** False when this browser already announced the event. */
+function claimLocally(eventId: string): boolean {
+  const claimed = readClaimed();
+  if (claimed.includes(eventId)) return false;
+  try {
+    localStorage.setItem(
+      CLAIMED_KEY,
+      JSON.stringify([eventId, ...claimed].slice(0, MAX_CLAIMED))
+    );
+  } catch {
+    // ignore
+  }
+  return true;
+}
+
+function claimId(event: AlertEvent): string {
+  // the same slot is the same trigger on every device; manual checks are
+  // only ever run on one
+  return `${event.alertId}_${event.slotAt ?? event.triggeredAt}`;
+}
+
+/** Resolves true when this tab should announce and deliver the event. */
+export async function claimAlertEvent(event: AlertEvent): Promise<boolean> {
+  if (!claimLocally(event.id)) return false;
+
+  const user = auth.currentUser;
+  if (!user) return true;
+
+  const ref = doc(db, "users", user.uid, "alertClaims", claimId(event));
+  const write = setDoc(ref, {
+    alertId: event.alertId,
+    claimedAt: serverTimestamp(),
+  }).then(
+    () => true,
+    (err) => {
+      // an existing claim turns the write into an update, which is denied
+      if ((err as { code?: string })?.code === "permission-denied") return false;
+      console.error("Alert claim error", err);
+      return true;
+    }
+  );
+  const timeout = new Promise<boolean>((resolve) =>
+    window.setTimeout(() => resolve(true), CLAIM_TIMEOUT_MS)
+  );
+  return Promise.race([write, timeout]);
+}
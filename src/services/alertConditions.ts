@@ -0,0 +1,318 @@
+// src/services/alertConditions.ts
+
+// What an alert watches for, how a form draft becomes a condition, and how a
+// condition is checked against the rates the engine has observed.
+
+export type AlertCondition =
+  | { type: "above"; value: number }
+  | { type: "below"; value: number }
+  | { type: "crosses"; value: number }
+  | { type: "percentChange"; percent: number; windowHours: number }
+  | { type: "rangeExit"; low: number; high: number };
+
+export type AlertConditionType = AlertCondition["type"];
+
+export const CONDITION_TYPES: { type: AlertConditionType; label: string }[] = [
+  { type: "above", label: "Above" },
+  { type: "below", label: "Below" },
+  { type: "crosses", label: "Crosses" },
+  { type: "percentChange", label: "% move" },
+  { type: "rangeExit", label: "Leaves range" },
+];
+
+// The engine keeps a week of observations, so windows can't be longer
+export const MIN_WINDOW_HOURS = 1;
+export const MAX_WINDOW_HOURS = 7 * 24;
+
+export type RateObservation = {
+  rate: number;
+  observedAt: string; // ISO
+};
+
+export type ConditionCheck = {
+  direction: "up" | "down";
+  // rate the move is measured from (previous observation or window start)
+  referenceRate: number | null;
+  changePct?: number;
+};
+
+// ===== FORM DRAFTS =====
+
+/** Raw form values; only the fields for `type` are read. */
+export type ConditionDraft = {
+  type: AlertConditionType;
+  value: string;
+  low: string;
+  high: string;
+  percent: string;
+  windowHours: string;
+};
+
+/** Draft for `type`, with rate fields seeded around `rate` when known. */
+export function conditionDraft(
+  type: AlertConditionType,
+  rate?: number | null
+): ConditionDraft {
+  const r = rate != null && Number.isFinite(rate) ? rate : null;
+  return {
+    type,
+    value: r != null ? r.toFixed(4) : "",
+    low: r != null ? (r * 0.99).toFixed(4) : "",
+    high: r != null ? (r * 1.01).toFixed(4) : "",
+    percent: "1",
+    windowHours: "24",
+  };
+}
+
+/** Draft holding an existing condition's values, for editing. */
+export function draftFromCondition(condition: AlertCondition): ConditionDraft {
+  const draft = conditionDraft(condition.type);
+  switch (condition.type) {
+    case "above":
+    case "below":
+    case "crosses":
+      return { ...draft, value: String(condition.value) };
+    case "percentChange":
+      return {
+        ...draft,
+        percent: String(condition.percent),
+        windowHours: String(condition.windowHours),
+      };
+    case "rangeExit":
+      return {
+        ...draft,
+        low: String(condition.low),
+        high: String(condition.high),
+      };
+  }
+}
+
+function positive(raw: string): number | null {
+  if (!raw.trim()) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** Validates a draft; returns the condition or a user-facing error. */
+export function parseConditionDraft(
+  draft: ConditionDraft
+): { condition: AlertCondition } | { error: string } {
+  switch (draft.type) {
+    case "above":
+    case "below":
+    case "crosses": {
+      if (!draft.value.trim()) return { error: "Please enter a target rate." };
+      const value = positive(draft.value);
+      if (value == null) {
+        return { error: "Target rate must be a positive number." };
+      }
+      return { condition: { type: draft.type, value } };
+    }
+    case "percentChange": {
+      const percent = positive(draft.percent);
+      if (percent == null) {
+        return { error: "Percent move must be a positive number." };
+      }
+      const windowHours = positive(draft.windowHours);
+      if (
+        windowHours == null ||
+        windowHours < MIN_WINDOW_HOURS ||
+        windowHours > MAX_WINDOW_HOURS
+      ) {
+        return {
+          error: `Window must be between ${MIN_WINDOW_HOURS} and ${MAX_WINDOW_HOURS} hours.`,
+        };
+      }
+      return { condition: { type: "percentChange", percent, windowHours } };
+    }
+    case "rangeExit": {
+      const low = positive(draft.low);
+      const high = positive(draft.high);
+      if (low == null || high == null) {
+        return { error: "Range bounds must be positive numbers." };
+      }
+      if (low >= high) {
+        return { error: "Range low must be below range high." };
+      }
+      return { condition: { type: "rangeExit", low, high } };
+    }
+  }
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/** True for a well-formed condition (e.g. one read back from storage). */
+export function isAlertCondition(value: unknown): value is AlertCondition {
+  const c = value as Record<string, unknown> | null;
+  if (!c || typeof c !== "object") return false;
+  switch (c.type) {
+    case "above":
+    case "below":
+    case "crosses":
+      return isPositive(c.value);
+    case "percentChange":
+      return (
+        isPositive(c.percent) &&
+        isPositive(c.windowHours) &&
+        c.windowHours <= MAX_WINDOW_HOURS
+      );
+    case "rangeExit":
+      return isPositive(c.low) && isPositive(c.high) && c.low < c.high;
+    default:
+      return false;
+  }
+}
+
+/** Longest time between consecutive daily check times, in hours. */
+export function longestSlotGapHours(schedule: string[]): number {
+  const minutes = schedule
+    .map((slot) => /^(\d{1,2}):(\d{2})$/.exec(slot))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map((m) => Number(m[1]) * 60 + Number(m[2]))
+    .sort((a, b) => a - b);
+  if (minutes.length === 0) return 24;
+
+  // the last check of the day is followed by the first one tomorrow
+  let longest = minutes[0] + 24 * 60 - minutes[minutes.length - 1];
+  for (let i = 1; i < minutes.length; i++) {
+    longest = Math.max(longest, minutes[i] - minutes[i - 1]);
+  }
+  return longest / 60;
+}
+
+/**
+ * Rates are only observed at the alert's check times, so a % move window
+ * shorter than the longest gap between them would often have no earlier
+ * observation to compare with. Returns a user-facing error, or null.
+ */
+export function checkWindowForSchedule(
+  condition: AlertCondition,
+  schedule: string[]
+): string | null {
+  if (condition.type !== "percentChange") return null;
+  const gap = longestSlotGapHours(schedule);
+  if (condition.windowHours >= gap) return null;
+  const hours = Number(gap.toFixed(2));
+  return `Checks run at ${schedule.join(", ")}, so the window must be at least ${hours} hours.`;
+}
+
+// ===== DISPLAY =====
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "above":
+      return `rises above ${condition.value.toFixed(4)}`;
+    case "below":
+      return `falls below ${condition.value.toFixed(4)}`;
+    case "crosses":
+      return `crosses ${condition.value.toFixed(4)}`;
+    case "percentChange":
+      return `moves ±${condition.percent}% within ${condition.windowHours}h`;
+    case "rangeExit":
+      return `leaves ${condition.low.toFixed(4)}–${condition.high.toFixed(4)}`;
+  }
+}
+
+// ===== EVALUATION =====
+
+function outsideRange(rate: number, low: number, high: number) {
+  return rate < low || rate > high;
+}
+
+/** Oldest observation inside the window ending at `at` (excluding `at`). */
+function windowStart(
+  history: RateObservation[],
+  at: string,
+  windowHours: number
+): RateObservation | null {
+  const end = Date.parse(at);
+  const start = end - windowHours * 60 * 60 * 1000;
+  return (
+    history.find((o) => {
+      const t = Date.parse(o.observedAt);
+      return t >= start && t < end;
+    }) ?? null
+  );
+}
+
+function pctMove(
+  history: RateObservation[],
+  current: RateObservation,
+  windowHours: number
+): { base: number; pct: number } | null {
+  const base = windowStart(history, current.observedAt, windowHours);
+  if (!base || base.rate === 0) return null;
+  const pct = ((current.rate - base.rate) / base.rate) * 100;
+  return { base: base.rate, pct };
+}
+
+/**
+ * Checks `current` against the condition, given earlier observations
+ * (oldest first). Level-style conditions fire when they become true, not
+ * on every check while they stay true; "crosses" needs a previous rate.
+ */
+export function checkCondition(
+  condition: AlertCondition,
+  history: RateObservation[],
+  current: RateObservation
+): ConditionCheck | null {
+  const previous = history[history.length - 1] ?? null;
+  const prevRate = previous?.rate ?? null;
+
+  switch (condition.type) {
+    case "above": {
+      const met = current.rate > condition.value;
+      const wasMet = prevRate != null && prevRate > condition.value;
+      return met && !wasMet
+        ? { direction: "up", referenceRate: prevRate }
+        : null;
+    }
+    case "below": {
+      const met = current.rate < condition.value;
+      const wasMet = prevRate != null && prevRate < condition.value;
+      return met && !wasMet
+        ? { direction: "down", referenceRate: prevRate }
+        : null;
+    }
+    case "crosses": {
+      if (prevRate == null) return null;
+      const v = condition.value;
+      // a previous rate sitting exactly on the line counts as that side
+      if (prevRate <= v && current.rate > v) {
+        return { direction: "up", referenceRate: prevRate };
+      }
+      if (prevRate >= v && current.rate < v) {
+        return { direction: "down", referenceRate: prevRate };
+      }
+      return null;
+    }
+    case "rangeExit": {
+      const { low, high } = condition;
+      const met = outsideRange(current.rate, low, high);
+      const wasMet = prevRate != null && outsideRange(prevRate, low, high);
+      if (!met || wasMet) return null;
+      return {
+        direction: current.rate > high ? "up" : "down",
+        referenceRate: prevRate,
+      };
+    }
+    case "percentChange": {
+      const { percent, windowHours } = condition;
+      const move = pctMove(history, current, windowHours);
+      if (!move || Math.abs(move.pct) < percent) return null;
+
+      // already reported at the previous check → stay quiet
+      if (previous) {
+        const before = pctMove(history.slice(0, -1), previous, windowHours);
+        if (before && Math.abs(before.pct) >= percent) return null;
+      }
+      return {
+        direction: move.pct < 0 ? "down" : "up",
+        referenceRate: move.base,
+        changePct: Number(move.pct.toFixed(2)),
+      };
+    }
+  }
+}
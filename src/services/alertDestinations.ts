@@ -0,0 +1,245 @@
+// src/services/alertDestinations.ts
+
+// Places a triggered alert can be posted to besides email: a generic JSON
+// webhook, a Slack-compatible incoming webhook or a Discord webhook.
+// Destinations are defined once and each alert picks which of them it uses
+// (RateAlert.destinationIds). Every send is recorded in the delivery log.
+// Signed-in users' destinations are synced like their alerts (userSync.ts);
+// the delivery log stays on this device.
+
+export type DestinationKind = "webhook" | "slack" | "discord";
+
+export type AlertDestination = {
+  id: string;
+  kind: DestinationKind;
+  name: string;
+  url: string;
+  // HMAC-SHA256 signing secret, generic webhooks only
+  secret: string;
+  createdAt: string; // ISO
+};
+
+export type DestinationDraft = Pick<
+  AlertDestination,
+  "kind" | "name" | "url" | "secret"
+>;
+
+// "sent": the request went out but the response couldn't be read (Slack,
+// posted with no-cors), so it isn't known to have arrived
+export type DeliveryStatus = "pending" | "delivered" | "sent" | "failed";
+
+export type DeliveryLogEntry = {
+  id: string;
+  destinationId: string;
+  destinationName: string;
+  kind: DestinationKind;
+  pair: string;
+  test: boolean;
+  status: DeliveryStatus;
+  attempts: number;
+  // HTTP status of the last attempt, null if it never got a response
+  httpStatus: number | null;
+  error: string | null;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+};
+
+export const DESTINATION_KINDS: { kind: DestinationKind; label: string }[] = [
+  { kind: "webhook", label: "JSON webhook" },
+  { kind: "slack", label: "Slack" },
+  { kind: "discord", label: "Discord" },
+];
+
+const DESTINATIONS_KEY = "fx-alert-destinations";
+const LOG_KEY = "fx-delivery-log";
+const MAX_LOG = 100;
+
+let destinations: AlertDestination[] | null = null;
+let log: DeliveryLogEntry[] | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function readList<T>(key: string): T[] {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList(key: string, list: unknown[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(list));
+  } catch {
+    // ignore – in-memory copy still updates the UI
+  }
+}
+
+function newId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ===== DESTINATIONS =====
+
+export function getDestinations(): AlertDestination[] {
+  if (!destinations) destinations = readList<AlertDestination>(DESTINATIONS_KEY);
+  return destinations;
+}
+
+function writeDestinations(next: AlertDestination[]) {
+  destinations = next;
+  writeList(DESTINATIONS_KEY, next);
+  notify();
+}
+
+/** Returns a user-facing error for the first invalid field, or null. */
+export function validateDestinationDraft(draft: DestinationDraft): string | null {
+  if (!draft.name.trim()) return "Give the destination a name.";
+
+  let url: URL;
+  try {
+    url = new URL(draft.url.trim());
+  } catch {
+    return "Please enter a valid webhook URL.";
+  }
+  const local = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+  if (url.protocol !== "https:" && !(local && url.protocol === "http:")) {
+    return "Webhook URLs must use https (http is only allowed for localhost).";
+  }
+  return null;
+}
+
+export function addDestination(draft: DestinationDraft): AlertDestination {
+  const destination: AlertDestination = {
+    id: newId(),
+    kind: draft.kind,
+    name: draft.name.trim(),
+    url: draft.url.trim(),
+    secret: draft.kind === "webhook" ? draft.secret.trim() : "",
+    createdAt: new Date().toISOString(),
+  };
+  writeDestinations([...getDestinations(), destination]);
+  return destination;
+}
+
+export function removeDestination(id: string) {
+  writeDestinations(getDestinations().filter((d) => d.id !== id));
+}
+
+// ===== REMOTE =====
+
+const KINDS = new Set<string>(DESTINATION_KINDS.map((k) => k.kind));
+
+/** Normalises a destination read from the server; null if it's unusable. */
+export function destinationFromRemote(raw: unknown): AlertDestination | null {
+  const d = raw as Partial<AlertDestination> | null;
+  if (
+    !d ||
+    typeof d.id !== "string" ||
+    typeof d.url !== "string" ||
+    !KINDS.has(d.kind as string)
+  ) {
+    return null;
+  }
+  return {
+    id: d.id,
+    kind: d.kind as DestinationKind,
+    name: typeof d.name === "string" ? d.name : d.url,
+    url: d.url,
+    secret: typeof d.secret === "string" ? d.secret : "",
+    createdAt: typeof d.createdAt === "string" ? d.createdAt : "",
+  };
+}
+
+/** Applies destinations added or removed on another device. */
+export function applyRemoteDestinations(
+  upserts: AlertDestination[],
+  removedIds: string[]
+) {
+  if (upserts.length === 0 && removedIds.length === 0) return;
+
+  const incoming = new Set(upserts.map((d) => d.id));
+  const removed = new Set(removedIds);
+  writeDestinations(
+    getDestinations()
+      .filter((d) => !removed.has(d.id) && !incoming.has(d.id))
+      .concat(upserts)
+  );
+}
+
+/**
+ * Drops destinations (URLs and signing secrets) and the delivery log –
+ * another account's data on this browser.
+ */
+export function clearLocalDestinations() {
+  destinations = [];
+  writeList(DESTINATIONS_KEY, destinations);
+  writeLog([]);
+}
+
+// ===== DELIVERY LOG =====
+
+/** Newest first. Same array reference until something changes. */
+export function getDeliveryLog(): DeliveryLogEntry[] {
+  if (!log) log = readList<DeliveryLogEntry>(LOG_KEY);
+  return log;
+}
+
+function writeLog(next: DeliveryLogEntry[]) {
+  log = next.slice(0, MAX_LOG);
+  writeList(LOG_KEY, log);
+  notify();
+}
+
+export function recordDelivery(
+  input: Pick<
+    DeliveryLogEntry,
+    "destinationId" | "destinationName" | "kind" | "pair" | "test"
+  >
+): DeliveryLogEntry {
+  const now = new Date().toISOString();
+  const entry: DeliveryLogEntry = {
+    ...input,
+    id: newId(),
+    status: "pending",
+    attempts: 0,
+    httpStatus: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeLog([entry, ...getDeliveryLog()]);
+  return entry;
+}
+
+export function updateDelivery(
+  id: string,
+  patch: Partial<
+    Pick<DeliveryLogEntry, "status" | "attempts" | "httpStatus" | "error">
+  >
+) {
+  const updatedAt = new Date().toISOString();
+  writeLog(
+    getDeliveryLog().map((e) =>
+      e.id === id ? { ...e, ...patch, updatedAt } : e
+    )
+  );
+}
+
+export function clearDeliveryLog() {
+  writeLog([]);
+}
+
+// ===== SUBSCRIPTION =====
+
+export function subscribeDestinations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
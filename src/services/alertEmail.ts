@@ -0,0 +1,117 @@
+// src/services/alertEmail.ts
+
+// Renders the email for a triggered alert and sends it through the
+// configured mail transport.
+
+import { describeCondition } from "./alertConditions";
+import type { AlertEvent } from "./alertEngine";
+import {
+  DEFAULT_MAIL_FROM,
+  mailTransport,
+  type MailMessage,
+  type MailTransport,
+} from "./mailTransport";
+
+export type AlertEmail = Pick<MailMessage, "subject" | "text" | "html">;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toUTCString();
+}
+
+// ===== TEMPLATE =====
+
+export function renderAlertEmail(event: AlertEvent): AlertEmail {
+  const pair = `${event.from}/${event.to}`;
+  const threshold = describeCondition(event.condition);
+  const rate = `1 ${event.from} = ${event.rate.toFixed(4)} ${event.to}`;
+  const time = formatTime(event.triggeredAt);
+  const change =
+    event.changePct != null
+      ? `${event.changePct > 0 ? "+" : ""}${event.changePct.toFixed(2)}%`
+      : null;
+
+  const rows: [string, string][] = [
+    ["Pair", pair],
+    ["Condition", `${pair} ${threshold}`],
+    ["Current rate", rate],
+    ...(change ? [["Change", change] as [string, string]] : []),
+    ["Triggered at", time],
+  ];
+
+  const subject = `${pair} alert: ${threshold}`;
+
+  const text = [
+    `Your ${pair} alert was triggered.`,
+    "",
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    "",
+    "You're receiving this because you set up this alert on XChangeHub.",
+  ].join("\n");
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#0f172a;">
+    <table role="presentation" width="100%" style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:16px;border:1px solid #e2e8f0;">
+      <tr>
+        <td style="padding:20px 24px;background:#071a3a;border-radius:16px 16px 0 0;color:#ffffff;">
+          <div style="font-size:12px;letter-spacing:2px;text-transform:uppercase;color:#38bdf8;">XChangeHub alert</div>
+          <div style="margin-top:4px;font-size:20px;font-weight:bold;">${escapeHtml(pair)} ${escapeHtml(threshold)}</div>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;">
+          <table role="presentation" width="100%" style="font-size:14px;">
+${rows
+  .map(
+    ([label, value]) =>
+      `            <tr><td style="padding:6px 0;color:#64748b;">${escapeHtml(
+        label
+      )}</td><td style="padding:6px 0;text-align:right;font-weight:bold;">${escapeHtml(
+        value
+      )}</td></tr>`
+  )
+  .join("\n")}
+          </table>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:0 24px 20px;font-size:11px;color:#94a3b8;">
+          You're receiving this because you set up this alert on XChangeHub.
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+// ===== DELIVERY =====
+
+/** Emails a triggered alert to `to`. Resolves false if sending failed. */
+export async function deliverAlertEmail(
+  event: AlertEvent,
+  to: string,
+  transport: MailTransport = mailTransport
+): Promise<boolean> {
+  if (!to) return false;
+  try {
+    await transport.send({
+      from: import.meta.env.VITE_MAIL_FROM || DEFAULT_MAIL_FROM,
+      to,
+      ...renderAlertEmail(event),
+    });
+    return true;
+  } catch (err) {
+    console.error(`Alert email (${transport.name}) to ${to} failed:`, err);
+    return false;
+  }
+}
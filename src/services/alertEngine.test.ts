@@ -0,0 +1,430 @@
+// src/services/alertEngine.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// the engine's defaults pull in Firebase; the tests inject what they need
+vi.mock("./rateService", () => ({ getRate: vi.fn() }));
+vi.mock("./emailVerification", () => ({ needsEmailVerification: () => false }));
+
+import {
+  checkCondition,
+  checkWindowForSchedule,
+  longestSlotGapHours,
+  type AlertCondition,
+} from "./alertConditions";
+import {
+  createAlertEngine,
+  type AlertClock,
+  type AlertEngineOptions,
+  type AlertRunLock,
+} from "./alertEngine";
+import {
+  alertFromRemote,
+  applyRemoteAlerts,
+  clearLocalAlerts,
+  type RateAlert,
+} from "./alertStore";
+
+// ===== FAKES =====
+
+// local time, like the schedule slots
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 0, day, hours, minutes).getTime();
+
+type Timer = { fn: () => void; at: number; id: number };
+
+function fakeClock(start: number) {
+  let now = start;
+  let nextId = 1;
+  let timers: Timer[] = [];
+
+  const clock: AlertClock = {
+    now: () => now,
+    setTimeout: (fn, ms) => {
+      const timer = { fn, at: now + ms, id: nextId++ };
+      timers.push(timer);
+      return timer.id;
+    },
+    clearTimeout: (id) => {
+      timers = timers.filter((t) => t.id !== id);
+    },
+  };
+
+  /** Moves time forward, firing due timers and letting their runs finish. */
+  async function advanceTo(target: number) {
+    for (;;) {
+      const due = timers
+        .filter((t) => t.at <= target)
+        .sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      timers = timers.filter((t) => t !== due);
+      now = due.at;
+      due.fn();
+      await settle();
+    }
+    now = target;
+  }
+
+  return { clock, advanceTo };
+}
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+  };
+}
+
+// one lock shared by every engine in a test, like Web Locks across tabs
+function sharedLock(): AlertRunLock {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (task) => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+async function settle() {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+}
+
+function alert(
+  id: string,
+  condition: AlertCondition,
+  overrides: Partial<RateAlert> = {}
+): RateAlert {
+  return {
+    id,
+    from: "USD",
+    to: "INR",
+    condition,
+    email: "me@example.com",
+    active: true,
+    snoozedUntil: null,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    schedule: ["06:00", "19:00"],
+    destinationIds: [],
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+function engineWith(
+  alerts: RateAlert[],
+  options: AlertEngineOptions & { rate?: () => number | null } = {}
+) {
+  const { rate = () => 83, ...rest } = options;
+  const getRate = vi.fn(async () => rate());
+  const engine = createAlertEngine({
+    getRate,
+    getAlerts: () => alerts,
+    getAllAlerts: () => alerts,
+    subscribe: () => () => {},
+    storage: memoryStorage(),
+    lock: sharedLock(),
+    ...rest,
+  });
+  return { engine, getRate };
+}
+
+function storedState(lastRunAt: number) {
+  const storage = memoryStorage();
+  storage.setItem(
+    "fxflow-alert-engine",
+    JSON.stringify({
+      observations: {},
+      events: [],
+      lastRunAt: new Date(lastRunAt).toISOString(),
+    })
+  );
+  return storage;
+}
+
+// ===== CONDITIONS =====
+
+describe("checkCondition", () => {
+  const observed = (rate: number, hour: number) => ({
+    rate,
+    observedAt: new Date(at(5, hour)).toISOString(),
+  });
+
+  it("detects a crossing against the previous observation", () => {
+    const crosses: AlertCondition = { type: "crosses", value: 83 };
+    const check = (prev: number, next: number) =>
+      checkCondition(crosses, [observed(prev, 6)], observed(next, 19));
+
+    expect(check(82.9, 83.1)).toEqual({ direction: "up", referenceRate: 82.9 });
+    expect(check(83.1, 82.9)).toEqual({
+      direction: "down",
+      referenceRate: 83.1,
+    });
+    expect(check(83.1, 83.2)).toBeNull();
+  });
+
+  it("counts a previous rate exactly on the threshold as a crossing start", () => {
+    const crosses: AlertCondition = { type: "crosses", value: 83 };
+    const check = (prev: number, next: number) =>
+      checkCondition(crosses, [observed(prev, 6)], observed(next, 19));
+
+    expect(check(83, 83.1)).toEqual({ direction: "up", referenceRate: 83 });
+    expect(check(83, 82.9)).toEqual({ direction: "down", referenceRate: 83 });
+    expect(check(83, 83)).toBeNull();
+  });
+
+  it("needs a previous observation to detect a crossing", () => {
+    expect(
+      checkCondition({ type: "crosses", value: 83 }, [], observed(83.1, 19))
+    ).toBeNull();
+  });
+
+  it("fires level conditions only when they become true", () => {
+    const above: AlertCondition = { type: "above", value: 83 };
+    const check = (prev: number, next: number) =>
+      checkCondition(above, [observed(prev, 6)], observed(next, 19));
+
+    expect(check(82, 84)).toEqual({ direction: "up", referenceRate: 82 });
+    expect(check(84, 85)).toBeNull();
+  });
+});
+
+// ===== ENGINE =====
+
+describe("createAlertEngine", () => {
+  beforeEach(() => {
+    clearLocalAlerts();
+  });
+
+  it("checks each alert at its own schedule slots", async () => {
+    const { clock, advanceTo } = fakeClock(at(5, 5));
+    const morning = alert("morning", { type: "above", value: 90 });
+    const noon = alert(
+      "noon",
+      { type: "above", value: 90 },
+      { to: "EUR", schedule: ["12:00"] }
+    );
+    const { engine, getRate } = engineWith([morning, noon], {
+      clock,
+      storage: storedState(at(5, 4)),
+    });
+
+    engine.start();
+    await settle();
+    expect(getRate).not.toHaveBeenCalled();
+
+    await advanceTo(at(5, 5, 59));
+    expect(getRate).not.toHaveBeenCalled();
+
+    await advanceTo(at(5, 6));
+    expect(getRate).toHaveBeenCalledTimes(1);
+    expect(getRate).toHaveBeenLastCalledWith("USD", "INR");
+
+    await advanceTo(at(5, 12));
+    expect(getRate).toHaveBeenCalledTimes(2);
+    expect(getRate).toHaveBeenLastCalledWith("USD", "EUR");
+
+    await advanceTo(at(5, 19));
+    expect(getRate).toHaveBeenCalledTimes(3);
+    engine.stop();
+  });
+
+  it("catches up on start when a slot passed while closed", async () => {
+    const { clock } = fakeClock(at(5, 8));
+    const { engine, getRate } = engineWith(
+      [alert("a", { type: "above", value: 90 })],
+      { clock, storage: storedState(at(4, 18)) }
+    );
+
+    engine.start();
+    await settle();
+    expect(getRate).toHaveBeenCalledTimes(1);
+    engine.stop();
+  });
+
+  it("doesn't catch up when the last slot was already checked", async () => {
+    const { clock } = fakeClock(at(5, 8));
+    const { engine, getRate } = engineWith(
+      [alert("a", { type: "above", value: 90 })],
+      { clock, storage: storedState(at(5, 6, 1)) }
+    );
+
+    engine.start();
+    await settle();
+    expect(getRate).not.toHaveBeenCalled();
+    engine.stop();
+  });
+
+  it("records a crossing against the previous run's observation", async () => {
+    const { clock, advanceTo } = fakeClock(at(5, 6));
+    let rate = 82.9;
+    const { engine } = engineWith([alert("a", { type: "crosses", value: 83 })], {
+      clock,
+      rate: () => rate,
+    });
+
+    expect(await engine.runNow()).toEqual([]);
+
+    await advanceTo(at(5, 19));
+    rate = 83.1;
+    const fired = await engine.runNow();
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({
+      alertId: "a",
+      direction: "up",
+      rate: 83.1,
+      referenceRate: 82.9,
+    });
+    expect(engine.getEvents()).toEqual(fired);
+  });
+
+  it("skips paused and snoozed alerts", async () => {
+    const { clock } = fakeClock(at(5, 6));
+    applyRemoteAlerts(
+      [
+        alert("active", { type: "above", value: 90 }),
+        alert(
+          "paused",
+          { type: "above", value: 90 },
+          { to: "EUR", active: false }
+        ),
+        alert(
+          "snoozed",
+          { type: "above", value: 90 },
+          { to: "GBP", snoozedUntil: new Date(at(5, 9)).toISOString() }
+        ),
+      ],
+      []
+    );
+    const getRate = vi.fn(async () => 83);
+    // default alert source: the store's active alerts
+    const engine = createAlertEngine({
+      clock,
+      getRate,
+      subscribe: () => () => {},
+      storage: memoryStorage(),
+      lock: sharedLock(),
+    });
+
+    await engine.runNow();
+    expect(getRate).toHaveBeenCalledTimes(1);
+    expect(getRate).toHaveBeenCalledWith("USD", "INR");
+    expect(Object.keys(engine.getObservations())).toEqual(["active"]);
+  });
+
+  it("persists events and observations for the next session", async () => {
+    const { clock } = fakeClock(at(5, 6));
+    const storage = memoryStorage();
+    const watched = [alert("a", { type: "above", value: 83 })];
+    const { engine } = engineWith(watched, { clock, storage, rate: () => 84 });
+
+    const fired = await engine.runNow();
+    expect(fired).toHaveLength(1);
+
+    const { engine: reloaded } = engineWith(watched, { clock, storage });
+    expect(reloaded.getEvents()).toEqual(fired);
+    expect(reloaded.getObservation("a")).toEqual({
+      rate: 84,
+      observedAt: new Date(at(5, 6)).toISOString(),
+    });
+  });
+
+  it("evaluates a slot in only one of several tabs", async () => {
+    const { clock, advanceTo } = fakeClock(at(5, 5));
+    const storage = storedState(at(5, 4));
+    const lock = sharedLock();
+    const watched = [alert("a", { type: "above", value: 83 })];
+    const tabs = [
+      engineWith(watched, { clock, storage, lock, rate: () => 84 }),
+      engineWith(watched, { clock, storage, lock, rate: () => 84 }),
+    ];
+    const triggered = vi.fn();
+    tabs.forEach(({ engine }) => {
+      engine.onTrigger(triggered);
+      engine.start();
+    });
+
+    await advanceTo(at(5, 6));
+    const calls = tabs.reduce((n, t) => n + t.getRate.mock.calls.length, 0);
+    expect(calls).toBe(1);
+    expect(triggered).toHaveBeenCalledTimes(1);
+    tabs.forEach(({ engine }) => engine.stop());
+  });
+
+  it("runs again for alerts added during a run", async () => {
+    const { clock } = fakeClock(at(5, 6));
+    const watched = [alert("a", { type: "above", value: 90 })];
+    let release: (rate: number) => void = () => {};
+    const getRate = vi.fn(
+      (_from: string, to: string) =>
+        to === "INR" && getRate.mock.calls.length === 1
+          ? new Promise<number>((resolve) => (release = resolve))
+          : Promise.resolve(83)
+    );
+    const { engine } = engineWith(watched, { clock, getRate });
+
+    // the first run is waiting on its rate when "b" is added
+    const first = engine.runNow();
+    await settle();
+    watched.push(alert("b", { type: "above", value: 90 }, { to: "EUR" }));
+    const second = engine.runNow();
+    release(83);
+    await Promise.all([first, second]);
+
+    expect(getRate).toHaveBeenCalledWith("USD", "EUR");
+    expect(Object.keys(engine.getObservations()).sort()).toEqual(["a", "b"]);
+  });
+});
+
+describe("checkWindowForSchedule", () => {
+  const move = (windowHours: number): AlertCondition => ({
+    type: "percentChange",
+    percent: 1,
+    windowHours,
+  });
+
+  it("needs the window to span the longest gap between checks", () => {
+    // 06:00 → 19:00 is 13 h, 19:00 → 06:00 is 11 h
+    expect(longestSlotGapHours(["06:00", "19:00"])).toBe(13);
+    expect(checkWindowForSchedule(move(12), ["06:00", "19:00"])).toMatch(
+      /at least 13 hours/
+    );
+    expect(checkWindowForSchedule(move(13), ["06:00", "19:00"])).toBeNull();
+  });
+
+  it("wraps a single daily check around to the next day", () => {
+    expect(longestSlotGapHours(["12:00"])).toBe(24);
+    expect(checkWindowForSchedule(move(23), ["12:00"])).not.toBeNull();
+  });
+
+  it("ignores other condition types", () => {
+    expect(
+      checkWindowForSchedule({ type: "above", value: 1 }, ["12:00"])
+    ).toBeNull();
+  });
+});
+
+describe("alertFromRemote", () => {
+  const base = alert("a", { type: "above", value: 83 });
+
+  it("migrates a legacy threshold to a crossing", () => {
+    const legacy = { ...base, condition: undefined, threshold: 83 };
+    expect(alertFromRemote(legacy)?.condition).toEqual({
+      type: "crosses",
+      value: 83,
+    });
+  });
+
+  it("drops alerts whose condition is malformed", () => {
+    const bad: unknown[] = [
+      { type: "teleport", value: 1 },
+      { type: "above", value: "83" },
+      { type: "rangeExit", low: 84, high: 83 },
+      { type: "percentChange", percent: 1 },
+    ];
+    bad.forEach((condition) => {
+      expect(alertFromRemote({ ...base, condition })).toBeNull();
+    });
+  });
+});
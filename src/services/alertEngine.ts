@@ -0,0 +1,498 @@
+// src/services/alertEngine.ts
+
+// Checks saved alerts against live rates on their schedule ("06:00", "19:00"
+// local time) while the app is open. Each run records the observed rate per
+// alert and checks the alert's condition against the earlier observations;
+// when it fires, a triggered event is stored.
+//
+// Every open tab has an engine, but runs take a cross-tab lock (Web Locks)
+// and re-read the stored state first, so a slot another tab has already
+// evaluated is skipped and only that tab reports its triggers. Other tabs
+// pick up the new state through the storage event.
+//
+// The clock and the rate source are injectable so the engine can be driven
+// without real timers or network.
+
+import {
+  MAX_WINDOW_HOURS,
+  checkCondition,
+  isAlertCondition,
+  type AlertCondition,
+  type RateObservation,
+} from "./alertConditions";
+import {
+  DEFAULT_ALERT_SCHEDULE,
+  getActiveAlerts,
+  getAlerts as getStoredAlerts,
+  subscribeAlerts,
+  type RateAlert,
+} from "./alertStore";
+import { needsEmailVerification } from "./emailVerification";
+import { getRate } from "./rateService";
+
+export type AlertClock = {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+};
+
+/** Resolves to the current 1 from → to rate, or null when unavailable. */
+export type AlertRateSource = (from: string, to: string) => Promise<number | null>;
+
+export type AlertEvent = {
+  id: string;
+  alertId: string;
+  from: string;
+  to: string;
+  condition: AlertCondition;
+  rate: number;
+  // previous observation, or the window start for % moves
+  referenceRate: number | null;
+  changePct?: number;
+  direction: "up" | "down";
+  triggeredAt: string; // ISO
+  // schedule slot the run was for (ISO); null for a manual check
+  slotAt: string | null;
+};
+
+type EngineState = {
+  // per alert, oldest first, trimmed to the longest % move window
+  observations: Record<string, RateObservation[]>;
+  events: AlertEvent[];
+  lastRunAt: string | null;
+};
+
+type EngineStorage = Pick<Storage, "getItem" | "setItem">;
+
+/** Runs `task` while no other tab runs the engine. */
+export type AlertRunLock = <T>(task: () => Promise<T>) => Promise<T>;
+
+export type AlertEngineOptions = {
+  clock?: AlertClock;
+  getRate?: AlertRateSource;
+  getAlerts?: () => RateAlert[];
+  // every stored alert, paused and snoozed ones included; observations of
+  // alerts missing here are dropped
+  getAllAlerts?: () => RateAlert[];
+  // notifies when the alert list changes, so new schedules are picked up
+  subscribe?: (listener: () => void) => () => void;
+  storage?: EngineStorage | null;
+  lock?: AlertRunLock;
+};
+
+export type AlertEngine = {
+  start: () => void;
+  stop: () => void;
+  /** Evaluates every alert immediately, regardless of schedule. */
+  runNow: () => Promise<AlertEvent[]>;
+  getEvents: () => AlertEvent[];
+  /** Latest observed rate for an alert, if it has been checked. */
+  getObservation: (alertId: string) => RateObservation | null;
+  /** Observation history per alert id; new object after every run. */
+  getObservations: () => Record<string, RateObservation[]>;
+  subscribe: (listener: () => void) => () => void;
+  /** Forgets all events and observations (another account's data). */
+  reset: () => void;
+  /** Called with the events of every run that fired at least one alert. */
+  onTrigger: (listener: (events: AlertEvent[]) => void) => () => void;
+};
+
+const STATE_KEY = "fxflow-alert-engine";
+const MAX_EVENTS = 50;
+const MAX_OBSERVATIONS = 60;
+// re-check at least hourly so sleep/clock changes can't push a slot out
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+const systemClock: AlertClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => window.setTimeout(fn, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle as number),
+};
+
+// Sample rates are placeholders, so they never count as an observation
+const liveRateSource: AlertRateSource = async (from, to) => {
+  const { rate, source } = await getRate(from, to);
+  return source === "sample" ? null : rate;
+};
+
+function defaultStorage(): EngineStorage | null {
+  return typeof localStorage === "undefined" ? null : localStorage;
+}
+
+// browsers without Web Locks fall back to running in every tab
+const webLock: AlertRunLock = async (task) =>
+  typeof navigator !== "undefined" && navigator.locks
+    ? navigator.locks.request(STATE_KEY, task)
+    : task();
+
+// ===== SCHEDULE =====
+
+function slotMinutes(slot: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(slot);
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  return h < 24 && m < 60 ? h * 60 + m : null;
+}
+
+function slotTimes(slots: string[], now: number, dayOffset: number) {
+  const day = new Date(now);
+  day.setDate(day.getDate() + dayOffset);
+  day.setHours(0, 0, 0, 0);
+
+  return slots.flatMap((slot) => {
+    const minutes = slotMinutes(slot);
+    if (minutes == null) return [];
+    const at = new Date(day);
+    at.setMinutes(minutes);
+    return [{ slot, at: at.getTime() }];
+  });
+}
+
+/** Next local slot strictly after `now`. */
+export function nextSlotAt(
+  slots: string[],
+  now: number
+): { slot: string; at: number } | null {
+  const upcoming = [...slotTimes(slots, now, 0), ...slotTimes(slots, now, 1)]
+    .filter((s) => s.at > now)
+    .sort((a, b) => a.at - b.at);
+  return upcoming[0] ?? null;
+}
+
+/** Most recent local slot at or before `now`. */
+export function latestSlotAt(
+  slots: string[],
+  now: number
+): { slot: string; at: number } | null {
+  const past = [...slotTimes(slots, now, -1), ...slotTimes(slots, now, 0)]
+    .filter((s) => s.at <= now)
+    .sort((a, b) => b.at - a.at);
+  return past[0] ?? null;
+}
+
+function scheduleOf(alert: RateAlert): string[] {
+  return alert.schedule?.length ? alert.schedule : DEFAULT_ALERT_SCHEDULE;
+}
+
+function allSlots(alerts: RateAlert[]): string[] {
+  const slots = new Set(DEFAULT_ALERT_SCHEDULE);
+  alerts.forEach((a) => scheduleOf(a).forEach((s) => slots.add(s)));
+  return [...slots];
+}
+
+// ===== STATE =====
+
+// events stored before conditions existed only had a crossing threshold
+type LegacyEvent = Partial<AlertEvent> & {
+  threshold?: number;
+  previousRate?: number;
+};
+
+function migrateEvent(raw: LegacyEvent): AlertEvent | null {
+  if (
+    !raw ||
+    typeof raw.id !== "string" ||
+    typeof raw.from !== "string" ||
+    typeof raw.to !== "string" ||
+    typeof raw.rate !== "number"
+  ) {
+    return null;
+  }
+
+  const condition: unknown =
+    raw.condition ??
+    (raw.threshold !== undefined
+      ? { type: "crosses", value: raw.threshold }
+      : null);
+  if (!isAlertCondition(condition)) return null;
+
+  return {
+    id: raw.id,
+    alertId: String(raw.alertId ?? ""),
+    from: raw.from,
+    to: raw.to,
+    condition,
+    rate: raw.rate,
+    referenceRate: raw.referenceRate ?? raw.previousRate ?? null,
+    ...(typeof raw.changePct === "number" ? { changePct: raw.changePct } : {}),
+    direction: raw.direction === "down" ? "down" : "up",
+    triggeredAt: raw.triggeredAt ?? new Date(0).toISOString(),
+    slotAt: raw.slotAt ?? null,
+  };
+}
+
+function readState(storage: EngineStorage | null): EngineState {
+  const empty: EngineState = { observations: {}, events: [], lastRunAt: null };
+  if (!storage) return empty;
+  try {
+    const raw = storage.getItem(STATE_KEY);
+    if (!raw) return empty;
+    const parsed = JSON.parse(raw);
+    const observations: EngineState["observations"] = {};
+    Object.entries(parsed?.observations ?? {}).forEach(([id, value]) => {
+      // earlier versions kept a single observation per alert
+      if (Array.isArray(value)) observations[id] = value;
+      else if (value) observations[id] = [value as RateObservation];
+    });
+    return {
+      observations,
+      events: Array.isArray(parsed?.events)
+        ? parsed.events
+            .map((e: unknown) => migrateEvent(e as LegacyEvent))
+            .filter((e: AlertEvent | null): e is AlertEvent => e !== null)
+        : [],
+      lastRunAt: parsed?.lastRunAt ?? null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function trimHistory(history: RateObservation[], now: number) {
+  const cutoff = now - MAX_WINDOW_HOURS * 60 * 60 * 1000;
+  return history
+    .filter((o) => Date.parse(o.observedAt) >= cutoff)
+    .slice(-MAX_OBSERVATIONS);
+}
+
+function writeState(storage: EngineStorage | null, state: EngineState) {
+  if (!storage) return;
+  try {
+    storage.setItem(STATE_KEY, JSON.stringify(state));
+  } catch {
+    // ignore
+  }
+}
+
+// ===== ENGINE =====
+
+export function createAlertEngine({
+  clock = systemClock,
+  getRate: rateSource = liveRateSource,
+  // unverified accounts' alerts don't run (see emailVerification.ts)
+  getAlerts = () =>
+    needsEmailVerification() ? [] : getActiveAlerts(clock.now()),
+  getAllAlerts = getStoredAlerts,
+  subscribe = subscribeAlerts,
+  storage = defaultStorage(),
+  lock = webLock,
+}: AlertEngineOptions = {}): AlertEngine {
+  let state = readState(storage);
+  let timer: unknown = null;
+  let running = false;
+  let unsubscribe: (() => void) | null = null;
+  let inflight: Promise<AlertEvent[]> | null = null;
+  const listeners = new Set<() => void>();
+  const triggerListeners = new Set<(events: AlertEvent[]) => void>();
+
+  function notify() {
+    listeners.forEach((l) => l());
+  }
+
+  function commit(next: EngineState) {
+    state = next;
+    writeState(storage, state);
+    notify();
+  }
+
+  // another tab may have run since this one last looked
+  function reload() {
+    if (!storage) return;
+    state = readState(storage);
+    notify();
+  }
+
+  function handleStorage(e: StorageEvent) {
+    if (e.key === STATE_KEY) reload();
+  }
+
+  async function evaluate(
+    alerts: RateAlert[],
+    slotAt: number | null
+  ): Promise<AlertEvent[]> {
+    const observedAt = new Date(clock.now()).toISOString();
+    const slot = slotAt != null ? new Date(slotAt).toISOString() : null;
+    const observations = { ...state.observations };
+    const fired: AlertEvent[] = [];
+
+    // one lookup per pair, even when several alerts watch it
+    const lookups = new Map<string, Promise<number | null>>();
+    function rateFor(from: string, to: string) {
+      const key = `${from}/${to}`;
+      let lookup = lookups.get(key);
+      if (!lookup) {
+        lookup = rateSource(from, to).catch((err) => {
+          console.error(`Alert check failed for ${key}:`, err);
+          return null;
+        });
+        lookups.set(key, lookup);
+      }
+      return lookup;
+    }
+
+    for (const alert of alerts) {
+      const rate = await rateFor(alert.from, alert.to);
+      if (rate == null) continue;
+
+      const history = observations[alert.id] ?? [];
+      const current = { rate, observedAt };
+      const hit = checkCondition(alert.condition, history, current);
+      if (hit) {
+        fired.push({
+          id: `${alert.id}:${observedAt}`,
+          alertId: alert.id,
+          from: alert.from,
+          to: alert.to,
+          condition: alert.condition,
+          rate,
+          ...hit,
+          triggeredAt: observedAt,
+          slotAt: slot,
+        });
+      }
+      observations[alert.id] = trimHistory(
+        [...history, current],
+        clock.now()
+      );
+    }
+
+    // forget observations for alerts that were deleted (paused or snoozed
+    // ones keep their history for when they resume)
+    const known = new Set(getAllAlerts().map((a) => a.id));
+    Object.keys(observations).forEach((id) => {
+      if (!known.has(id)) delete observations[id];
+    });
+
+    commit({
+      observations,
+      events: [...fired, ...state.events].slice(0, MAX_EVENTS),
+      lastRunAt: observedAt,
+    });
+    if (fired.length > 0) triggerListeners.forEach((l) => l(fired));
+    return fired;
+  }
+
+  // `slotAt` is the schedule slot being evaluated; null for a manual run
+  function runLocked(
+    selectAlerts: () => RateAlert[],
+    slotAt: number | null
+  ): Promise<AlertEvent[]> {
+    return lock(async () => {
+      reload();
+      const lastRun = state.lastRunAt ? Date.parse(state.lastRunAt) : 0;
+      if (slotAt != null && lastRun >= slotAt) return [];
+      return evaluate(selectAlerts(), slotAt);
+    });
+  }
+
+  function run(
+    selectAlerts: () => RateAlert[],
+    slotAt: number | null = null
+  ): Promise<AlertEvent[]> {
+    // runs never overlap (they'd race on state): a call made during a run
+    // is queued behind it and reads the alerts when its own turn comes
+    const queued = (inflight ?? Promise.resolve([]))
+      .catch(() => [])
+      .then(() => runLocked(selectAlerts, slotAt));
+    inflight = queued;
+    const clear = () => {
+      if (inflight === queued) inflight = null;
+    };
+    queued.then(clear, clear);
+    return queued;
+  }
+
+  function clearTimer() {
+    if (timer != null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+  }
+
+  function scheduleNext() {
+    if (!running || timer != null) return;
+
+    const now = clock.now();
+    const next = nextSlotAt(allSlots(getAlerts()), now);
+    if (!next) return;
+
+    timer = clock.setTimeout(() => {
+      timer = null;
+      if (clock.now() < next.at) {
+        scheduleNext();
+        return;
+      }
+      const due = () =>
+        getAlerts().filter((a) => scheduleOf(a).includes(next.slot));
+      void run(due, next.at).finally(scheduleNext);
+    }, Math.min(next.at - now, MAX_TIMER_MS));
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+
+      // alerts added/edited/snoozed may change the next slot
+      const offAlerts = subscribe(() => {
+        clearTimer();
+        scheduleNext();
+      });
+      if (typeof window !== "undefined") {
+        window.addEventListener("storage", handleStorage);
+      }
+      unsubscribe = () => {
+        offAlerts();
+        if (typeof window !== "undefined") {
+          window.removeEventListener("storage", handleStorage);
+        }
+      };
+
+      // catch up on a slot that passed while the app was closed
+      const last = latestSlotAt(allSlots(getAlerts()), clock.now());
+      const lastRun = state.lastRunAt ? Date.parse(state.lastRunAt) : 0;
+      if (last && lastRun < last.at) {
+        void run(getAlerts, last.at).finally(scheduleNext);
+      } else {
+        scheduleNext();
+      }
+    },
+
+    stop() {
+      running = false;
+      unsubscribe?.();
+      unsubscribe = null;
+      clearTimer();
+    },
+
+    runNow: () => run(getAlerts),
+
+    getEvents: () => state.events,
+
+    getObservation: (alertId) => state.observations[alertId]?.at(-1) ?? null,
+
+    getObservations: () => state.observations,
+
+    reset() {
+      commit({ observations: {}, events: [], lastRunAt: state.lastRunAt });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onTrigger(listener) {
+      triggerListeners.add(listener);
+      return () => {
+        triggerListeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** App-wide engine backed by the live rate service and active alerts. */
+export const alertEngine = createAlertEngine();
@@ -0,0 +1,322 @@
+// src/services/alertStore.ts
+
+// The one place rate alerts live. The dashboard form, the board's "Alert"
+// dialog, the profile card and the alert engine all read and write through
+// here, so every view sees the same list.
+//
+// Stored in localStorage as { version, alerts }. Older builds wrote a bare
+// array (first with a `threshold`, later with a `condition`); those are
+// migrated on read. When signed in, userSync.ts mirrors the list to
+// Firestore; `updatedAt` decides which side wins on conflicting edits.
+
+import {
+  checkWindowForSchedule,
+  isAlertCondition,
+  parseConditionDraft,
+  type AlertCondition,
+  type ConditionDraft,
+} from "./alertConditions";
+
+export type RateAlert = {
+  id: string;
+  from: string;
+  to: string;
+  condition: AlertCondition;
+  email: string;
+  // paused alerts are kept but skipped by the engine
+  active: boolean;
+  // skipped until this time, then picked up again automatically
+  snoozedUntil: string | null; // ISO
+  createdAt: string; // ISO
+  schedule: string[]; // ["06:00", "19:00"]
+  // webhook / chat destinations notified besides email
+  destinationIds: string[];
+  updatedAt: number; // ms, bumped on every local change
+};
+
+export type AlertStatus = "active" | "paused" | "snoozed";
+
+export type AlertDraft = {
+  from: string;
+  to: string;
+  condition: ConditionDraft;
+  email: string;
+};
+
+type StoredAlerts = {
+  version: number;
+  alerts: RateAlert[];
+};
+
+export const ALERTS_KEY = "fxflow-demo-alerts";
+export const ALERT_SCHEMA_VERSION = 1;
+export const DEFAULT_ALERT_SCHEDULE = ["06:00", "19:00"];
+
+let snapshot: RateAlert[] | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+// ===== MIGRATION =====
+
+type LegacyAlert = Partial<RateAlert> & { threshold?: number };
+
+function migrateAlert(raw: LegacyAlert): RateAlert | null {
+  if (!raw || typeof raw.from !== "string" || typeof raw.to !== "string") {
+    return null;
+  }
+
+  // alerts with a malformed condition (hand-edited storage, a bad remote
+  // document) are dropped rather than crashing the engine or the list
+  const condition: unknown =
+    raw.condition ??
+    (raw.threshold !== undefined
+      ? { type: "crosses", value: raw.threshold }
+      : null);
+  if (!isAlertCondition(condition)) return null;
+
+  return {
+    id: String(raw.id ?? Date.now()),
+    from: raw.from,
+    to: raw.to,
+    condition,
+    email: raw.email ?? "",
+    active: raw.active ?? true,
+    snoozedUntil: raw.snoozedUntil ?? null,
+    createdAt: raw.createdAt ?? new Date().toISOString(),
+    schedule: raw.schedule?.length ? raw.schedule : [...DEFAULT_ALERT_SCHEDULE],
+    destinationIds: raw.destinationIds ?? [],
+    updatedAt: raw.updatedAt ?? (Date.parse(raw.createdAt ?? "") || 0),
+  };
+}
+
+function parseStored(raw: string): RateAlert[] {
+  const parsed = JSON.parse(raw);
+  // unversioned bare array from before the schema version existed
+  const list: unknown = Array.isArray(parsed) ? parsed : parsed?.alerts;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .map((a) => migrateAlert(a as LegacyAlert))
+    .filter((a): a is RateAlert => a !== null);
+}
+
+// ===== READ / WRITE =====
+
+function readStorage(): RateAlert[] {
+  try {
+    const raw = localStorage.getItem(ALERTS_KEY);
+    return raw ? parseStored(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(alerts: RateAlert[]) {
+  snapshot = alerts;
+  const stored: StoredAlerts = { version: ALERT_SCHEMA_VERSION, alerts };
+  try {
+    localStorage.setItem(ALERTS_KEY, JSON.stringify(stored));
+  } catch {
+    // ignore – in-memory snapshot still updates the UI
+  }
+  notify();
+}
+
+/** All alerts, newest first. Same array reference until something changes. */
+export function getAlerts(): RateAlert[] {
+  if (!snapshot) snapshot = readStorage();
+  return snapshot;
+}
+
+export function alertStatus(alert: RateAlert, now = Date.now()): AlertStatus {
+  if (!alert.active) return "paused";
+  if (alert.snoozedUntil && Date.parse(alert.snoozedUntil) > now) {
+    return "snoozed";
+  }
+  return "active";
+}
+
+/** Alerts the engine should check right now (not paused or snoozed). */
+export function getActiveAlerts(now = Date.now()): RateAlert[] {
+  return getAlerts().filter((a) => alertStatus(a, now) === "active");
+}
+
+// ===== MUTATIONS =====
+
+/** Returns a user-facing error for the first invalid field, or null. */
+export function validateAlertDraft(draft: AlertDraft): string | null {
+  if (!draft.from || !draft.to) {
+    return "Please select both currencies.";
+  }
+  if (draft.from === draft.to) {
+    return "From and To currencies should be different.";
+  }
+  const parsed = parseConditionDraft(draft.condition);
+  if ("error" in parsed) return parsed.error;
+  // new alerts start on the default schedule
+  const windowError = checkWindowForSchedule(
+    parsed.condition,
+    DEFAULT_ALERT_SCHEDULE
+  );
+  if (windowError) return windowError;
+  if (!draft.email.trim()) {
+    return "Please enter an email for the alert.";
+  }
+  if (!draft.email.includes("@") || !draft.email.includes(".")) {
+    return "Please enter a valid email address.";
+  }
+  return null;
+}
+
+/** Builds an alert from a validated draft and stores it at the top. */
+export function addAlert(draft: AlertDraft): RateAlert {
+  const parsed = parseConditionDraft(draft.condition);
+  if ("error" in parsed) throw new Error(parsed.error);
+
+  const alert: RateAlert = {
+    id: `${Date.now()}`,
+    from: draft.from,
+    to: draft.to,
+    condition: parsed.condition,
+    email: draft.email.trim(),
+    active: true,
+    snoozedUntil: null,
+    createdAt: new Date().toISOString(),
+    schedule: [...DEFAULT_ALERT_SCHEDULE],
+    destinationIds: [],
+    updatedAt: Date.now(),
+  };
+
+  write([alert, ...getAlerts()]);
+  return alert;
+}
+
+type AlertPatch = Partial<Omit<RateAlert, "id" | "createdAt" | "updatedAt">>;
+
+/** Applies the same patch to every alert in `ids`. */
+export function updateAlerts(ids: string[], patch: AlertPatch) {
+  const targets = new Set(ids);
+  const updatedAt = Date.now();
+  write(
+    getAlerts().map((a) =>
+      targets.has(a.id) ? { ...a, ...patch, updatedAt } : a
+    )
+  );
+}
+
+export function updateAlert(id: string, patch: AlertPatch) {
+  updateAlerts([id], patch);
+}
+
+export function setAlertActive(id: string, active: boolean) {
+  // resuming also clears any pending snooze
+  updateAlert(id, active ? { active, snoozedUntil: null } : { active });
+}
+
+export function snoozeAlerts(ids: string[], hours: number) {
+  const until = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+  updateAlerts(ids, { snoozedUntil: until });
+}
+
+/** Removes alerts and returns them so the caller can offer an undo. */
+export function removeAlerts(ids: string[]): RateAlert[] {
+  const targets = new Set(ids);
+  const removed = getAlerts().filter((a) => targets.has(a.id));
+  write(getAlerts().filter((a) => !targets.has(a.id)));
+  return removed;
+}
+
+function byNewest(a: RateAlert, b: RateAlert) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+/** Puts previously removed alerts back, keeping newest-first order. */
+export function restoreAlerts(alerts: RateAlert[]) {
+  const existing = new Set(getAlerts().map((a) => a.id));
+  const updatedAt = Date.now();
+  const merged = [
+    ...getAlerts(),
+    ...alerts
+      .filter((a) => !existing.has(a.id))
+      .map((a) => ({ ...a, updatedAt })),
+  ].sort(byNewest);
+  write(merged);
+}
+
+// ===== REMOTE =====
+
+/**
+ * Applies changes that came from the server as-is (keeping their
+ * `updatedAt`), so they aren't mistaken for new local edits.
+ */
+export function applyRemoteAlerts(upserts: RateAlert[], removedIds: string[]) {
+  if (upserts.length === 0 && removedIds.length === 0) return;
+
+  const incoming = new Map(upserts.map((a) => [a.id, a]));
+  const removed = new Set(removedIds);
+  const kept = getAlerts()
+    .filter((a) => !removed.has(a.id) && !incoming.has(a.id))
+    .concat(upserts);
+  write(kept.sort(byNewest));
+}
+
+/** Drops every local alert (another account's data on this browser). */
+export function clearLocalAlerts() {
+  write([]);
+}
+
+/** Normalises an alert read from the server; null if it's unusable. */
+export function alertFromRemote(raw: unknown): RateAlert | null {
+  return migrateAlert(raw as LegacyAlert);
+}
+
+// ===== SCHEDULE =====
+
+/** Parses "06:00, 19:00" into sorted unique slots, or a user-facing error. */
+export function parseSchedule(
+  raw: string
+): { schedule: string[] } | { error: string } {
+  const parts = raw
+    .split(/[,\s]+/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return { error: "Add at least one check time (HH:MM)." };
+  }
+
+  const slots = new Set<string>();
+  for (const part of parts) {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(part);
+    const h = match ? Number(match[1]) : NaN;
+    const m = match ? Number(match[2]) : NaN;
+    if (!match || h > 23 || m > 59) {
+      return { error: `"${part}" is not a valid time. Use HH:MM (24h).` };
+    }
+    slots.add(`${String(h).padStart(2, "0")}:${match[2]}`);
+  }
+  return { schedule: [...slots].sort() };
+}
+
+// ===== SUBSCRIPTION =====
+
+function handleStorage(e: StorageEvent) {
+  if (e.key !== ALERTS_KEY) return;
+  // another tab changed the list – re-read on next access
+  snapshot = null;
+  notify();
+}
+
+export function subscribeAlerts(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) window.addEventListener("storage", handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("storage", handleStorage);
+    }
+  };
+}
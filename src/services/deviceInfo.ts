@@ -0,0 +1,82 @@
+// src/services/deviceInfo.ts
+
+// Describes the current device for session and login records: a short
+// label parsed from the user agent ("Windows PC • Chrome") and a coarse
+// location. The location comes from the time zone, so no permission prompt
+// or IP lookup is needed; the profile page may refine it with the city it
+// detects.
+
+export type DeviceType = "desktop" | "mobile" | "tablet";
+
+export type DeviceInfo = {
+  browser: string;
+  os: string;
+  deviceType: DeviceType;
+  // e.g. "Windows PC • Chrome"
+  label: string;
+};
+
+function detectBrowser(ua: string): string {
+  if (/Edg(e|A|iOS)?\//.test(ua)) return "Edge";
+  if (/OPR\/|Opera/.test(ua)) return "Opera";
+  if (/SamsungBrowser\//.test(ua)) return "Samsung Internet";
+  if (/Firefox\/|FxiOS\//.test(ua)) return "Firefox";
+  if (/Chrome\/|CriOS\//.test(ua)) return "Chrome";
+  if (/Safari\//.test(ua)) return "Safari";
+  return "Browser";
+}
+
+function detectOs(ua: string): string {
+  if (/Windows NT/.test(ua)) return "Windows";
+  if (/iPhone|iPod/.test(ua)) return "iOS";
+  if (/iPad/.test(ua)) return "iPadOS";
+  if (/CrOS/.test(ua)) return "ChromeOS";
+  if (/Android/.test(ua)) return "Android";
+  if (/Mac OS X|Macintosh/.test(ua)) return "macOS";
+  if (/Linux/.test(ua)) return "Linux";
+  return "Unknown OS";
+}
+
+function detectDeviceType(ua: string): DeviceType {
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    return "tablet";
+  }
+  if (/Mobi|iPhone|iPod/.test(ua)) return "mobile";
+  return "desktop";
+}
+
+const DEVICE_NAME: Record<string, Partial<Record<DeviceType, string>>> = {
+  Windows: { desktop: "Windows PC" },
+  macOS: { desktop: "Mac" },
+  iOS: { mobile: "iPhone" },
+  iPadOS: { tablet: "iPad" },
+  Android: { mobile: "Android phone", tablet: "Android tablet" },
+  ChromeOS: { desktop: "Chromebook" },
+  Linux: { desktop: "Linux PC" },
+};
+
+export function parseUserAgent(ua: string): DeviceInfo {
+  const browser = detectBrowser(ua);
+  const os = detectOs(ua);
+  const deviceType = detectDeviceType(ua);
+  const device = DEVICE_NAME[os]?.[deviceType] ?? os;
+  return { browser, os, deviceType, label: `${device} • ${browser}` };
+}
+
+export function currentDevice(): DeviceInfo {
+  return parseUserAgent(
+    typeof navigator === "undefined" ? "" : navigator.userAgent
+  );
+}
+
+/** Region from the time zone, e.g. "Asia/Kolkata" → "Kolkata, Asia". */
+export function coarseLocation(): string | null {
+  try {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const [region, ...rest] = zone.split("/");
+    if (!rest.length) return null;
+    return `${rest[rest.length - 1].replace(/_/g, " ")}, ${region}`;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,146 @@
+// src/services/emailVerification.ts
+
+// Email verification state for the signed-in user. Firebase sends the
+// verification link; this tracks whether the account is verified (checked
+// on every sign-in), re-checks on demand, and rate-limits resends.
+//
+// Signed-in accounts that aren't verified yet can't create alerts: the UI
+// disables it, the alert engine skips their alerts and firestore.rules
+// rejects new alert documents without the email_verified claim.
+
+import { onIdTokenChanged, sendEmailVerification, type User } from "firebase/auth";
+import { auth } from "../firebase";
+
+export type VerificationState = {
+  signedIn: boolean;
+  verified: boolean;
+  email: string | null;
+  // ms; resend is disabled until then
+  resendAvailableAt: number;
+};
+
+export const RESEND_COOLDOWN_MS = 60_000;
+const SENT_AT_KEY = "fx-verify-sent-at";
+
+let snapshot: VerificationState | null = null;
+let stopAuthListener: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function readSentAt(): number {
+  try {
+    return Number(localStorage.getItem(SENT_AT_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function stateFor(user: User | null): VerificationState {
+  return {
+    signedIn: !!user,
+    // password accounts start unverified; Google accounts come verified
+    verified: !!user?.emailVerified,
+    email: user?.email ?? null,
+    resendAvailableAt: readSentAt() + RESEND_COOLDOWN_MS,
+  };
+}
+
+function update(user: User | null) {
+  snapshot = stateFor(user);
+  notify();
+}
+
+export function getVerificationState(): VerificationState {
+  if (!snapshot) snapshot = stateFor(auth.currentUser);
+  return snapshot;
+}
+
+/** True when a signed-in account still has to verify its email. */
+export function needsEmailVerification(
+  state: VerificationState = getVerificationState()
+): boolean {
+  return state.signedIn && !state.verified;
+}
+
+function errorMessage(err: unknown): string {
+  const code = (err as { code?: string })?.code;
+  if (code === "auth/too-many-requests") {
+    return "Too many emails sent. Please wait a few minutes and try again.";
+  }
+  if (code === "auth/network-request-failed") {
+    return "Network error. Check your connection and try again.";
+  }
+  return "We couldn’t send the verification email. Please try again.";
+}
+
+/** Sends (or re-sends) the verification link. Returns an error message or null. */
+export async function sendVerificationEmail(): Promise<string | null> {
+  const user = auth.currentUser;
+  if (!user) return "Please sign in first.";
+  if (user.emailVerified) return null;
+  if (Date.now() < getVerificationState().resendAvailableAt) {
+    return "Please wait a moment before requesting another email.";
+  }
+
+  try {
+    await sendEmailVerification(user, { url: window.location.origin });
+    try {
+      localStorage.setItem(SENT_AT_KEY, String(Date.now()));
+    } catch {
+      // ignore – the cooldown just won't survive a reload
+    }
+    update(user);
+    return null;
+  } catch (err) {
+    console.error("Send verification email error", err);
+    return errorMessage(err);
+  }
+}
+
+/** Re-reads the account after the link was clicked. Resolves to `verified`. */
+export async function refreshVerification(): Promise<boolean> {
+  const user = auth.currentUser;
+  if (!user) return false;
+
+  try {
+    await user.reload();
+    if (user.emailVerified) {
+      // refresh the token too, so its email_verified claim is current
+      await user.getIdToken(true);
+    }
+  } catch (err) {
+    console.error("Refresh verification error", err);
+  }
+  update(auth.currentUser);
+  return !!auth.currentUser?.emailVerified;
+}
+
+/**
+ * Runs after a password sign-in: re-reads the account (the link may have
+ * been opened on another device) and, if it's still unverified, sends a
+ * fresh link unless one went out recently. Resolves to `verified`.
+ */
+export async function checkVerificationOnSignIn(): Promise<boolean> {
+  if (await refreshVerification()) return true;
+  if (Date.now() >= getVerificationState().resendAvailableAt) {
+    await sendVerificationEmail();
+  }
+  return false;
+}
+
+export function subscribeVerification(listener: () => void): () => void {
+  listeners.add(listener);
+  // fires on every sign-in, sign-out and token refresh
+  if (!stopAuthListener) stopAuthListener = onIdTokenChanged(auth, update);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && stopAuthListener) {
+      stopAuthListener();
+      stopAuthListener = null;
+    }
+  };
+}
@@ -0,0 +1,105 @@
+// src/services/indicators.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  bollinger,
+  ema,
+  macd,
+  rollingVolatility,
+  rsi,
+  sma,
+  type IndicatorValues,
+} from "./indicators";
+
+// compares with a tolerance, keeping the null warm-up slots exact
+function expectValues(actual: IndicatorValues, expected: IndicatorValues) {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value == null) expect(actual[i]).toBeNull();
+    else expect(actual[i]).toBeCloseTo(value, 6);
+  });
+}
+
+describe("sma", () => {
+  it("averages the last `period` points", () => {
+    expectValues(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+  });
+
+  it("stays empty for a period below 1", () => {
+    expectValues(sma([1, 2, 3], 0), [null, null, null]);
+  });
+});
+
+describe("ema", () => {
+  it("seeds with the SMA and then weights by 2 / (period + 1)", () => {
+    // k = 0.5: 2 → 10 * 0.5 + 2 * 0.5 = 6 → 2 * 0.5 + 6 * 0.5 = 4
+    expectValues(ema([1, 2, 3, 10, 2], 3), [null, null, 2, 6, 4]);
+  });
+
+  it("stays empty with fewer points than the period", () => {
+    expectValues(ema([1, 2], 3), [null, null]);
+  });
+});
+
+describe("bollinger", () => {
+  it("puts the bands `multiplier` population deviations from the SMA", () => {
+    // mean 5, population standard deviation 2
+    const { middle, upper, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(middle[7]).toBeCloseTo(5, 6);
+    expect(upper[7]).toBeCloseTo(9, 6);
+    expect(lower[7]).toBeCloseTo(1, 6);
+    expect(upper[6]).toBeNull();
+  });
+});
+
+describe("rsi", () => {
+  it("uses Wilder's smoothing", () => {
+    // start: avg gain 0.5, avg loss 0.5 → 50
+    // +1: gain 0.75, loss 0.25 → 75; −1: gain 0.375, loss 0.625 → 37.5
+    expectValues(rsi([1, 2, 1, 2, 1], 2), [null, null, 50, 75, 37.5]);
+  });
+
+  it("is 100 when nothing fell", () => {
+    expectValues(rsi([1, 2, 3, 4], 3), [null, null, null, 100]);
+  });
+});
+
+describe("macd", () => {
+  it("is flat for a constant series", () => {
+    const { macd: line, signal, histogram } = macd([5, 5, 5, 5, 5, 5], 2, 3, 2);
+    expectValues(line, [null, null, 0, 0, 0, 0]);
+    // the signal EMA starts once it has `signalPeriod` MACD values
+    expectValues(signal, [null, null, null, 0, 0, 0]);
+    expectValues(histogram, [null, null, null, 0, 0, 0]);
+  });
+
+  it("subtracts the slow EMA from the fast one", () => {
+    const values = [1, 2, 3, 10, 2, 4];
+    const fast = ema(values, 2);
+    const slow = ema(values, 3);
+    const { macd: line } = macd(values, 2, 3, 2);
+    line.forEach((v, i) => {
+      if (i < 2) expect(v).toBeNull();
+      else expect(v).toBeCloseTo((fast[i] as number) - (slow[i] as number), 6);
+    });
+  });
+});
+
+describe("rollingVolatility", () => {
+  it("annualises the deviation of log returns in percent", () => {
+    // log returns alternate ±0.01, so their deviation is 0.01
+    const up = Math.exp(0.01);
+    const expected = 0.01 * Math.sqrt(252) * 100;
+    expectValues(rollingVolatility([1, up, 1, up, 1], 2), [
+      null,
+      null,
+      expected,
+      expected,
+      expected,
+    ]);
+  });
+
+  it("is zero for steady growth", () => {
+    const values = [1, 2, 4, 8, 16];
+    expectValues(rollingVolatility(values, 3), [null, null, null, 0, 0]);
+  });
+});
@@ -0,0 +1,170 @@
+// src/services/indicators.ts
+
+// Technical indicators over a plain series of closes (oldest first).
+// Every function returns an array aligned with its input: index i holds the
+// indicator value at values[i], or null while there isn't enough history yet.
+
+export type IndicatorValues = (number | null)[];
+
+function emptyLike(values: number[]): IndicatorValues {
+  return values.map(() => null);
+}
+
+/** Simple moving average over `period` points. */
+export function sma(values: number[], period: number): IndicatorValues {
+  const out = emptyLike(values);
+  if (period < 1) return out;
+
+  let sum = 0;
+  values.forEach((v, i) => {
+    sum += v;
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  });
+  return out;
+}
+
+/** Exponential moving average, seeded with the SMA of the first `period` points. */
+export function ema(values: number[], period: number): IndicatorValues {
+  const out = emptyLike(values);
+  if (period < 1 || values.length < period) return out;
+
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+function stdDev(window: number[]): number {
+  const mean = window.reduce((a, b) => a + b, 0) / window.length;
+  const variance =
+    window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / window.length;
+  return Math.sqrt(variance);
+}
+
+export type BollingerBands = {
+  middle: IndicatorValues;
+  upper: IndicatorValues;
+  lower: IndicatorValues;
+};
+
+/** SMA middle band ± `multiplier` population standard deviations. */
+export function bollinger(
+  values: number[],
+  period = 20,
+  multiplier = 2
+): BollingerBands {
+  const middle = sma(values, period);
+  const upper = emptyLike(values);
+  const lower = emptyLike(values);
+
+  values.forEach((_, i) => {
+    const mid = middle[i];
+    if (mid == null) return;
+    const sd = stdDev(values.slice(i - period + 1, i + 1));
+    upper[i] = mid + multiplier * sd;
+    lower[i] = mid - multiplier * sd;
+  });
+
+  return { middle, upper, lower };
+}
+
+/** Wilder's relative strength index (0–100). */
+export function rsi(values: number[], period = 14): IndicatorValues {
+  const out = emptyLike(values);
+  if (period < 1 || values.length <= period) return out;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = values[i] - values[i - 1];
+    if (diff >= 0) gain += diff;
+    else loss -= diff;
+  }
+  let avgGain = gain / period;
+  let avgLoss = loss / period;
+
+  const toRsi = () =>
+    avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+
+  out[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const diff = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(diff, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-diff, 0)) / period;
+    out[i] = toRsi();
+  }
+  return out;
+}
+
+export type MacdResult = {
+  macd: IndicatorValues;
+  signal: IndicatorValues;
+  histogram: IndicatorValues;
+};
+
+/** MACD line (fast EMA − slow EMA), its signal EMA and the histogram. */
+export function macd(
+  values: number[],
+  fast = 12,
+  slow = 26,
+  signalPeriod = 9
+): MacdResult {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+
+  const macdLine: IndicatorValues = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f == null || s == null ? null : f - s;
+  });
+
+  // Signal EMA runs over the defined part of the MACD line only
+  const firstDefined = macdLine.findIndex((v) => v != null);
+  const signal = emptyLike(values);
+  if (firstDefined >= 0) {
+    const defined = macdLine.slice(firstDefined) as number[];
+    ema(defined, signalPeriod).forEach((v, j) => {
+      signal[firstDefined + j] = v;
+    });
+  }
+
+  const histogram: IndicatorValues = values.map((_, i) => {
+    const m = macdLine[i];
+    const s = signal[i];
+    return m == null || s == null ? null : m - s;
+  });
+
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * Rolling standard deviation of daily log returns over `window` points,
+ * annualised with `periodsPerYear` and expressed in percent.
+ */
+export function rollingVolatility(
+  values: number[],
+  window = 20,
+  periodsPerYear = 252
+): IndicatorValues {
+  const out = emptyLike(values);
+  if (window < 2) return out;
+
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(Math.log(values[i] / values[i - 1]));
+  }
+
+  // returns[j] is the move into values[j + 1]
+  for (let i = window; i < values.length; i++) {
+    const slice = returns.slice(i - window, i);
+    out[i] = stdDev(slice) * Math.sqrt(periodsPerYear) * 100;
+  }
+  return out;
+}
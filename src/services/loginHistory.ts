@@ -0,0 +1,234 @@
+// src/services/loginHistory.ts
+
+// Durable sign-in history per account:
+//
+//   users/{uid}/logins/{id}  { at, method, success, error, device,
+//                              deviceId, location, newDevice, mfa }
+//
+// Successful sign-ins are written straight away. Failed ones happen before
+// anyone is signed in, so they wait in localStorage and are uploaded the
+// next time that email signs in successfully on this browser (attempts on
+// other browsers can't be recorded without a server). A failed Google
+// sign-in is queued under the account Firebase names in the error, or the
+// email typed into the form; without either it can't be attributed.
+// Queued failures older than 30 days are dropped – firestore.rules rejects
+// them.
+//
+// Each browser gets a random device id; a successful sign-in from a device
+// the account hasn't used before is flagged as `newDevice`.
+
+import {
+  addDoc,
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { auth, db } from "../firebase";
+import { coarseLocation, currentDevice, type DeviceInfo } from "./deviceInfo";
+
+export type LoginMethod = "password" | "google";
+
+export type LoginEvent = {
+  id: string;
+  // ms
+  at: number;
+  method: LoginMethod;
+  success: boolean;
+  // readable reason for failures
+  error: string | null;
+  device: DeviceInfo;
+  deviceId: string;
+  location: string | null;
+  newDevice: boolean;
+  // finished with a second factor
+  mfa: boolean;
+};
+
+export type LoginHistoryPage = {
+  events: LoginEvent[];
+  // pass back to fetch the next (older) page; null on the last page
+  cursor: QueryDocumentSnapshot | null;
+};
+
+type PendingFailure = {
+  email: string;
+  event: Omit<LoginEvent, "id">;
+};
+
+export const LOGIN_PAGE_SIZE = 5;
+const DEVICE_ID_KEY = "fx-device-id";
+const FAILURES_KEY = "fx-login-failures";
+const MAX_PENDING_FAILURES = 20;
+const MAX_FAILURE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function loginsRef(uid: string) {
+  return collection(db, "users", uid, "logins");
+}
+
+function deviceId(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    // without storage every sign-in looks like a new device
+    return "unknown";
+  }
+}
+
+function readFailures(): PendingFailure[] {
+  try {
+    const raw = localStorage.getItem(FAILURES_KEY);
+    return raw ? (JSON.parse(raw) as PendingFailure[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeFailures(list: PendingFailure[]) {
+  try {
+    localStorage.setItem(FAILURES_KEY, JSON.stringify(list));
+  } catch {
+    // ignore – failures just won't be uploaded
+  }
+}
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function logError(what: string) {
+  return (err: unknown) =>
+    console.error(`Login history: ${what} failed:`, err);
+}
+
+/** Remembers a failed attempt until `email` next signs in here. */
+export function recordLoginFailure(
+  email: string,
+  method: LoginMethod,
+  error: string
+) {
+  const key = normalizeEmail(email);
+  if (!key) return;
+  writeFailures(
+    [
+      ...readFailures(),
+      {
+        email: key,
+        event: {
+          at: Date.now(),
+          method,
+          success: false,
+          error,
+          device: currentDevice(),
+          deviceId: deviceId(),
+          location: coarseLocation(),
+          newDevice: false,
+          mfa: false,
+        },
+      },
+    ].slice(-MAX_PENDING_FAILURES)
+  );
+}
+
+async function isNewDevice(uid: string, id: string): Promise<boolean> {
+  const successes = query(
+    loginsRef(uid),
+    where("success", "==", true),
+    limit(1)
+  );
+  const fromDevice = query(
+    loginsRef(uid),
+    where("success", "==", true),
+    where("deviceId", "==", id),
+    limit(1)
+  );
+  const [any, here] = await Promise.all([
+    getDocs(successes),
+    getDocs(fromDevice),
+  ]);
+  // the very first sign-in of an account isn't worth a warning
+  return !any.empty && here.empty;
+}
+
+/** Records a successful sign-in of the current user. */
+export async function recordLoginSuccess(
+  method: LoginMethod,
+  { mfa = false }: { mfa?: boolean } = {}
+): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) return;
+  const ref = loginsRef(user.uid);
+  const id = deviceId();
+
+  try {
+    const email = normalizeEmail(user.email ?? "");
+    const failures = readFailures();
+    const mine = failures.filter((f) => f.email === email);
+    if (mine.length > 0) {
+      writeFailures(failures.filter((f) => f.email !== email));
+      const recent = mine.filter(
+        (f) => Date.now() - f.event.at < MAX_FAILURE_AGE_MS
+      );
+      await Promise.all(recent.map((f) => addDoc(ref, f.event)));
+    }
+
+    await addDoc(ref, {
+      at: Date.now(),
+      method,
+      success: true,
+      error: null,
+      device: currentDevice(),
+      deviceId: id,
+      location: coarseLocation(),
+      newDevice: await isNewDevice(user.uid, id),
+      mfa,
+    });
+  } catch (err) {
+    logError("recording sign-in")(err);
+  }
+}
+
+function eventFromRemote(snap: QueryDocumentSnapshot): LoginEvent {
+  const data = snap.data();
+  return {
+    id: snap.id,
+    at: Number(data.at) || 0,
+    method: data.method === "google" ? "google" : "password",
+    success: !!data.success,
+    error: typeof data.error === "string" ? data.error : null,
+    device: data.device as DeviceInfo,
+    deviceId: String(data.deviceId ?? ""),
+    location: typeof data.location === "string" ? data.location : null,
+    newDevice: !!data.newDevice,
+    mfa: !!data.mfa,
+  };
+}
+
+/** One page of sign-in events, newest first. */
+export async function fetchLoginHistory(
+  uid: string,
+  cursor: QueryDocumentSnapshot | null = null
+): Promise<LoginHistoryPage> {
+  const constraints = [
+    orderBy("at", "desc"),
+    ...(cursor ? [startAfter(cursor)] : []),
+    // one extra to know whether there's another page
+    limit(LOGIN_PAGE_SIZE + 1),
+  ];
+  const snap = await getDocs(query(loginsRef(uid), ...constraints));
+  const docs = snap.docs.slice(0, LOGIN_PAGE_SIZE);
+  return {
+    events: docs.map(eventFromRemote),
+    cursor:
+      snap.docs.length > LOGIN_PAGE_SIZE ? docs[docs.length - 1] : null,
+  };
+}
@@ -0,0 +1,99 @@
+// src/services/mailTransport.ts
+
+// Where outgoing emails go. Everything that sends mail talks to a
+// `MailTransport`, so the delivery code doesn't care whether a message hits
+// a real SMTP server or just the console.
+//
+//  - "smtp": POSTs the message to the SMTP relay served by the Vite dev
+//    server (see smtpRelay.ts), which speaks SMTP to SMTP_HOST:SMTP_PORT –
+//    e.g. a local Mailpit/MailHog catcher on localhost:1025.
+//  - "console": logs the message and keeps the last few in localStorage,
+//    so alerts can be tried without any mail server.
+//
+// Picked with VITE_MAIL_TRANSPORT (default "console").
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type MailTransport = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+export type OutboxEntry = MailMessage & { sentAt: string };
+
+export const MAIL_RELAY_PATH = "/__mail/send";
+export const DEFAULT_MAIL_FROM = "XChangeHub Alerts <alerts@xchangehub.local>";
+
+const OUTBOX_KEY = "fx-mail-outbox";
+const MAX_OUTBOX = 20;
+
+// ===== SMTP (via relay) =====
+
+export function createSmtpTransport(endpoint = MAIL_RELAY_PATH): MailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error ?? `Mail relay responded ${res.status}`);
+      }
+    },
+  };
+}
+
+// ===== CONSOLE =====
+
+export function getMailOutbox(): OutboxEntry[] {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.info(
+        `[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`
+      );
+      const entry: OutboxEntry = { ...message, sentAt: new Date().toISOString() };
+      try {
+        localStorage.setItem(
+          OUTBOX_KEY,
+          JSON.stringify([entry, ...getMailOutbox()].slice(0, MAX_OUTBOX))
+        );
+      } catch {
+        // ignore – the console copy is enough
+      }
+    },
+  };
+}
+
+// ===== DEFAULT =====
+
+function transportFromEnv(): MailTransport {
+  const kind = import.meta.env.VITE_MAIL_TRANSPORT;
+  if (kind === "smtp") {
+    return createSmtpTransport(
+      import.meta.env.VITE_MAIL_ENDPOINT || MAIL_RELAY_PATH
+    );
+  }
+  return createConsoleTransport();
+}
+
+export const mailTransport = transportFromEnv();
@@ -0,0 +1,354 @@
+// src/services/mfa.ts
+
+// Two-factor authentication with an authenticator app (TOTP), on top of
+// Firebase multi-factor auth:
+//
+//   enroll    startTotpEnrollment() → QR code + secret,
+//             finishTotpEnrollment(code) → verifies the first code,
+//             issueRecoveryCodes() → one-time codes (mfaRecovery.ts)
+//   sign-in   signing in throws auth/multi-factor-auth-required; the login
+//             page resolves it with a code or a recovery code
+//   unenroll  disableTotp()
+//
+// A recovery code reveals the authenticator secret to the browser that
+// redeems it, so using one retires that secret: the authenticator app is
+// unenrolled right after the sign-in and has to be set up again.
+//
+// Enrolling and unenrolling need a recent sign-in, so the profile page runs
+// reauthenticate() (reauth.ts) first. TOTP has to be enabled for the
+// project (Identity Platform) for any of this to work.
+
+import {
+  getMultiFactorResolver,
+  multiFactor,
+  onIdTokenChanged,
+  signOut,
+  TotpMultiFactorGenerator,
+  type MultiFactorError,
+  type MultiFactorResolver,
+  type TotpSecret,
+  type User,
+} from "firebase/auth";
+import { auth } from "../firebase";
+import {
+  countRecoveryCodes,
+  createRecoveryCodes,
+  deleteRecoveryCodes,
+  markRecoveryCodeUsed,
+  redeemRecoveryCode,
+} from "./mfaRecovery";
+import { generateTotp, type TotpParams } from "./totp";
+
+export type MfaState = {
+  signedIn: boolean;
+  // enrollment id of the authenticator app, when one is enrolled
+  totpFactorId: string | null;
+  enrolledAt: string | null;
+  // the authenticator was removed after a recovery-code sign-in
+  resetByRecovery: boolean;
+};
+
+export type TotpEnrollment = {
+  secret: TotpSecret;
+  // otpauth:// URL for the QR code
+  qrCodeUrl: string;
+};
+
+type Result<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const ISSUER = "XChangeHub";
+// uid whose authenticator was removed after a recovery code
+const RESET_KEY = "fx-mfa-reset";
+const FACTOR_NAME = "Authenticator app";
+
+let snapshot: MfaState | null = null;
+let stopAuthListener: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function resetUid(): string | null {
+  try {
+    return localStorage.getItem(RESET_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function setResetUid(uid: string | null) {
+  try {
+    if (uid) localStorage.setItem(RESET_KEY, uid);
+    else localStorage.removeItem(RESET_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+function stateFor(user: User | null): MfaState {
+  const factor = user
+    ? multiFactor(user).enrolledFactors.find(
+        (f) => f.factorId === TotpMultiFactorGenerator.FACTOR_ID
+      )
+    : undefined;
+  return {
+    signedIn: !!user,
+    totpFactorId: factor?.uid ?? null,
+    enrolledAt: factor?.enrollmentTime ?? null,
+    resetByRecovery: !factor && !!user && resetUid() === user.uid,
+  };
+}
+
+function update(user: User | null) {
+  snapshot = stateFor(user);
+  notify();
+}
+
+export function getMfaState(): MfaState {
+  if (!snapshot) snapshot = stateFor(auth.currentUser);
+  return snapshot;
+}
+
+export function subscribeMfa(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!stopAuthListener) stopAuthListener = onIdTokenChanged(auth, update);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && stopAuthListener) {
+      stopAuthListener();
+      stopAuthListener = null;
+    }
+  };
+}
+
+// ===== ERRORS =====
+
+function errorMessage(err: unknown): string {
+  switch ((err as { code?: string })?.code) {
+    case "auth/invalid-verification-code":
+      return "That code isn’t right. Check your authenticator app and try again.";
+    case "auth/totp-challenge-timeout":
+    case "auth/code-expired":
+      return "This step took too long. Please start again.";
+    case "auth/unverified-email":
+      return "Verify your email before turning on two-factor authentication.";
+    case "auth/requires-recent-login":
+      return "For your security, please confirm it’s you again and retry.";
+    case "auth/operation-not-allowed":
+    case "auth/admin-restricted-operation":
+      return "Authenticator apps aren’t enabled for this app yet.";
+    case "auth/maximum-second-factor-count-exceeded":
+      return "This account already has the maximum number of second factors.";
+    case "auth/too-many-requests":
+      return "Too many attempts. Please wait a few minutes and try again.";
+    case "auth/network-request-failed":
+      return "Network error. Check your connection and try again.";
+    default:
+      return "Something went wrong with two-factor authentication. Please try again.";
+  }
+}
+
+function paramsOf(secret: TotpSecret): TotpParams {
+  return {
+    secretKey: secret.secretKey,
+    hashingAlgorithm: secret.hashingAlgorithm,
+    codeLength: secret.codeLength,
+    codeIntervalSeconds: secret.codeIntervalSeconds,
+  };
+}
+
+// ===== ENROLLMENT =====
+
+/** Creates a new TOTP secret to scan. */
+export async function startTotpEnrollment(): Promise<Result<TotpEnrollment>> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: "Please sign in first." };
+
+  try {
+    const session = await multiFactor(user).getSession();
+    const secret = await TotpMultiFactorGenerator.generateSecret(session);
+    return {
+      ok: true,
+      value: {
+        secret,
+        qrCodeUrl: secret.generateQrCodeUrl(user.email ?? user.uid, ISSUER),
+      },
+    };
+  } catch (err) {
+    console.error("Start TOTP enrollment error", err);
+    return { ok: false, error: errorMessage(err) };
+  }
+}
+
+/** Verifies the first code and enrolls the authenticator app. */
+export async function finishTotpEnrollment(
+  enrollment: TotpEnrollment,
+  code: string
+): Promise<string | null> {
+  const user = auth.currentUser;
+  if (!user) return "Please sign in first.";
+
+  try {
+    const assertion = TotpMultiFactorGenerator.assertionForEnrollment(
+      enrollment.secret,
+      code.replace(/\s/g, "")
+    );
+    await multiFactor(user).enroll(assertion, FACTOR_NAME);
+    setResetUid(null);
+    update(auth.currentUser);
+    return null;
+  } catch (err) {
+    console.error("Finish TOTP enrollment error", err);
+    return errorMessage(err);
+  }
+}
+
+/** Creates (or replaces) recovery codes for a just-enrolled secret. */
+export async function issueRecoveryCodes(
+  enrollment: TotpEnrollment
+): Promise<Result<string[]>> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: "Please sign in first." };
+
+  try {
+    const codes = await createRecoveryCodes(
+      user.uid,
+      paramsOf(enrollment.secret)
+    );
+    return { ok: true, value: codes };
+  } catch (err) {
+    console.error("Create recovery codes error", err);
+    return {
+      ok: false,
+      error: "We couldn’t save your recovery codes. Please try again.",
+    };
+  }
+}
+
+/** Unused recovery codes of the signed-in user; null if unknown. */
+export async function recoveryCodesLeft(): Promise<number | null> {
+  const user = auth.currentUser;
+  if (!user) return null;
+  try {
+    return await countRecoveryCodes(user.uid);
+  } catch (err) {
+    console.error("Count recovery codes error", err);
+    return null;
+  }
+}
+
+/** Removes the authenticator app and its recovery codes. */
+export async function disableTotp(): Promise<string | null> {
+  const user = auth.currentUser;
+  const factorId = getMfaState().totpFactorId;
+  if (!user || !factorId) return null;
+
+  try {
+    await multiFactor(user).unenroll(factorId);
+  } catch (err) {
+    console.error("Disable TOTP error", err);
+    return errorMessage(err);
+  }
+  update(auth.currentUser);
+
+  try {
+    await deleteRecoveryCodes(user.uid);
+  } catch (err) {
+    // harmless leftovers: they only unlock a secret that no longer works
+    console.error("Delete recovery codes error", err);
+  }
+  return null;
+}
+
+// ===== SIGN-IN CHALLENGE =====
+
+/** The pending second-factor step when sign-in needs one, else null. */
+export function mfaChallengeFrom(err: unknown): MultiFactorResolver | null {
+  if ((err as { code?: string })?.code !== "auth/multi-factor-auth-required") {
+    return null;
+  }
+  return getMultiFactorResolver(auth, err as MultiFactorError);
+}
+
+function totpHintId(resolver: MultiFactorResolver): string | null {
+  return (
+    resolver.hints.find(
+      (h) => h.factorId === TotpMultiFactorGenerator.FACTOR_ID
+    )?.uid ?? null
+  );
+}
+
+/** Completes sign-in with a code from the authenticator app. */
+export async function resolveWithTotp(
+  resolver: MultiFactorResolver,
+  code: string
+): Promise<string | null> {
+  const hintId = totpHintId(resolver);
+  if (!hintId) return "This account uses a second factor we don’t support.";
+
+  try {
+    await resolver.resolveSignIn(
+      TotpMultiFactorGenerator.assertionForSignIn(hintId, code.replace(/\s/g, ""))
+    );
+    return null;
+  } catch (err) {
+    console.error("TOTP sign-in error", err);
+    return errorMessage(err);
+  }
+}
+
+/**
+ * Completes sign-in with a one-time recovery code, then unenrolls the
+ * authenticator whose secret the code unlocked (see the top of the file).
+ */
+export async function resolveWithRecoveryCode(
+  resolver: MultiFactorResolver,
+  recoveryCode: string
+): Promise<string | null> {
+  let redeemed;
+  try {
+    redeemed = await redeemRecoveryCode(recoveryCode);
+  } catch (err) {
+    console.error("Recovery code lookup error", err);
+    return "We couldn’t check that recovery code. Please try again.";
+  }
+  if (!redeemed) return "That recovery code isn’t valid or was already used.";
+
+  const error = await resolveWithTotp(
+    resolver,
+    await generateTotp(redeemed.params)
+  );
+  if (error) return error;
+
+  const user = auth.currentUser;
+  if (!user) return "Please sign in again.";
+  const factorId = stateFor(user).totpFactorId;
+  if (factorId) {
+    try {
+      await multiFactor(user).unenroll(factorId);
+    } catch (err) {
+      // the secret would stay valid: don't let this sign-in through
+      console.error("Reset TOTP after recovery error", err);
+      await signOut(auth).catch(() => undefined);
+      return "We couldn’t finish signing in with that recovery code. Please try again.";
+    }
+  }
+  setResetUid(user.uid);
+  update(auth.currentUser);
+
+  // every code unlocks the retired secret; leftovers are harmless
+  try {
+    await markRecoveryCodeUsed(redeemed.id);
+    await deleteRecoveryCodes(user.uid);
+  } catch (err) {
+    console.error("Delete recovery codes error", err);
+  }
+
+  // Firebase may end the session that was opened with the removed factor
+  if (!auth.currentUser) {
+    return "Your authenticator app was removed because you used a recovery code. Sign in again with your password, then set up two-factor authentication again.";
+  }
+  return null;
+}
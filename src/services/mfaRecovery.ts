@@ -0,0 +1,189 @@
+// src/services/mfaRecovery.ts
+
+// Recovery codes for two-factor sign-in. Firebase has no recovery codes of
+// its own, so each code unlocks an encrypted copy of the TOTP secret:
+//
+//   mfaRecovery/{sha256(code)}  { uid, salt, iv, data, createdAt }
+//
+// `data` is the secret (see totp.ts) encrypted with AES-GCM under a key
+// derived from the code, so the document is useless without the code. It
+// has to be readable before sign-in completes, which is why the rules allow
+// `get` by id to anyone but never `list`.
+//
+// Redeeming a code generates the current TOTP code from the secret and
+// completes the normal Firebase challenge. Because the browser has then
+// seen the secret, mfa.ts unenrolls that authenticator straight away and
+// deletes all of the user's codes: the secret stops working even if the
+// client skips the cleanup below, and the user sets 2FA up again.
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import type { TotpParams } from "./totp";
+
+export const RECOVERY_CODE_COUNT = 8;
+// no 0/o, 1/l/i – easy to copy by hand
+const ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const GROUPS = 3;
+const GROUP_LENGTH = 4;
+const PBKDF2_ITERATIONS = 150_000;
+
+const recoveryRef = collection(db, "mfaRecovery");
+
+export type RedeemedCode = { id: string; params: TotpParams };
+
+// ===== ENCODING =====
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+function normalizeCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function randomCode(): string {
+  const chars: string[] = [];
+  const limit = 256 - (256 % ALPHABET.length);
+  while (chars.length < GROUPS * GROUP_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(16))) {
+      // skip the top bytes so every character is equally likely
+      if (byte < limit && chars.length < GROUPS * GROUP_LENGTH) {
+        chars.push(ALPHABET[byte % ALPHABET.length]);
+      }
+    }
+  }
+  return Array.from({ length: GROUPS }, (_, i) =>
+    chars.slice(i * GROUP_LENGTH, (i + 1) * GROUP_LENGTH).join("")
+  ).join("-");
+}
+
+// ===== CRYPTO =====
+
+async function codeId(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`xchangehub-recovery:${normalizeCode(code)}`)
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function codeKey(code: string, salt: Uint8Array<ArrayBuffer>) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(normalizeCode(code)),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function sealFor(code: string, uid: string, params: TotpParams) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await codeKey(code, salt),
+    new TextEncoder().encode(JSON.stringify(params))
+  );
+  return {
+    uid,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    createdAt: serverTimestamp(),
+  };
+}
+
+// ===== CODES =====
+
+async function ownCodes(uid: string) {
+  return getDocs(query(recoveryRef, where("uid", "==", uid)));
+}
+
+/** Replaces the user's recovery codes; resolves to the new plain codes. */
+export async function createRecoveryCodes(
+  uid: string,
+  params: TotpParams
+): Promise<string[]> {
+  const existing = await ownCodes(uid);
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomCode);
+  const sealed = await Promise.all(
+    codes.map(async (code) => ({
+      id: await codeId(code),
+      value: await sealFor(code, uid, params),
+    }))
+  );
+
+  const batch = writeBatch(db);
+  existing.forEach((d) => batch.delete(d.ref));
+  sealed.forEach(({ id, value }) => batch.set(doc(recoveryRef, id), value));
+  await batch.commit();
+  return codes;
+}
+
+/** Deletes every recovery code of the user (after turning 2FA off). */
+export async function deleteRecoveryCodes(uid: string): Promise<void> {
+  const existing = await ownCodes(uid);
+  const batch = writeBatch(db);
+  existing.forEach((d) => batch.delete(d.ref));
+  await batch.commit();
+}
+
+export async function countRecoveryCodes(uid: string): Promise<number> {
+  return (await ownCodes(uid)).size;
+}
+
+/** Unlocks the TOTP secret with a recovery code; null if the code is wrong. */
+export async function redeemRecoveryCode(
+  code: string
+): Promise<RedeemedCode | null> {
+  if (normalizeCode(code).length !== GROUPS * GROUP_LENGTH) return null;
+
+  const id = await codeId(code);
+  const snap = await getDoc(doc(recoveryRef, id));
+  const stored = snap.data();
+  if (!stored) return null;
+
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(stored.iv) },
+      await codeKey(code, fromBase64(stored.salt)),
+      fromBase64(stored.data)
+    );
+    return {
+      id,
+      params: JSON.parse(new TextDecoder().decode(plain)) as TotpParams,
+    };
+  } catch (err) {
+    console.error("Recovery code could not be decrypted", err);
+    return null;
+  }
+}
+
+/** Used codes stop working; called once sign-in has completed. */
+export async function markRecoveryCodeUsed(id: string): Promise<void> {
+  await deleteDoc(doc(recoveryRef, id));
+}
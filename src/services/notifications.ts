@@ -0,0 +1,148 @@
+// src/services/notifications.ts
+
+// In-app notification center (the Navbar bell) plus optional desktop popups
+// through the browser Notification API. Every notification is kept in the
+// center; popups are only shown once the user has granted permission.
+
+export type AppNotification = {
+  id: string;
+  title: string;
+  body: string;
+  // pair to open when the notification is clicked
+  pair: { base: string; quote: string } | null;
+  createdAt: string; // ISO
+  read: boolean;
+};
+
+export type PopupPermission = NotificationPermission | "unsupported";
+
+const STORAGE_KEY = "fx-notifications";
+const ONBOARDING_KEY = "fx-notify-onboarding";
+const MAX_NOTIFICATIONS = 50;
+
+let snapshot: AppNotification[] | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function readStorage(): AppNotification[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(items: AppNotification[]) {
+  snapshot = items;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // ignore
+  }
+  notify();
+}
+
+// ===== CENTER =====
+
+/** Newest first. Same array reference until something changes. */
+export function getNotifications(): AppNotification[] {
+  if (!snapshot) snapshot = readStorage();
+  return snapshot;
+}
+
+export function pushNotification(
+  input: Omit<AppNotification, "id" | "createdAt" | "read">
+): AppNotification {
+  const item: AppNotification = {
+    ...input,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    read: false,
+  };
+  write([item, ...getNotifications()].slice(0, MAX_NOTIFICATIONS));
+  return item;
+}
+
+export function markNotificationRead(id: string) {
+  write(getNotifications().map((n) => (n.id === id ? { ...n, read: true } : n)));
+}
+
+export function markAllNotificationsRead() {
+  write(getNotifications().map((n) => ({ ...n, read: true })));
+}
+
+export function clearNotifications() {
+  write([]);
+}
+
+export function subscribeNotifications(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ===== DESKTOP POPUPS =====
+
+export function popupPermission(): PopupPermission {
+  return typeof Notification === "undefined"
+    ? "unsupported"
+    : Notification.permission;
+}
+
+export async function requestPopupPermission(): Promise<PopupPermission> {
+  if (typeof Notification === "undefined") return "unsupported";
+  try {
+    const result = await Notification.requestPermission();
+    // the bell re-reads the permission on its next render
+    notify();
+    return result;
+  } catch (err) {
+    console.error("Notification permission request failed:", err);
+    return Notification.permission;
+  }
+}
+
+/** Shows a desktop popup if allowed; `onClick` runs when it's clicked. */
+export function showPopup(item: AppNotification, onClick?: () => void) {
+  if (popupPermission() !== "granted") return;
+  try {
+    const popup = new Notification(item.title, {
+      body: item.body,
+      tag: item.id,
+    });
+    popup.onclick = () => {
+      window.focus();
+      popup.close();
+      onClick?.();
+    };
+  } catch (err) {
+    // some browsers only allow popups from a service worker
+    console.error("Could not show notification:", err);
+  }
+}
+
+// ===== ONBOARDING =====
+
+export function isOnboardingDismissed(): boolean {
+  try {
+    return localStorage.getItem(ONBOARDING_KEY) === "dismissed";
+  } catch {
+    return false;
+  }
+}
+
+export function dismissOnboarding() {
+  try {
+    localStorage.setItem(ONBOARDING_KEY, "dismissed");
+  } catch {
+    // ignore
+  }
+  notify();
+}
@@ -0,0 +1,117 @@
+// src/services/passwordReset.ts
+
+// "Forgot password?" on the login screen. Firebase emails the reset link;
+// this validates the address, maps auth errors to readable messages and
+// rate-limits repeated requests:
+//
+//   - one email per address every RESET_COOLDOWN_MS
+//   - at most RESET_MAX_PER_WINDOW emails per browser per RESET_WINDOW_MS
+//
+// Firebase enforces its own quota too (auth/too-many-requests); hitting it
+// counts as a send here so the UI backs off instead of retrying straight away.
+
+import { sendPasswordResetEmail } from "firebase/auth";
+import { auth } from "../firebase";
+
+export const RESET_COOLDOWN_MS = 60_000;
+export const RESET_WINDOW_MS = 60 * 60_000;
+const RESET_MAX_PER_WINDOW = 5;
+const STORAGE_KEY = "fx-password-resets";
+
+type ResetRequest = { email: string; at: number };
+
+let requests: ResetRequest[] | null = null;
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function loadRequests(): ResetRequest[] {
+  if (requests) return requests;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    requests = Array.isArray(parsed)
+      ? parsed.filter(
+          (r): r is ResetRequest =>
+            typeof r?.email === "string" && typeof r?.at === "number"
+        )
+      : [];
+  } catch {
+    requests = [];
+  }
+  return requests;
+}
+
+function recordRequest(email: string) {
+  const cutoff = Date.now() - RESET_WINDOW_MS;
+  requests = [
+    ...loadRequests().filter((r) => r.at > cutoff),
+    { email, at: Date.now() },
+  ];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(requests));
+  } catch {
+    // ignore – the limit just won't survive a reload
+  }
+}
+
+/** When another reset email may be sent to `email` (ms; past = now). */
+export function resetAvailableAt(email: string): number {
+  const key = normalizeEmail(email);
+  const recent = loadRequests().filter(
+    (r) => r.at > Date.now() - RESET_WINDOW_MS
+  );
+
+  let availableAt = 0;
+  const lastForEmail = recent.filter((r) => r.email === key).at(-1);
+  if (lastForEmail) availableAt = lastForEmail.at + RESET_COOLDOWN_MS;
+
+  if (recent.length >= RESET_MAX_PER_WINDOW) {
+    // the oldest request in the window has to age out first
+    const oldest = recent[recent.length - RESET_MAX_PER_WINDOW];
+    availableAt = Math.max(availableAt, oldest.at + RESET_WINDOW_MS);
+  }
+  return availableAt;
+}
+
+function errorMessage(code: string | undefined): string {
+  switch (code) {
+    case "auth/user-not-found":
+      return "No account found with this email.";
+    case "auth/invalid-email":
+      return "Please enter a valid email address.";
+    case "auth/missing-email":
+      return "Please enter your email address.";
+    case "auth/user-disabled":
+      return "This account has been disabled. Contact support for help.";
+    case "auth/too-many-requests":
+      return "Too many reset requests. Please wait a while and try again.";
+    case "auth/network-request-failed":
+      return "Network error. Check your connection and try again.";
+    default:
+      return "We couldn’t send the reset email. Please try again.";
+  }
+}
+
+/** Emails a password reset link. Returns an error message or null. */
+export async function requestPasswordReset(
+  email: string
+): Promise<string | null> {
+  const key = normalizeEmail(email);
+  if (!key) return errorMessage("auth/missing-email");
+  if (Date.now() < resetAvailableAt(key)) {
+    return "Please wait a moment before requesting another reset email.";
+  }
+
+  try {
+    await sendPasswordResetEmail(auth, key, { url: window.location.origin });
+    recordRequest(key);
+    return null;
+  } catch (err) {
+    console.error("Password reset error", err);
+    const code = (err as { code?: string })?.code;
+    if (code === "auth/too-many-requests") recordRequest(key);
+    return errorMessage(code);
+  }
+}
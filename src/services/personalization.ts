@@ -0,0 +1,84 @@
+// src/services/personalization.ts
+
+// Defaults derived from the registration questionnaire: the home currency
+// and suggested pairs come from the country, the dashboard section order
+// from the use case.
+
+export type AccountType = "personal" | "business";
+export type UseCase = "travel" | "investing" | "business";
+export type DashboardSection = "converter" | "charts" | "alerts";
+
+export type CurrencyPair = { base: string; quote: string };
+
+export const ACCOUNT_TYPES: AccountType[] = ["personal", "business"];
+
+export const COUNTRIES: { name: string; currency: string }[] = [
+  { name: "United States", currency: "USD" },
+  { name: "Canada", currency: "CAD" },
+  { name: "United Kingdom", currency: "GBP" },
+  { name: "Eurozone", currency: "EUR" },
+  { name: "India", currency: "INR" },
+  { name: "Australia", currency: "AUD" },
+  { name: "Singapore", currency: "SGD" },
+  { name: "United Arab Emirates", currency: "AED" },
+];
+
+export const USE_CASES: { id: UseCase; label: string; hint: string }[] = [
+  {
+    id: "travel",
+    label: "Travel & remittance",
+    hint: "Quick conversions first.",
+  },
+  {
+    id: "investing",
+    label: "Tracking markets",
+    hint: "Charts and your watchlist first.",
+  },
+  {
+    id: "business",
+    label: "Business FX exposure",
+    hint: "Alerts on your invoice currencies first.",
+  },
+];
+
+const DEFAULT_HOME_CURRENCY = "USD";
+// what the dashboard always opened on before the questionnaire was saved
+const DEFAULT_PAIR: CurrencyPair = { base: "USD", quote: "INR" };
+
+// counterparts suggested against any home currency, most traded first
+const MAJORS = ["USD", "EUR", "GBP", "JPY", "AED"];
+
+const LAYOUTS: Record<UseCase, DashboardSection[]> = {
+  travel: ["converter", "charts", "alerts"],
+  investing: ["charts", "alerts", "converter"],
+  business: ["alerts", "converter", "charts"],
+};
+
+export function homeCurrencyFor(country: string | null): string {
+  return (
+    COUNTRIES.find((c) => c.name === country)?.currency ??
+    DEFAULT_HOME_CURRENCY
+  );
+}
+
+/** A few pairs worth watching from `home`, quoted the way the market does. */
+export function suggestedPairs(home: string, count = 4): CurrencyPair[] {
+  return MAJORS.filter((c) => c !== home)
+    .slice(0, count)
+    .map((major) =>
+      // USD is the base for most quotes, except against EUR and GBP
+      home === "USD" && major !== "EUR" && major !== "GBP"
+        ? { base: "USD", quote: major }
+        : { base: major, quote: home }
+    );
+}
+
+/** Pair the converter and alert form start on. */
+export function defaultPairFor(country: string | null): CurrencyPair {
+  if (!country) return DEFAULT_PAIR;
+  return suggestedPairs(homeCurrencyFor(country), 1)[0];
+}
+
+export function dashboardLayout(useCase: UseCase | null): DashboardSection[] {
+  return LAYOUTS[useCase ?? "travel"];
+}
@@ -0,0 +1,77 @@
+// src/services/preferences.ts
+
+// App-wide preferences (currently just the theme). Kept in localStorage and
+// mirrored to Firestore by userSync.ts when signed in.
+
+export type ThemeMode = "light" | "dark";
+
+export type Preferences = {
+  theme: ThemeMode;
+  updatedAt: number; // ms, 0 = never changed
+};
+
+const STORAGE_KEY = "fx-preferences";
+// older builds stored only the theme under this key
+const LEGACY_THEME_KEY = "fx-theme";
+
+const DEFAULT_PREFERENCES: Preferences = { theme: "dark", updatedAt: 0 };
+
+let snapshot: Preferences | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+/** Fills in missing or invalid fields from older or remote copies. */
+export function normalizePreferences(raw: unknown): Preferences {
+  const p = (raw ?? {}) as Partial<Preferences>;
+  return {
+    theme: p.theme === "light" || p.theme === "dark" ? p.theme : "dark",
+    updatedAt: typeof p.updatedAt === "number" ? p.updatedAt : 0,
+  };
+}
+
+function readStorage(): Preferences {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return normalizePreferences(JSON.parse(raw));
+
+    const legacy = localStorage.getItem(LEGACY_THEME_KEY);
+    return normalizePreferences({ theme: legacy });
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function write(prefs: Preferences) {
+  snapshot = prefs;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch {
+    // ignore
+  }
+  notify();
+}
+
+export function getPreferences(): Preferences {
+  if (!snapshot) snapshot = readStorage();
+  return snapshot;
+}
+
+export function setThemePreference(theme: ThemeMode) {
+  if (getPreferences().theme === theme) return;
+  write({ ...getPreferences(), theme, updatedAt: Date.now() });
+}
+
+/** Server copy, applied without bumping `updatedAt`. */
+export function applyRemotePreferences(prefs: Preferences) {
+  write(prefs);
+}
+
+export function subscribePreferences(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,128 @@
+// src/services/profileDetails.ts
+
+// The profile document: the free-form parts of the profile card (about
+// text and social links) plus the registration questionnaire. Kept in
+// localStorage and mirrored to Firestore by userSync.ts when signed in.
+
+import {
+  ACCOUNT_TYPES,
+  COUNTRIES,
+  USE_CASES,
+  type AccountType,
+  type UseCase,
+} from "./personalization";
+
+export type SocialLinks = {
+  twitter: string;
+  linkedin: string;
+  instagram: string;
+};
+
+export type ProfileDetails = {
+  about: string;
+  socials: SocialLinks;
+  // from registration; null for accounts created before it was saved
+  country: string | null;
+  accountType: AccountType | null;
+  useCase: UseCase | null;
+  newsletterOptIn: boolean;
+  updatedAt: number; // ms, 0 = never edited
+};
+
+const STORAGE_KEY = "fx-profile-details";
+
+const EMPTY_DETAILS: ProfileDetails = {
+  about: "",
+  socials: { twitter: "", linkedin: "", instagram: "" },
+  country: null,
+  accountType: null,
+  useCase: null,
+  newsletterOptIn: false,
+  updatedAt: 0,
+};
+
+let snapshot: ProfileDetails | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Fills in missing fields from older or remote copies. The questionnaire
+ * answers drive the dashboard layout and defaults, so values that aren't
+ * one of the known options become null.
+ */
+export function normalizeProfileDetails(raw: unknown): ProfileDetails {
+  const d = (raw ?? {}) as Partial<Record<keyof ProfileDetails, unknown>>;
+  const socials = (d.socials ?? {}) as Partial<Record<keyof SocialLinks, unknown>>;
+  return {
+    about: text(d.about),
+    socials: {
+      twitter: text(socials.twitter),
+      linkedin: text(socials.linkedin),
+      instagram: text(socials.instagram),
+    },
+    country: COUNTRIES.some((c) => c.name === d.country)
+      ? (d.country as string)
+      : null,
+    accountType: ACCOUNT_TYPES.includes(d.accountType as AccountType)
+      ? (d.accountType as AccountType)
+      : null,
+    useCase: USE_CASES.some((u) => u.id === d.useCase)
+      ? (d.useCase as UseCase)
+      : null,
+    newsletterOptIn: d.newsletterOptIn === true,
+    updatedAt: typeof d.updatedAt === "number" ? d.updatedAt : 0,
+  };
+}
+
+function readStorage(): ProfileDetails {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeProfileDetails(JSON.parse(raw)) : EMPTY_DETAILS;
+  } catch {
+    return EMPTY_DETAILS;
+  }
+}
+
+function write(details: ProfileDetails) {
+  snapshot = details;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(details));
+  } catch {
+    // ignore
+  }
+  notify();
+}
+
+export function getProfileDetails(): ProfileDetails {
+  if (!snapshot) snapshot = readStorage();
+  return snapshot;
+}
+
+export function saveProfileDetails(
+  patch: Partial<Omit<ProfileDetails, "updatedAt">>
+) {
+  write({ ...getProfileDetails(), ...patch, updatedAt: Date.now() });
+}
+
+/** Server copy, applied without bumping `updatedAt`. */
+export function applyRemoteProfileDetails(details: ProfileDetails) {
+  write(details);
+}
+
+export function clearProfileDetails() {
+  write(EMPTY_DETAILS);
+}
+
+export function subscribeProfileDetails(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,88 @@
+// src/services/rateCache.ts
+
+// Two-layer cache used by the rate service: a Map for the current page load
+// and localStorage so a reload doesn't have to hit the API again.
+
+type CacheEntry<T> = {
+  value: T;
+  storedAt: number; // epoch ms
+};
+
+export type CacheHit<T> = {
+  value: T;
+  storedAt: number;
+  fresh: boolean; // false once the TTL has passed (still usable as fallback)
+};
+
+export type TtlCache<T> = {
+  get: (key: string) => CacheHit<T> | null;
+  set: (key: string, value: T) => void;
+  clear: () => void;
+};
+
+const STORAGE_PREFIX = "fx-cache:";
+
+function readStorage<T>(storageKey: string): CacheEntry<T> | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as CacheEntry<T>;
+    return typeof parsed?.storedAt === "number" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage<T>(storageKey: string, entry: CacheEntry<T>) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(entry));
+  } catch {
+    // quota exceeded / private mode – the in-memory layer still works
+  }
+}
+
+export function createTtlCache<T>(
+  namespace: string,
+  ttlMs: number,
+  now: () => number = Date.now
+): TtlCache<T> {
+  const memory = new Map<string, CacheEntry<T>>();
+  const storageKeyFor = (key: string) => `${STORAGE_PREFIX}${namespace}:${key}`;
+
+  function get(key: string): CacheHit<T> | null {
+    let entry = memory.get(key) ?? null;
+    if (!entry) {
+      entry = readStorage<T>(storageKeyFor(key));
+      if (entry) memory.set(key, entry);
+    }
+    if (!entry) return null;
+    return {
+      value: entry.value,
+      storedAt: entry.storedAt,
+      fresh: now() - entry.storedAt < ttlMs,
+    };
+  }
+
+  function set(key: string, value: T) {
+    const entry: CacheEntry<T> = { value, storedAt: now() };
+    memory.set(key, entry);
+    writeStorage(storageKeyFor(key), entry);
+  }
+
+  function clear() {
+    memory.clear();
+    if (typeof window === "undefined") return;
+    try {
+      const prefix = `${STORAGE_PREFIX}${namespace}:`;
+      Object.keys(window.localStorage)
+        .filter((k) => k.startsWith(prefix))
+        .forEach((k) => window.localStorage.removeItem(k));
+    } catch {
+      // ignore
+    }
+  }
+
+  return { get, set, clear };
+}
@@ -0,0 +1,89 @@
+// src/services/rateProvider.ts
+
+export type LatestRatesPayload = {
+  base: string;
+  date: string; // YYYY-MM-DD of the published fixing
+  rates: Record<string, number>; // 1 base → X quote
+};
+
+export type SeriesPayload = {
+  base: string;
+  // one entry per published fixing, oldest first
+  points: { date: string; rates: Record<string, number> }[];
+};
+
+/**
+ * Anything that can answer "what are today's rates for this base?".
+ * The app only talks to the provider through rateService, so swapping
+ * Frankfurter for another feed (or a mock) is a one-line change there.
+ */
+export interface RateProvider {
+  name: string;
+  fetchLatest: (base: string) => Promise<LatestRatesPayload>;
+  // start/end are inclusive YYYY-MM-DD dates; no symbols → every quote
+  fetchSeries: (
+    base: string,
+    start: string,
+    end: string,
+    symbols?: string[]
+  ) => Promise<SeriesPayload>;
+  fetchCurrencies: () => Promise<Record<string, string>>; // code → name
+}
+
+const FRANKFURTER_BASE_URL = "https://api.frankfurter.app";
+
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return (await res.json()) as T;
+}
+
+export const frankfurterProvider: RateProvider = {
+  name: "frankfurter.app",
+
+  async fetchLatest(base) {
+    const data = await getJson<{
+      base?: string;
+      date?: string;
+      rates?: Record<string, number>;
+    }>(`${FRANKFURTER_BASE_URL}/latest?from=${encodeURIComponent(base)}`);
+
+    if (!data.rates || typeof data.rates !== "object") {
+      throw new Error("Missing rates field");
+    }
+    return {
+      base: data.base ?? base,
+      date: data.date ?? "",
+      rates: data.rates,
+    };
+  },
+
+  async fetchSeries(base, start, end, symbols) {
+    const to = symbols?.length
+      ? `&to=${symbols.map(encodeURIComponent).join(",")}`
+      : "";
+    const data = await getJson<{
+      base?: string;
+      rates?: Record<string, Record<string, number>>;
+    }>(
+      `${FRANKFURTER_BASE_URL}/${start}..${end}?from=${encodeURIComponent(
+        base
+      )}${to}`
+    );
+
+    if (!data.rates || typeof data.rates !== "object") {
+      throw new Error("Missing rates field");
+    }
+    const points = Object.entries(data.rates)
+      .map(([date, rates]) => ({ date, rates }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return { base: data.base ?? base, points };
+  },
+
+  async fetchCurrencies() {
+    return getJson<Record<string, string>>(
+      `${FRANKFURTER_BASE_URL}/currencies`
+    );
+  },
+};
@@ -0,0 +1,334 @@
+// src/services/rateService.ts
+import { createTtlCache } from "./rateCache";
+import {
+  frankfurterProvider,
+  type LatestRatesPayload,
+  type RateProvider,
+  type SeriesPayload,
+} from "./rateProvider";
+
+/**
+ * Where a set of rates came from:
+ *  live   – provider response (or a cached copy still within its TTL)
+ *  stale  – provider failed, serving the last cached copy past its TTL
+ *  sample – provider failed and nothing cached, built-in demo table
+ */
+export type RateSource = "live" | "stale" | "sample";
+
+export type LatestRates = LatestRatesPayload & { source: RateSource };
+
+export type RangeKey = "24H" | "7D" | "30D" | "3M";
+
+export const RANGE_KEYS: RangeKey[] = ["24H", "7D", "30D", "3M"];
+
+// Longer windows only offered on the single-pair chart
+export type ChartRangeKey = RangeKey | "1Y" | "5Y" | "MAX";
+
+export const CHART_RANGE_KEYS: ChartRangeKey[] = [
+  ...RANGE_KEYS,
+  "1Y",
+  "5Y",
+  "MAX",
+];
+
+export type RateSeries = SeriesPayload & {
+  range: ChartRangeKey;
+  source: Exclude<RateSource, "sample">;
+};
+
+export type SeriesPoint = { date: string; value: number };
+
+export type CurrencyList = {
+  currencies: Record<string, string>; // code → name
+  source: RateSource;
+};
+
+const LATEST_TTL_MS = 30 * 60 * 1000; // ECB publishes once a day; 30 min is plenty
+const SERIES_TTL_MS = 6 * 60 * 60 * 1000;
+const CURRENCIES_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Calendar days fetched per range. The feed only publishes one fixing per
+// business day, so "24H" is the move between the two most recent fixings.
+// days: null → everything since the first ECB fixing.
+const RANGE_WINDOWS: Record<
+  ChartRangeKey,
+  { days: number | null; keepLast?: number }
+> = {
+  "24H": { days: 7, keepLast: 2 },
+  "7D": { days: 7 },
+  "30D": { days: 30 },
+  "3M": { days: 91 },
+  "1Y": { days: 365 },
+  "5Y": { days: 5 * 365 + 1 },
+  MAX: { days: null },
+};
+
+const FEED_START_DATE = "1999-01-04";
+
+// Demo table used when the feed is down and nothing is cached.
+// 1 USD → X currency units.
+const SAMPLE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.78,
+  INR: 83.1,
+  JPY: 151.2,
+  AUD: 1.52,
+  CAD: 1.37,
+  AED: 3.67,
+};
+
+const FALLBACK_CURRENCIES: Record<string, string> = {
+  USD: "US Dollar",
+  EUR: "Euro",
+  GBP: "British Pound",
+  INR: "Indian Rupee",
+  JPY: "Japanese Yen",
+  AUD: "Australian Dollar",
+  CAD: "Canadian Dollar",
+  CHF: "Swiss Franc",
+  CNY: "Chinese Yuan",
+  SGD: "Singapore Dollar",
+};
+
+const SOURCE_MESSAGES: Record<RateSource, string | null> = {
+  live: null,
+  stale: "Showing last saved rates (live feed unavailable).",
+  sample: "Using sample rates (live feed unavailable).",
+};
+
+let provider: RateProvider = frankfurterProvider;
+
+const latestCache = createTtlCache<LatestRatesPayload>("latest", LATEST_TTL_MS);
+const seriesCache = createTtlCache<SeriesPayload>("series", SERIES_TTL_MS);
+const currencyCache = createTtlCache<Record<string, string>>(
+  "currencies",
+  CURRENCIES_TTL_MS
+);
+
+// One in-flight request per key, shared by every caller
+const inflight = new Map<string, Promise<unknown>>();
+
+function dedupe<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const promise = load().finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+}
+
+function sampleLatest(base: string): LatestRatesPayload {
+  const baseUsd = SAMPLE_RATES[base];
+  const rates: Record<string, number> = {};
+  if (baseUsd) {
+    Object.entries(SAMPLE_RATES).forEach(([code, quoteUsd]) => {
+      if (code !== base) rates[code] = quoteUsd / baseUsd;
+    });
+  }
+  return { base, date: "", rates };
+}
+
+// ===== PROVIDER =====
+
+export function getRateProvider(): RateProvider {
+  return provider;
+}
+
+/** Swap the upstream feed (tests, mocks, another vendor). Drops cached data. */
+export function setRateProvider(next: RateProvider) {
+  provider = next;
+  inflight.clear();
+  latestCache.clear();
+  seriesCache.clear();
+  currencyCache.clear();
+}
+
+export function describeRateSource(source: RateSource): string | null {
+  return SOURCE_MESSAGES[source];
+}
+
+// ===== LATEST RATES =====
+
+/** Synchronous cache read so hooks can render cached numbers immediately. */
+export function peekLatestRates(base: string): LatestRates | null {
+  const hit = latestCache.get(base);
+  if (!hit || !hit.fresh) return null;
+  return { ...hit.value, source: "live" };
+}
+
+/**
+ * Latest rates for `base` against every currency the provider knows.
+ * Never rejects: falls back to stale cache, then to the sample table.
+ */
+export function getLatestRates(base: string): Promise<LatestRates> {
+  const cached = peekLatestRates(base);
+  if (cached) return Promise.resolve(cached);
+
+  return dedupe(`latest:${base}`, async () => {
+    try {
+      const payload = await provider.fetchLatest(base);
+      latestCache.set(base, payload);
+      return { ...payload, source: "live" as const };
+    } catch (err) {
+      console.error(`Rate provider (${provider.name}) error:`, err);
+      const stale = latestCache.get(base);
+      if (stale) return { ...stale.value, source: "stale" as const };
+      return { ...sampleLatest(base), source: "sample" as const };
+    }
+  });
+}
+
+/**
+ * Pick `quote` out of a latest-rates set. Quotes the feed doesn't publish
+ * (e.g. AED on the ECB feed) are filled from the sample table.
+ */
+export function pickRate(
+  latest: LatestRates,
+  quote: string
+): { rate: number | null; source: RateSource } {
+  if (latest.base === quote) return { rate: 1, source: latest.source };
+
+  const rate = latest.rates[quote];
+  if (typeof rate === "number") return { rate, source: latest.source };
+
+  const sample = sampleLatest(latest.base).rates[quote];
+  return typeof sample === "number"
+    ? { rate: sample, source: "sample" }
+    : { rate: null, source: latest.source };
+}
+
+/** 1 `from` → X `to`, or null if neither the feed nor the fallback knows the pair. */
+export async function getRate(
+  from: string,
+  to: string
+): Promise<{ rate: number | null; date: string; source: RateSource }> {
+  if (from === to) return { rate: 1, date: "", source: "live" };
+  const latest = await getLatestRates(from);
+  return { ...pickRate(latest, to), date: latest.date };
+}
+
+// ===== HISTORICAL SERIES =====
+
+function toIsoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** Inclusive start/end dates for a range, ending today. */
+export function rangeWindow(
+  range: ChartRangeKey,
+  now: Date = new Date()
+): { start: string; end: string } {
+  const days = RANGE_WINDOWS[range].days;
+  if (days == null) return { start: FEED_START_DATE, end: toIsoDate(now) };
+
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - days);
+  return { start: toIsoDate(start), end: toIsoDate(now) };
+}
+
+function trimSeries(
+  payload: SeriesPayload,
+  range: ChartRangeKey
+): SeriesPayload {
+  const keepLast = RANGE_WINDOWS[range].keepLast;
+  if (!keepLast) return payload;
+  return { ...payload, points: payload.points.slice(-keepLast) };
+}
+
+function seriesKey(base: string, range: ChartRangeKey, quote?: string) {
+  return `${base}:${quote ?? "*"}:${range}`;
+}
+
+/**
+ * Daily fixings for `base` over `range`, cached per base/quote/range.
+ * Without `quote` every published currency comes back (the board uses one
+ * request per base); the pair chart passes a quote so multi-year windows
+ * stay small enough for localStorage.
+ * Resolves to null when the feed is down and nothing is cached (we don't
+ * invent history).
+ */
+export function getRateSeries(
+  base: string,
+  range: ChartRangeKey,
+  quote?: string
+): Promise<RateSeries | null> {
+  const key = seriesKey(base, range, quote);
+  const hit = seriesCache.get(key);
+  if (hit?.fresh) {
+    return Promise.resolve({ ...hit.value, range, source: "live" });
+  }
+
+  return dedupe(`series:${key}`, async () => {
+    try {
+      const { start, end } = rangeWindow(range);
+      const symbols = quote ? [quote] : undefined;
+      const payload = trimSeries(
+        await provider.fetchSeries(base, start, end, symbols),
+        range
+      );
+      seriesCache.set(key, payload);
+      return { ...payload, range, source: "live" as const };
+    } catch (err) {
+      console.error(`Rate history (${provider.name}) error:`, err);
+      const stale = seriesCache.get(key);
+      if (stale) return { ...stale.value, range, source: "stale" as const };
+      return null;
+    }
+  });
+}
+
+export function peekRateSeries(
+  base: string,
+  range: ChartRangeKey,
+  quote?: string
+): RateSeries | null {
+  const hit = seriesCache.get(seriesKey(base, range, quote));
+  if (!hit || !hit.fresh) return null;
+  return { ...hit.value, range, source: "live" };
+}
+
+/** One quote's values out of a multi-quote series (gaps skipped). */
+export function seriesFor(series: SeriesPayload, quote: string): SeriesPoint[] {
+  const points: SeriesPoint[] = [];
+  series.points.forEach(({ date, rates }) => {
+    const value = quote === series.base ? 1 : rates[quote];
+    if (typeof value === "number") points.push({ date, value });
+  });
+  return points;
+}
+
+/** % move from first to last point, rounded to 2 dp; null with < 2 points. */
+export function changePct(points: SeriesPoint[]): number | null {
+  if (points.length < 2) return null;
+  const first = points[0].value;
+  const last = points[points.length - 1].value;
+  if (!first) return null;
+  return Number(((last / first - 1) * 100).toFixed(2));
+}
+
+// ===== CURRENCY LIST =====
+
+export function getCurrencies(): Promise<CurrencyList> {
+  const hit = currencyCache.get("all");
+  if (hit?.fresh) {
+    return Promise.resolve({ currencies: hit.value, source: "live" });
+  }
+
+  return dedupe("currencies", async () => {
+    try {
+      const currencies = await provider.fetchCurrencies();
+      currencyCache.set("all", currencies);
+      return { currencies, source: "live" as const };
+    } catch (err) {
+      console.error(`Currency list (${provider.name}) error:`, err);
+      const stale = currencyCache.get("all");
+      if (stale) return { currencies: stale.value, source: "stale" as const };
+      return { currencies: FALLBACK_CURRENCIES, source: "sample" as const };
+    }
+  });
+}
+
+export function fallbackCurrencies(): Record<string, string> {
+  return FALLBACK_CURRENCIES;
+}
@@ -0,0 +1,127 @@
+// src/services/reauth.ts
+
+// Re-authentication before sensitive account changes. Firebase rejects
+// verifyBeforeUpdateEmail / updatePassword with auth/requires-recent-login when the
+// sign-in is old, so the profile editor confirms the user first:
+//
+//   - password accounts re-enter their current password
+//   - Google accounts confirm in a Google popup
+//   - accounts with two-factor authentication then enter a code: Firebase
+//     rejects the first step with auth/multi-factor-auth-required and the
+//     caller finishes it with MfaChallengePanel
+//
+// Also maps the errors those updates can throw to readable messages.
+
+import {
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  type MultiFactorResolver,
+  type User,
+} from "firebase/auth";
+import { auth, googleProvider } from "../firebase";
+import { mfaChallengeFrom } from "./mfa";
+
+export type ReauthMethod = "password" | "google";
+
+// `challenge` is set when a second factor still has to be confirmed;
+// resolving it (MfaChallengePanel) completes the re-authentication
+export type ReauthOutcome =
+  | { ok: true; challenge: MultiFactorResolver | null }
+  | { ok: false; error: string };
+
+function errorCode(err: unknown): string | undefined {
+  return (err as { code?: string })?.code;
+}
+
+/** How the signed-in user confirms it's them (password wins if both). */
+export function reauthMethod(
+  user: User | null = auth.currentUser
+): ReauthMethod | null {
+  const providers = user?.providerData.map((p) => p.providerId) ?? [];
+  if (providers.includes("password")) return "password";
+  if (providers.includes("google.com")) return "google";
+  return null;
+}
+
+function reauthErrorMessage(code: string | undefined): string {
+  switch (code) {
+    case "auth/wrong-password":
+    case "auth/invalid-credential":
+      return "Your current password is incorrect.";
+    case "auth/user-mismatch":
+      return "Please confirm with the Google account you signed in with.";
+    case "auth/popup-closed-by-user":
+    case "auth/cancelled-popup-request":
+      return "Google confirmation was cancelled. Your changes weren’t saved.";
+    case "auth/popup-blocked":
+      return "Your browser blocked the Google popup. Allow popups and try again.";
+    case "auth/too-many-requests":
+      return "Too many attempts. Please wait a few minutes and try again.";
+    case "auth/network-request-failed":
+      return "Network error. Check your connection and try again.";
+    default:
+      return "We couldn’t confirm it’s you. Please try again.";
+  }
+}
+
+function failed(error: string): ReauthOutcome {
+  return { ok: false, error };
+}
+
+/**
+ * Confirms the signed-in user again. `currentPassword` is needed for
+ * password accounts. 2FA accounts get back a challenge to finish first.
+ */
+export async function reauthenticate(
+  currentPassword = ""
+): Promise<ReauthOutcome> {
+  const user = auth.currentUser;
+  if (!user) return failed("Please sign in again.");
+
+  const method = reauthMethod(user);
+  try {
+    if (method === "password") {
+      if (!currentPassword) {
+        return failed("Enter your current password to continue.");
+      }
+      const credential = EmailAuthProvider.credential(
+        user.email ?? "",
+        currentPassword
+      );
+      await reauthenticateWithCredential(user, credential);
+    } else if (method === "google") {
+      await reauthenticateWithPopup(user, googleProvider);
+    } else {
+      return failed(
+        "This account can’t be confirmed here. Sign out and back in first."
+      );
+    }
+    return { ok: true, challenge: null };
+  } catch (err) {
+    const challenge = mfaChallengeFrom(err);
+    if (challenge) return { ok: true, challenge };
+    console.error("Re-authentication error", err);
+    return failed(reauthErrorMessage(errorCode(err)));
+  }
+}
+
+/** Message for a failed verifyBeforeUpdateEmail / updatePassword. */
+export function accountUpdateErrorMessage(err: unknown): string {
+  switch (errorCode(err)) {
+    case "auth/requires-recent-login":
+      return "For your security, please confirm it’s you again and retry.";
+    case "auth/email-already-in-use":
+      return "That email is already used by another account.";
+    case "auth/invalid-email":
+      return "Please enter a valid email address.";
+    case "auth/weak-password":
+      return "Choose a stronger password (at least 6 characters).";
+    case "auth/operation-not-allowed":
+      return "Email changes aren’t available for this account. Please contact support.";
+    case "auth/network-request-failed":
+      return "Network error. Check your connection and try again.";
+    default:
+      return "Could not update profile. Please try again.";
+  }
+}
@@ -0,0 +1,57 @@
+// src/services/router.ts
+
+// Minimal history-based router: the current URL is a store like the others
+// (read with useRoute), `navigate()` pushes or replaces a history entry and
+// the back/forward buttons fire `popstate`. Which page a URL shows is
+// decided in routes.ts.
+
+export type AppLocation = {
+  pathname: string;
+  // including the leading "?", or ""
+  search: string;
+};
+
+let snapshot: AppLocation = readLocation();
+const listeners = new Set<() => void>();
+
+function readLocation(): AppLocation {
+  if (typeof window === "undefined") return { pathname: "/", search: "" };
+  return { pathname: window.location.pathname, search: window.location.search };
+}
+
+function update() {
+  const next = readLocation();
+  if (next.pathname === snapshot.pathname && next.search === snapshot.search) {
+    return;
+  }
+  snapshot = next;
+  listeners.forEach((l) => l());
+}
+
+export function getLocation(): AppLocation {
+  return snapshot;
+}
+
+export function subscribeLocation(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) window.addEventListener("popstate", update);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener("popstate", update);
+  };
+}
+
+/** Goes to `to` (path + query). `replace` swaps the current history entry. */
+export function navigate(to: string, { replace = false } = {}) {
+  const current = `${snapshot.pathname}${snapshot.search}`;
+  if (to === current) return;
+
+  const pageChanged =
+    new URL(to, window.location.origin).pathname !== snapshot.pathname;
+  if (replace) window.history.replaceState(null, "", to);
+  else window.history.pushState(null, "", to);
+  update();
+  // new pages start at the top; query-only changes keep the scroll position
+  if (pageChanged) window.scrollTo(0, 0);
+}
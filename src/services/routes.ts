@@ -0,0 +1,196 @@
+// src/services/routes.ts
+
+// The app's URLs:
+//
+//   /                         dashboard
+//   /login?next=/profile      sign in, then continue to `next`
+//   /register                 sign up
+//   /privacy                  privacy policy
+//   /profile                  profile (signed in)
+//   /charts                   full chart board (signed in)
+//   /charts/USD-INR?range=1Y  single-pair chart (signed in)
+//   /alerts                   alert manager
+//
+// Anything else is a 404. Protected routes send signed-out visitors to
+// /login with the page they wanted as `next`.
+//
+// The dashboard and the board keep their pair, amount, range and inverse
+// toggle in the query (/charts?from=USD&to=INR&range=30D&inverse=1), the
+// pair chart its indicators (&ind=sma20,rsi14), so a pasted link opens
+// exactly what the sender was looking at.
+
+import {
+  CHART_RANGE_KEYS,
+  RANGE_KEYS,
+  type ChartRangeKey,
+  type RangeKey,
+} from "./rateService";
+import type { AppLocation } from "./router";
+
+/** Converter + board state in the query; missing fields use page defaults. */
+export type BoardParams = {
+  from?: string;
+  to?: string;
+  amount?: number;
+  range?: RangeKey;
+  inverse?: boolean;
+};
+
+export type Route =
+  | { name: "main"; board: BoardParams }
+  | { name: "login"; next: string | null }
+  | { name: "register" }
+  | { name: "privacy" }
+  | { name: "profile" }
+  | { name: "chartsFull"; board: BoardParams }
+  | {
+      name: "pairChart";
+      base: string;
+      quote: string;
+      range: ChartRangeKey;
+      // encoded indicator settings (see useIndicatorSettings)
+      indicators: string | null;
+    }
+  | { name: "alerts" }
+  | { name: "notFound" };
+
+export const DEFAULT_CHART_RANGE: ChartRangeKey = "3M";
+
+const PROTECTED: Route["name"][] = ["profile", "chartsFull", "pairChart"];
+
+const PAIR_PATTERN = /^\/charts\/([A-Za-z]{3})-([A-Za-z]{3})$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+
+/**
+ * Only same-app paths are followed after sign-in. The URL parser decides,
+ * so tricks like "/\evil.com" (read as "//evil.com") are caught; the
+ * normalized path + query + hash is returned.
+ */
+function safeNext(value: string | null): string | null {
+  if (!value || !value.startsWith("/")) return null;
+  try {
+    const origin = window.location.origin;
+    const url = new URL(value, origin);
+    if (url.origin !== origin) return null;
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return null;
+  }
+}
+
+function parseRange(value: string | null): ChartRangeKey {
+  const key = value?.toUpperCase() as ChartRangeKey | undefined;
+  return key && CHART_RANGE_KEYS.includes(key) ? key : DEFAULT_CHART_RANGE;
+}
+
+function parseCurrency(value: string | null): string | undefined {
+  return value && CURRENCY_PATTERN.test(value) ? value.toUpperCase() : undefined;
+}
+
+function parseBoard(params: URLSearchParams): BoardParams {
+  const board: BoardParams = {};
+  const from = parseCurrency(params.get("from"));
+  const to = parseCurrency(params.get("to"));
+  if (from) board.from = from;
+  if (to) board.to = to;
+
+  const amount = Number(params.get("amount") ?? NaN);
+  if (Number.isFinite(amount) && amount >= 0) board.amount = amount;
+
+  const range = params.get("range")?.toUpperCase() as RangeKey | undefined;
+  if (range && RANGE_KEYS.includes(range)) board.range = range;
+
+  const inverse = params.get("inverse");
+  if (inverse === "1") board.inverse = true;
+  else if (inverse === "0") board.inverse = false;
+  return board;
+}
+
+/**
+ * "?a=1&b=2" from the given values, skipping empty ones; commas stay
+ * readable for the indicator list.
+ */
+function query(values: Record<string, string | undefined>): string {
+  const parts = Object.entries(values)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(
+      ([key, value]) =>
+        `${key}=${encodeURIComponent(value).replace(/%2C/g, ",")}`
+    );
+  return parts.length ? `?${parts.join("&")}` : "";
+}
+
+function boardQuery(board: BoardParams = {}): string {
+  return query({
+    from: board.from,
+    to: board.to,
+    amount: board.amount == null ? undefined : String(board.amount),
+    range: board.range,
+    inverse: board.inverse == null ? undefined : board.inverse ? "1" : "0",
+  });
+}
+
+export function matchRoute({ pathname, search }: AppLocation): Route {
+  const params = new URLSearchParams(search);
+  // "/profile/" and "/profile" are the same page
+  const path =
+    pathname.length > 1 && pathname.endsWith("/")
+      ? pathname.slice(0, -1)
+      : pathname;
+
+  switch (path) {
+    case "/":
+      return { name: "main", board: parseBoard(params) };
+    case "/login":
+      return { name: "login", next: safeNext(params.get("next")) };
+    case "/register":
+      return { name: "register" };
+    case "/privacy":
+      return { name: "privacy" };
+    case "/profile":
+      return { name: "profile" };
+    case "/charts":
+      return { name: "chartsFull", board: parseBoard(params) };
+    case "/alerts":
+      return { name: "alerts" };
+  }
+
+  const pair = PAIR_PATTERN.exec(path);
+  if (pair) {
+    return {
+      name: "pairChart",
+      base: pair[1].toUpperCase(),
+      quote: pair[2].toUpperCase(),
+      range: parseRange(params.get("range")),
+      indicators: params.get("ind") || null,
+    };
+  }
+  return { name: "notFound" };
+}
+
+export function isProtectedRoute(route: Route): boolean {
+  return PROTECTED.includes(route.name);
+}
+
+// ===== PATH BUILDERS =====
+
+export const paths = {
+  main: (board?: BoardParams) => `/${boardQuery(board)}`,
+  login: (next?: string | null) =>
+    next && next !== "/" ? `/login?next=${encodeURIComponent(next)}` : "/login",
+  register: () => "/register",
+  privacy: () => "/privacy",
+  profile: () => "/profile",
+  chartsFull: (board?: BoardParams) => `/charts${boardQuery(board)}`,
+  pairChart: (
+    base: string,
+    quote: string,
+    range: ChartRangeKey = DEFAULT_CHART_RANGE,
+    indicators?: string | null
+  ) =>
+    `/charts/${base}-${quote}${query({
+      range: range === DEFAULT_CHART_RANGE ? undefined : range,
+      ind: indicators ?? undefined,
+    })}`,
+  alerts: () => "/alerts",
+};
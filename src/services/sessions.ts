@@ -0,0 +1,247 @@
+// src/services/sessions.ts
+
+// One document per signed-in browser, so the profile page can list where
+// the account is signed in and sign other devices out:
+//
+//   users/{uid}/sessions/{id}  { device, userAgent, location, createdAt,
+//                                lastSeenAt, revokedAt }
+//
+// A new sign-in creates the document; its id is kept in localStorage so
+// reloads and other tabs continue the same session. While the app is open
+// it bumps `lastSeenAt` every few minutes and watches its own document:
+// once another device sets `revokedAt`, this one signs out. A device that
+// was offline signs out the next time it starts.
+//
+// That sign-out is done by the device itself: without a backend the app
+// can't revoke its refresh token, so an offline or modified client stays
+// signed in. Changing the password revokes every other device's token, and
+// the session list says so.
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  setDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { signOut } from "firebase/auth";
+import { auth, db } from "../firebase";
+import { coarseLocation, currentDevice, type DeviceInfo } from "./deviceInfo";
+
+export type SessionRecord = {
+  id: string;
+  device: DeviceInfo;
+  userAgent: string;
+  location: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  revokedAt: number | null;
+};
+
+const HEARTBEAT_MS = 5 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+// sessions not seen for this long are dropped from the list
+const STALE_AFTER_MS = 30 * DAY_MS;
+// revoked ones stay longer, so a device that was offline meanwhile still
+// finds out it was signed out
+const REVOKED_KEPT_MS = 180 * DAY_MS;
+
+function localKey(uid: string) {
+  return `fx-session:${uid}`;
+}
+
+function sessionsRef(uid: string) {
+  return collection(db, "users", uid, "sessions");
+}
+
+/** Id of this browser's session for `uid`, if it has one. */
+export function currentSessionId(uid: string): string | null {
+  try {
+    return localStorage.getItem(localKey(uid));
+  } catch {
+    return null;
+  }
+}
+
+function rememberSessionId(uid: string, id: string | null) {
+  try {
+    if (id) localStorage.setItem(localKey(uid), id);
+    else localStorage.removeItem(localKey(uid));
+  } catch {
+    // ignore – a reload will just start a new session
+  }
+}
+
+function logError(what: string) {
+  return (err: unknown) => console.error(`Sessions: ${what} failed:`, err);
+}
+
+function newSession(id: string): SessionRecord {
+  const now = Date.now();
+  return {
+    id,
+    device: currentDevice(),
+    userAgent: typeof navigator === "undefined" ? "" : navigator.userAgent,
+    location: coarseLocation(),
+    createdAt: now,
+    lastSeenAt: now,
+    revokedAt: null,
+  };
+}
+
+function sessionFromRemote(
+  id: string,
+  data: Record<string, unknown>
+): SessionRecord | null {
+  if (typeof data.lastSeenAt !== "number") return null;
+  return {
+    id,
+    device: data.device as DeviceInfo,
+    userAgent: String(data.userAgent ?? ""),
+    location: typeof data.location === "string" ? data.location : null,
+    createdAt: Number(data.createdAt) || data.lastSeenAt,
+    lastSeenAt: data.lastSeenAt,
+    revokedAt: typeof data.revokedAt === "number" ? data.revokedAt : null,
+  };
+}
+
+/** Records and watches this browser's session; returns a stop function. */
+export function startSession(uid: string): () => void {
+  let id = currentSessionId(uid);
+  if (!id) {
+    id = crypto.randomUUID();
+    rememberSessionId(uid, id);
+  }
+  const ref = doc(sessionsRef(uid), id);
+  let created = false;
+
+  function heartbeat() {
+    if (!created || document.visibilityState === "hidden") return;
+    setDoc(ref, { lastSeenAt: Date.now() }, { merge: true }).catch(
+      logError("heartbeat")
+    );
+  }
+
+  const offDoc = onSnapshot(
+    ref,
+    // also hear when the server confirms a cached "missing"
+    { includeMetadataChanges: true },
+    (snap) => {
+      if (snap.metadata.hasPendingWrites) return;
+      const data = snap.data();
+
+      if (data && typeof data.revokedAt === "number") {
+        rememberSessionId(uid, null);
+        signOut(auth).catch(logError("signing out"));
+        return;
+      }
+      if (!data) {
+        // a cached "missing" may just mean we haven't heard from the server
+        if (snap.metadata.fromCache || created) return;
+        setDoc(ref, newSession(ref.id)).catch(logError("creating session"));
+        created = true;
+        return;
+      }
+      if (!created) {
+        created = true;
+        heartbeat();
+      }
+    },
+    logError("watching session")
+  );
+
+  const timer = window.setInterval(heartbeat, HEARTBEAT_MS);
+  document.addEventListener("visibilitychange", heartbeat);
+
+  return () => {
+    offDoc();
+    window.clearInterval(timer);
+    document.removeEventListener("visibilitychange", heartbeat);
+  };
+}
+
+/** Removes this browser's session; call before a normal sign-out. */
+export async function endCurrentSession(uid: string): Promise<void> {
+  const id = currentSessionId(uid);
+  rememberSessionId(uid, null);
+  if (!id) return;
+  try {
+    await deleteDoc(doc(sessionsRef(uid), id));
+  } catch (err) {
+    logError("ending session")(err);
+  }
+}
+
+/** Refines this session's location, e.g. with a detected city. */
+export function setCurrentSessionLocation(uid: string, location: string) {
+  const id = currentSessionId(uid);
+  if (!id) return;
+  setDoc(doc(sessionsRef(uid), id), { location }, { merge: true }).catch(
+    logError("saving location")
+  );
+}
+
+/** Live list of active sessions, most recently seen first. */
+export function subscribeSessions(
+  uid: string,
+  listener: (sessions: SessionRecord[]) => void
+): () => void {
+  return onSnapshot(
+    sessionsRef(uid),
+    (snap) => {
+      const now = Date.now();
+      const active: SessionRecord[] = [];
+      const stale: string[] = [];
+
+      for (const d of snap.docs) {
+        const session = sessionFromRemote(d.id, d.data());
+        if (!session) continue;
+        if (session.revokedAt) {
+          if (session.revokedAt < now - REVOKED_KEPT_MS) stale.push(d.id);
+        } else if (session.lastSeenAt < now - STALE_AFTER_MS) {
+          stale.push(d.id);
+        } else {
+          active.push(session);
+        }
+      }
+      listener(active.sort((a, b) => b.lastSeenAt - a.lastSeenAt));
+
+      if (stale.length > 0 && !snap.metadata.fromCache) {
+        const batch = writeBatch(db);
+        stale.forEach((id) => batch.delete(doc(sessionsRef(uid), id)));
+        batch.commit().catch(logError("pruning sessions"));
+      }
+    },
+    logError("listing sessions")
+  );
+}
+
+/** Asks another device to sign out the next time it checks in. */
+export async function revokeSession(uid: string, id: string): Promise<void> {
+  await setDoc(
+    doc(sessionsRef(uid), id),
+    { revokedAt: Date.now() },
+    { merge: true }
+  );
+}
+
+/** Signs out every session except this browser's. */
+export async function revokeOtherSessions(
+  uid: string,
+  sessions: SessionRecord[]
+): Promise<void> {
+  const mine = currentSessionId(uid);
+  const batch = writeBatch(db);
+  const now = Date.now();
+  sessions
+    .filter((s) => s.id !== mine)
+    .forEach((s) =>
+      batch.set(
+        doc(sessionsRef(uid), s.id),
+        { revokedAt: now },
+        { merge: true }
+      )
+    );
+  await batch.commit();
+}
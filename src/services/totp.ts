@@ -0,0 +1,75 @@
+// src/services/totp.ts
+
+// RFC 6238 one-time passwords, computed in the browser. Only used when
+// signing in with a recovery code: the code unlocks a copy of the TOTP
+// secret (see mfaRecovery.ts) and the current code is generated from it,
+// just like the user's authenticator app would.
+
+export type TotpParams = {
+  // base32, as shown during enrollment
+  secretKey: string;
+  hashingAlgorithm: string;
+  codeLength: number;
+  codeIntervalSeconds: number;
+};
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const ch of clean) {
+    value = (value << 5) | BASE32.indexOf(ch);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// Firebase reports "SHA1"; WebCrypto wants "SHA-1"
+function webCryptoHash(algorithm: string) {
+  const upper = algorithm.toUpperCase();
+  if (upper.includes("512")) return "SHA-512";
+  if (upper.includes("256")) return "SHA-256";
+  return "SHA-1";
+}
+
+/** The code an authenticator app would show at time `at` (ms). */
+export async function generateTotp(
+  params: TotpParams,
+  at = Date.now()
+): Promise<string> {
+  const counter = Math.floor(at / 1000 / params.codeIntervalSeconds);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(params.secretKey),
+    { name: "HMAC", hash: webCryptoHash(params.hashingAlgorithm) },
+    false,
+    ["sign"]
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+
+  // dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** params.codeLength).padStart(
+    params.codeLength,
+    "0"
+  );
+}
@@ -0,0 +1,447 @@
+// src/services/userSync.ts
+
+// Mirrors the signed-in user's data between the local stores and Firestore:
+//
+//   users/{uid}                  { profile, preferences, migratedAt, updatedAt }
+//   users/{uid}/alerts/{id}       one RateAlert per document
+//   users/{uid}/destinations/{id} one AlertDestination per document
+//
+// The local stores stay the source the UI reads from; this keeps them and
+// the server in step in both directions. Firestore's persistent cache
+// (see firebase.ts) queues writes while offline.
+//
+// Conflicts are settled per alert / per section by `updatedAt`: the newer
+// copy wins. To tell "deleted on another device" from "created here", the
+// `updatedAt` last exchanged with the server is remembered per uid.
+//
+// The first time a uid syncs in this browser, whatever is stored locally is
+// uploaded (the one-time migration from localStorage). If the local data
+// belonged to a different account, it's dropped instead – as it is when
+// the account signs out (releaseLocalData), so the next person on this
+// browser can't see its webhooks, notifications or alert history, and its
+// alerts stop running here.
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import {
+  alertFromRemote,
+  applyRemoteAlerts,
+  clearLocalAlerts,
+  getAlerts,
+  subscribeAlerts,
+  type RateAlert,
+} from "./alertStore";
+import {
+  applyRemoteProfileDetails,
+  clearProfileDetails,
+  getProfileDetails,
+  normalizeProfileDetails,
+  subscribeProfileDetails,
+} from "./profileDetails";
+import {
+  applyRemotePreferences,
+  getPreferences,
+  normalizePreferences,
+  subscribePreferences,
+} from "./preferences";
+import {
+  applyRemoteDestinations,
+  clearLocalDestinations,
+  destinationFromRemote,
+  getDestinations,
+  subscribeDestinations,
+  type AlertDestination,
+} from "./alertDestinations";
+import { clearNotifications } from "./notifications";
+import {
+  needsEmailVerification,
+  subscribeVerification,
+} from "./emailVerification";
+import { alertEngine } from "./alertEngine";
+
+type SyncState = {
+  // alert id → updatedAt last exchanged with the server
+  alerts: Record<string, number>;
+  // destination ids last exchanged with the server
+  destinations: string[];
+  profileAt: number;
+  preferencesAt: number;
+};
+
+// uid whose data the local stores currently hold
+const OWNER_KEY = "fx-data-owner";
+// -1 = the server has no copy yet, so the local one is uploaded
+const NOT_ON_SERVER = -1;
+
+function syncKey(uid: string) {
+  return `fx-sync:${uid}`;
+}
+
+function readSyncState(uid: string): SyncState | null {
+  try {
+    const raw = localStorage.getItem(syncKey(uid));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as SyncState;
+    // states saved before destinations were synced
+    return { ...parsed, destinations: parsed.destinations ?? [] };
+  } catch {
+    return null;
+  }
+}
+
+function writeSyncState(uid: string, state: SyncState) {
+  try {
+    localStorage.setItem(syncKey(uid), JSON.stringify(state));
+  } catch {
+    // ignore – worst case the next start re-uploads unchanged data
+  }
+}
+
+function clearLocalUserData() {
+  clearLocalAlerts();
+  clearProfileDetails();
+  clearLocalDestinations();
+  clearNotifications();
+  alertEngine.reset();
+}
+
+// sync running in this tab, stopped before its data is dropped
+let stopActiveSync: (() => void) | null = null;
+
+/**
+ * Drops the signed-out account's local data. Guest data (never claimed by
+ * an account) is kept. Called whenever auth reports no user.
+ */
+export function releaseLocalData() {
+  stopActiveSync?.();
+  let owner: string | null = null;
+  try {
+    owner = localStorage.getItem(OWNER_KEY);
+    localStorage.removeItem(OWNER_KEY);
+  } catch {
+    // ignore
+  }
+  if (owner) clearLocalUserData();
+}
+
+/** Makes the local stores belong to `uid`; returns its sync state. */
+function claimLocalData(uid: string): SyncState {
+  let owner: string | null = null;
+  try {
+    owner = localStorage.getItem(OWNER_KEY);
+    localStorage.setItem(OWNER_KEY, uid);
+  } catch {
+    // ignore
+  }
+
+  if (owner && owner !== uid) {
+    // another account's leftovers – don't upload them into this one
+    clearLocalUserData();
+  }
+  return (
+    readSyncState(uid) ?? {
+      alerts: {},
+      destinations: [],
+      profileAt: NOT_ON_SERVER,
+      preferencesAt: NOT_ON_SERVER,
+    }
+  );
+}
+
+function logError(what: string) {
+  return (err: unknown) => console.error(`User sync: ${what} failed:`, err);
+}
+
+/** Starts two-way sync for `uid`; returns a function that stops it. */
+export function startUserSync(uid: string): () => void {
+  const state = claimLocalData(uid);
+  const userRef = doc(db, "users", uid);
+  const alertsRef = collection(userRef, "alerts");
+  const destinationsRef = collection(userRef, "destinations");
+  let alertsLoaded = false;
+  let userLoaded = false;
+  // writes in flight: alert id → updatedAt being saved (NOT_ON_SERVER for
+  // a delete), so repeated pushes don't send them twice
+  const alertWrites = new Map<string, number>();
+  const destinationWrites = new Set<string>();
+
+  const save = () => writeSyncState(uid, state);
+
+  // ===== ALERTS =====
+
+  function pushAlerts() {
+    // the rules only accept new alerts from verified accounts; pushing now
+    // would mark them as synced and lose them on the next load
+    if (!alertsLoaded || needsEmailVerification()) return;
+
+    const local = getAlerts();
+    const localIds = new Set(local.map((a) => a.id));
+
+    // an alert only counts as synced once the server has it; marking it
+    // earlier would make a failed write look like a remote delete
+    for (const alert of local) {
+      const { id, updatedAt } = alert;
+      const saving = alertWrites.get(id) === updatedAt;
+      if (saving || state.alerts[id] === updatedAt) continue;
+      alertWrites.set(id, updatedAt);
+      setDoc(doc(alertsRef, id), alert)
+        .then(() => {
+          state.alerts[id] = Math.max(state.alerts[id] ?? 0, updatedAt);
+          save();
+        }, logError("saving alert"))
+        .finally(() => {
+          if (alertWrites.get(id) === updatedAt) alertWrites.delete(id);
+        });
+    }
+    for (const id of Object.keys(state.alerts)) {
+      if (localIds.has(id) || alertWrites.has(id)) continue;
+      alertWrites.set(id, NOT_ON_SERVER);
+      deleteDoc(doc(alertsRef, id))
+        .then(() => {
+          if (!getAlerts().some((a) => a.id === id)) {
+            delete state.alerts[id];
+            save();
+          }
+        }, logError("deleting alert"))
+        .finally(() => {
+          if (alertWrites.get(id) === NOT_ON_SERVER) alertWrites.delete(id);
+        });
+    }
+  }
+
+  const offAlerts = onSnapshot(
+    alertsRef,
+    (snap) => {
+      const local = new Map(getAlerts().map((a) => [a.id, a]));
+      const upserts: RateAlert[] = [];
+      const removed: string[] = [];
+
+      if (!alertsLoaded) {
+        // deleted on another device while this one was away
+        const remoteIds = new Set(snap.docs.map((d) => d.id));
+        for (const [id, syncedAt] of Object.entries(state.alerts)) {
+          if (remoteIds.has(id)) continue;
+          // unless it was edited here since, in which case it's re-created
+          if ((local.get(id)?.updatedAt ?? 0) <= syncedAt) removed.push(id);
+          delete state.alerts[id];
+        }
+      }
+
+      for (const change of snap.docChanges()) {
+        const id = change.doc.id;
+        // our own write echoing back
+        if (change.doc.metadata.hasPendingWrites) continue;
+
+        const mine = local.get(id);
+        const syncedAt = state.alerts[id];
+
+        if (change.type === "removed") {
+          if (mine && mine.updatedAt <= (syncedAt ?? 0)) removed.push(id);
+          delete state.alerts[id];
+          continue;
+        }
+
+        const remote = alertFromRemote(change.doc.data());
+        if (!remote) continue;
+
+        if (!mine) {
+          // deleted here and not touched elsewhere since: stays deleted
+          if (syncedAt !== undefined && remote.updatedAt <= syncedAt) continue;
+          upserts.push(remote);
+        } else if (remote.updatedAt > mine.updatedAt) {
+          upserts.push(remote);
+        }
+        // if ours is newer, recording the server's version makes
+        // pushAlerts() upload it
+        state.alerts[id] = remote.updatedAt;
+      }
+
+      alertsLoaded = true;
+      applyRemoteAlerts(upserts, removed);
+      save();
+      pushAlerts();
+    },
+    logError("listening to alerts")
+  );
+
+  // ===== DESTINATIONS =====
+  // created and deleted, never edited, so an id set is enough
+
+  let destinationsLoaded = false;
+
+  function pushDestinations() {
+    if (!destinationsLoaded) return;
+
+    const local = getDestinations();
+    const localIds = new Set(local.map((d) => d.id));
+    const done = (id: string) => () => destinationWrites.delete(id);
+
+    // like alerts: recorded as synced only once the write has gone through
+    for (const destination of local) {
+      const { id } = destination;
+      if (destinationWrites.has(id) || state.destinations.includes(id)) {
+        continue;
+      }
+      destinationWrites.add(id);
+      setDoc(doc(destinationsRef, id), destination)
+        .then(() => {
+          if (!state.destinations.includes(id)) {
+            state.destinations = [...state.destinations, id];
+            save();
+          }
+        }, logError("saving destination"))
+        .finally(done(id));
+    }
+    for (const id of state.destinations) {
+      if (localIds.has(id) || destinationWrites.has(id)) continue;
+      destinationWrites.add(id);
+      deleteDoc(doc(destinationsRef, id))
+        .then(() => {
+          if (!getDestinations().some((d) => d.id === id)) {
+            state.destinations = state.destinations.filter((d) => d !== id);
+            save();
+          }
+        }, logError("deleting destination"))
+        .finally(done(id));
+    }
+  }
+
+  const offDestinations = onSnapshot(
+    destinationsRef,
+    (snap) => {
+      const localIds = new Set(getDestinations().map((d) => d.id));
+      const synced = new Set(state.destinations);
+      const upserts: AlertDestination[] = [];
+      const removed: string[] = [];
+
+      if (!destinationsLoaded) {
+        // deleted on another device while this one was away
+        const remoteIds = new Set(snap.docs.map((d) => d.id));
+        for (const id of synced) {
+          if (remoteIds.has(id)) continue;
+          removed.push(id);
+          synced.delete(id);
+        }
+      }
+
+      for (const change of snap.docChanges()) {
+        const id = change.doc.id;
+        if (change.doc.metadata.hasPendingWrites) continue;
+
+        if (change.type === "removed") {
+          removed.push(id);
+          synced.delete(id);
+          continue;
+        }
+        // deleted here, not yet on the server: stays deleted
+        if (synced.has(id) && !localIds.has(id)) continue;
+
+        const remote = destinationFromRemote(change.doc.data());
+        if (!remote) continue;
+        if (!localIds.has(id)) upserts.push(remote);
+        synced.add(id);
+      }
+
+      destinationsLoaded = true;
+      state.destinations = [...synced];
+      applyRemoteDestinations(upserts, removed);
+      save();
+      pushDestinations();
+    },
+    logError("listening to destinations")
+  );
+
+  // ===== PROFILE + PREFERENCES =====
+
+  function pushUserDoc() {
+    if (!userLoaded) return;
+
+    const patch: Record<string, unknown> = {};
+    const profile = getProfileDetails();
+    if (profile.updatedAt !== state.profileAt) {
+      patch.profile = profile;
+      state.profileAt = profile.updatedAt;
+    }
+    const preferences = getPreferences();
+    if (preferences.updatedAt !== state.preferencesAt) {
+      patch.preferences = preferences;
+      state.preferencesAt = preferences.updatedAt;
+    }
+    if (Object.keys(patch).length === 0) return;
+
+    save();
+    setDoc(
+      userRef,
+      { ...patch, updatedAt: serverTimestamp() },
+      { merge: true }
+    ).catch(logError("saving profile"));
+  }
+
+  const offUser = onSnapshot(
+    userRef,
+    (snap) => {
+      if (snap.metadata.hasPendingWrites) return;
+      const data = snap.data() ?? {};
+
+      if (data.profile) {
+        const remote = normalizeProfileDetails(data.profile);
+        if (remote.updatedAt > getProfileDetails().updatedAt) {
+          applyRemoteProfileDetails(remote);
+        }
+        state.profileAt = remote.updatedAt;
+      } else {
+        state.profileAt = NOT_ON_SERVER;
+      }
+
+      if (data.preferences) {
+        const remote = normalizePreferences(data.preferences);
+        if (remote.updatedAt > getPreferences().updatedAt) {
+          applyRemotePreferences(remote);
+        }
+        state.preferencesAt = remote.updatedAt;
+      } else {
+        state.preferencesAt = NOT_ON_SERVER;
+      }
+
+      if (!userLoaded && !data.migratedAt) {
+        // first sign-in anywhere: note when local data was first uploaded
+        setDoc(userRef, { migratedAt: serverTimestamp() }, { merge: true }).catch(
+          logError("marking migration")
+        );
+      }
+      userLoaded = true;
+      save();
+      pushUserDoc();
+    },
+    logError("listening to profile")
+  );
+
+  const offLocal = [
+    subscribeAlerts(pushAlerts),
+    // alerts kept back until the email was verified
+    subscribeVerification(pushAlerts),
+    subscribeDestinations(pushDestinations),
+    subscribeProfileDetails(pushUserDoc),
+    subscribePreferences(pushUserDoc),
+  ];
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    offAlerts();
+    offDestinations();
+    offUser();
+    offLocal.forEach((off) => off());
+    if (stopActiveSync === stop) stopActiveSync = null;
+  };
+  stopActiveSync = stop;
+  return stop;
+}
@@ -0,0 +1,129 @@
+// src/services/watchlist.ts
+
+// Pinned pairs per user, kept in localStorage and shared by every component
+// that shows them (board buttons, dashboard mini-board, profile card).
+
+export type WatchlistPair = {
+  base: string;
+  quote: string;
+  addedAt: string; // ISO
+};
+
+export const WATCHLIST_LIMIT = 6;
+
+// Signed-out visitors get their own list in this browser
+export const GUEST_OWNER = "guest";
+
+const STORAGE_PREFIX = "fx-watchlist:";
+
+const snapshots = new Map<string, WatchlistPair[]>();
+const listeners = new Set<() => void>();
+
+function storageKey(owner: string) {
+  return `${STORAGE_PREFIX}${owner}`;
+}
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+function readStorage(owner: string): WatchlistPair[] {
+  try {
+    const raw = localStorage.getItem(storageKey(owner));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (p): p is WatchlistPair =>
+          typeof p?.base === "string" && typeof p?.quote === "string"
+      )
+      .slice(0, WATCHLIST_LIMIT);
+  } catch {
+    return [];
+  }
+}
+
+function write(owner: string, pairs: WatchlistPair[]) {
+  snapshots.set(owner, pairs);
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(pairs));
+  } catch {
+    // ignore – in-memory snapshot still updates the UI
+  }
+  notify();
+}
+
+/** Stable array per owner (same reference until it changes). */
+export function getWatchlist(owner: string): WatchlistPair[] {
+  let pairs = snapshots.get(owner);
+  if (!pairs) {
+    pairs = readStorage(owner);
+    snapshots.set(owner, pairs);
+  }
+  return pairs;
+}
+
+export function isWatched(owner: string, base: string, quote: string) {
+  return getWatchlist(owner).some((p) => p.base === base && p.quote === quote);
+}
+
+/** Returns an error message when the pair can't be added, null on success. */
+export function addToWatchlist(
+  owner: string,
+  base: string,
+  quote: string
+): string | null {
+  const pairs = getWatchlist(owner);
+  if (base === quote) return "Pick two different currencies.";
+  if (pairs.some((p) => p.base === base && p.quote === quote)) {
+    return `${base}/${quote} is already on your watchlist.`;
+  }
+  if (pairs.length >= WATCHLIST_LIMIT) {
+    return `Your watchlist is full (up to ${WATCHLIST_LIMIT} pairs). Remove one first.`;
+  }
+
+  write(owner, [
+    ...pairs,
+    { base, quote, addedAt: new Date().toISOString() },
+  ]);
+  return null;
+}
+
+export function removeFromWatchlist(owner: string, base: string, quote: string) {
+  const pairs = getWatchlist(owner);
+  const next = pairs.filter((p) => !(p.base === base && p.quote === quote));
+  if (next.length !== pairs.length) write(owner, next);
+}
+
+/** Move the pair at `from` to index `to` (clamped to the list). */
+export function moveInWatchlist(owner: string, from: number, to: number) {
+  const pairs = getWatchlist(owner);
+  if (from < 0 || from >= pairs.length) return;
+  const target = Math.max(0, Math.min(pairs.length - 1, to));
+  if (target === from) return;
+
+  const next = [...pairs];
+  const [item] = next.splice(from, 1);
+  next.splice(target, 0, item);
+  write(owner, next);
+}
+
+function handleStorage(e: StorageEvent) {
+  if (!e.key?.startsWith(STORAGE_PREFIX)) return;
+  // another tab changed a list – drop our snapshot and re-read
+  snapshots.delete(e.key.slice(STORAGE_PREFIX.length));
+  notify();
+}
+
+export function subscribeWatchlist(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) window.addEventListener("storage", handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("storage", handleStorage);
+    }
+  };
+}
@@ -0,0 +1,269 @@
+// src/services/webhookDelivery.ts
+
+// Builds the payload for each destination kind, signs generic webhooks and
+// posts with retries. Each send gets one delivery log entry that is updated
+// after every attempt.
+//
+// Generic webhooks are signed with HMAC-SHA256 over `${timestamp}.${body}`:
+//   X-XChangeHub-Timestamp: 1767225600
+//   X-XChangeHub-Signature: sha256=<hex>
+// Receivers should recompute it with the shared secret and reject old
+// timestamps.
+
+import { describeCondition } from "./alertConditions";
+import type { AlertEvent } from "./alertEngine";
+import type { RateAlert } from "./alertStore";
+import {
+  getDestinations,
+  recordDelivery,
+  updateDelivery,
+  type AlertDestination,
+} from "./alertDestinations";
+
+type DeliveryOptions = {
+  test?: boolean;
+  // waits before the 2nd, 3rd… attempt
+  retryDelaysMs?: number[];
+};
+
+const DEFAULT_RETRY_DELAYS_MS = [2_000, 10_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// ===== PAYLOADS =====
+
+function summary(event: AlertEvent) {
+  const pair = `${event.from}/${event.to}`;
+  return {
+    pair,
+    headline: `${pair} ${describeCondition(event.condition)}`,
+    rate: `1 ${event.from} = ${event.rate.toFixed(4)} ${event.to}`,
+    change:
+      event.changePct != null
+        ? `${event.changePct > 0 ? "+" : ""}${event.changePct.toFixed(2)}%`
+        : null,
+  };
+}
+
+export function buildPayload(
+  kind: AlertDestination["kind"],
+  event: AlertEvent,
+  test = false
+): unknown {
+  const s = summary(event);
+  const prefix = test ? "[Test] " : "";
+
+  switch (kind) {
+    case "slack":
+      return {
+        text: `${prefix}${s.headline} · ${s.rate}`,
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*${prefix}${s.headline}*\n${s.rate}${
+                s.change ? ` (${s.change})` : ""
+              }\n_${new Date(event.triggeredAt).toUTCString()}_`,
+            },
+          },
+        ],
+      };
+    case "discord":
+      return {
+        username: "XChangeHub",
+        embeds: [
+          {
+            title: `${prefix}${s.headline}`,
+            description: s.rate,
+            color: event.direction === "up" ? 0x10b981 : 0xf43f5e,
+            fields: s.change
+              ? [{ name: "Change", value: s.change, inline: true }]
+              : [],
+            timestamp: event.triggeredAt,
+          },
+        ],
+      };
+    default:
+      return {
+        type: test ? "alert.test" : "alert.triggered",
+        alertId: event.alertId,
+        pair: s.pair,
+        from: event.from,
+        to: event.to,
+        condition: event.condition,
+        description: s.headline,
+        rate: event.rate,
+        referenceRate: event.referenceRate,
+        changePct: event.changePct ?? null,
+        direction: event.direction,
+        triggeredAt: event.triggeredAt,
+      };
+  }
+}
+
+// ===== SIGNING =====
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    enc.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(message));
+  return [...new Uint8Array(sig)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ===== SENDING =====
+
+type AttemptResult =
+  | { ok: true; httpStatus: number | null; confirmed: boolean }
+  | { ok: false; httpStatus: number | null; error: string; retryable: boolean };
+
+async function attempt(
+  destination: AlertDestination,
+  body: string
+): Promise<AttemptResult> {
+  const headers: Record<string, string> = {};
+  let mode: RequestMode = "cors";
+
+  if (destination.kind === "slack") {
+    // Slack doesn't answer CORS preflights; a plain-text body avoids one,
+    // but the response can't be read, so a 2xx can't be confirmed.
+    mode = "no-cors";
+  } else {
+    headers["Content-Type"] = "application/json";
+  }
+  if (destination.kind === "webhook" && destination.secret) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers["X-XChangeHub-Timestamp"] = timestamp;
+    headers["X-XChangeHub-Signature"] = `sha256=${await hmacHex(
+      destination.secret,
+      `${timestamp}.${body}`
+    )}`;
+  }
+
+  try {
+    const res = await fetch(destination.url, {
+      method: "POST",
+      mode,
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    // no-cors: the status is hidden, so all we know is that it was sent
+    if (res.type === "opaque") {
+      return { ok: true, httpStatus: null, confirmed: false };
+    }
+    if (res.ok) return { ok: true, httpStatus: res.status, confirmed: true };
+
+    const detail = (await res.text().catch(() => "")).slice(0, 200);
+    return {
+      ok: false,
+      httpStatus: res.status,
+      error: `HTTP ${res.status}${detail ? `: ${detail}` : ""}`,
+      // other client errors won't go away by retrying
+      retryable: res.status >= 500 || res.status === 408 || res.status === 429,
+    };
+  } catch (err) {
+    const timedOut = err instanceof DOMException && err.name === "TimeoutError";
+    return {
+      ok: false,
+      httpStatus: null,
+      error: timedOut
+        ? "Timed out waiting for a response"
+        : "Network error (unreachable host or blocked by CORS)",
+      retryable: true,
+    };
+  }
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
+
+/** Sends one event to one destination. Resolves true once delivered or sent. */
+export async function deliverToDestination(
+  destination: AlertDestination,
+  event: AlertEvent,
+  { test = false, retryDelaysMs = DEFAULT_RETRY_DELAYS_MS }: DeliveryOptions = {}
+): Promise<boolean> {
+  const entry = recordDelivery({
+    destinationId: destination.id,
+    destinationName: destination.name,
+    kind: destination.kind,
+    pair: `${event.from}/${event.to}`,
+    test,
+  });
+  const body = JSON.stringify(buildPayload(destination.kind, event, test));
+
+  for (let i = 0; i <= retryDelaysMs.length; i++) {
+    if (i > 0) await wait(retryDelaysMs[i - 1]);
+
+    const result = await attempt(destination, body);
+    if (result.ok) {
+      updateDelivery(entry.id, {
+        status: result.confirmed ? "delivered" : "sent",
+        attempts: i + 1,
+        httpStatus: result.httpStatus,
+        error: null,
+      });
+      return true;
+    }
+
+    const last = !result.retryable || i === retryDelaysMs.length;
+    updateDelivery(entry.id, {
+      status: last ? "failed" : "pending",
+      attempts: i + 1,
+      httpStatus: result.httpStatus,
+      error: result.error,
+    });
+    if (last) break;
+  }
+  return false;
+}
+
+/** Sends an event to every destination the alert has selected. */
+export async function deliverAlertEvent(
+  event: AlertEvent,
+  alert: RateAlert,
+  options?: DeliveryOptions
+): Promise<void> {
+  const selected = getDestinations().filter((d) =>
+    alert.destinationIds.includes(d.id)
+  );
+  await Promise.all(
+    selected.map((d) => deliverToDestination(d, event, options))
+  );
+}
+
+// ===== TEST EVENTS =====
+
+/** A made-up trigger for "Send test", based on the alert when given. */
+export function sampleEvent(alert?: RateAlert, rate?: number | null): AlertEvent {
+  const condition = alert?.condition ?? { type: "above", value: 83.25 };
+  const fallback =
+    "value" in condition
+      ? condition.value
+      : "high" in condition
+      ? condition.high
+      : 1;
+  const now = new Date().toISOString();
+
+  return {
+    id: `test-${Date.now()}`,
+    alertId: alert?.id ?? "test",
+    from: alert?.from ?? "USD",
+    to: alert?.to ?? "INR",
+    condition,
+    rate: rate ?? fallback,
+    referenceRate: null,
+    direction: "up",
+    triggeredAt: now,
+    slotAt: null,
+  };
+}
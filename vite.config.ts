@@ -1,7 +1,22 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { smtpRelay } from './smtpRelay'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  // SMTP_* aren't VITE_-prefixed, so they never reach the browser bundle
+  const env = loadEnv(mode, process.cwd(), ['SMTP_', 'VITE_MAIL_'])
+
+  return {
+    plugins: [
+      react(),
+      // the relay only exists when the app is set up to send through it
+      env.VITE_MAIL_TRANSPORT === 'smtp' &&
+        smtpRelay({
+          host: env.SMTP_HOST || '127.0.0.1',
+          port: Number(env.SMTP_PORT) || 1025,
+          allowedRecipients: (env.SMTP_ALLOWED_RECIPIENTS ?? '').split(','),
+        }),
+    ],
+  }
 })